@@ -1,14 +1,203 @@
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useContext, useReducer, useId, createContext } from 'react';
 import { createRoot } from 'react-dom/client';
 import { GoogleGenAI } from '@google/genai';
+import { Document, Packer, Paragraph, HeadingLevel } from 'docx';
+import { jsPDF } from 'jspdf';
 
 // --- CONSTANTS ---
-const STEPS = ['Introductory', 'Academics', 'Functional', 'Transition', 'Summary'];
+const STEPS = ['Introductory', 'Academics', 'Functional', 'Transition', 'Summary', 'Goals'];
 
-const FAKE_STUDENT_NAMES = ['Student Alpha', 'Student Beta', 'Student Gamma', 'Student Delta', 'Student Epsilon'];
+const PROGRESS_DATA_SOURCES = [
+  'STAAR', 'District benchmark', 'Universal screener', 'Curriculum-based measurement (CBM)',
+  'Progress monitoring', 'Work samples', 'Grades', 'Teacher observation',
+];
 
-const initialAcademicSection = {
+const PROGRESS_OUTCOMES = ['has made progress', 'has maintained performance', 'has not made progress'];
+
+// Pronoun sets used to inflect every template sentence. Singular "they" takes plural verb
+// agreement ("they have"), which `plural` drives via agree().
+const PRONOUN_SETS = {
+  he: { label: 'He / him / his', subject: 'he', object: 'him', possessive: 'his', reflexive: 'himself', plural: false },
+  she: { label: 'She / her / her', subject: 'she', object: 'her', possessive: 'her', reflexive: 'herself', plural: false },
+  they: { label: 'They / them / their', subject: 'they', object: 'them', possessive: 'their', reflexive: 'themselves', plural: true },
+};
+
+const UNSPECIFIED_PRONOUNS = { subject: 'he/she', object: 'him/her', possessive: 'his/her', reflexive: 'himself/herself', plural: false };
+
+/**
+ * A student on the teacher's local caseload roster, stored under `plaafp-roster`.
+ */
+interface RosterStudent {
+  id: string;
+  name: string;
+  studentId: string;
+  grade: string;
+  campus: string;
+  caseManager: string;
+  pronouns: '' | keyof typeof PRONOUN_SETS;
+  disabilities: string;
+  parentName: string;
+  archived: boolean;
+}
+
+const initialRosterStudent: Omit<RosterStudent, 'id'> = {
+  name: '', studentId: '', grade: '', campus: '', caseManager: '',
+  pronouns: '', disabilities: '', parentName: '', archived: false,
+};
+
+// Accepted CSV header spellings for each roster field (compared lower-cased and trimmed).
+const ROSTER_CSV_COLUMNS = {
+  name: ['name', 'student name', 'student'],
+  studentId: ['student id', 'studentid', 'id', 'local id'],
+  grade: ['grade'],
+  campus: ['campus', 'school'],
+  caseManager: ['case manager', 'casemanager'],
+  pronouns: ['pronouns'],
+  disabilities: ['disability', 'disabilities'],
+  parentName: ['parent', 'parent name', 'guardian', 'parent/guardian'],
+};
+
+/**
+ * One academic subject/course in the Academics step.
+ */
+interface AcademicSection {
+  id: string;
+  subject: string;
+  staarProficient: string;
+  staarDeficits: string;
+  progressDataSources: string[];
+  currentData: string;
+  performanceComparison: string;
+  noProgressReason: string;
+  readingFluency: string;
+  readingComprehension: string;
+  mathProblemSolving: string;
+  supportsPerformance: string;
+  classroomStrengths: string;
+  classroomDeficits: string;
+  deficitsEvidence: string;
+  withSupports: string;
+  withoutSupports: string;
+  peerComparisonGradeLevel: string;
+  peerComparisonStudent: string;
+  benchmarkPercentile: string;
+  peerBenchmarkPercentile: string;
+  strengthsDespiteDeficits: string;
+  criticalNeeds: string;
+  independentAccessImpact: string;
+  /** Dated scores behind the progress and peer-comparison sentences */
+  dataPoints: DataPoint[];
+}
+
+/**
+ * One dated measurement in an academic section. Numbers are kept as typed.
+ */
+interface DataPoint {
+  id: string;
+  /** ISO date (YYYY-MM-DD) */
+  date: string;
+  /** e.g. "Oral reading fluency (WCPM)" */
+  measure: string;
+  score: string;
+  percentile: string;
+  /** e.g. "MAP", "CBM probe" */
+  source: string;
+}
+
+/**
+ * One subject in the Summary of Performance step.
+ */
+interface PerformanceSummarySection {
+  id: string;
+  subject: string;
+  passedStateAssessment: '' | 'passed' | 'did not pass';
+  taksScore: string;
+  rawScore: string;
+  percentCorrect: string;
+  gradeInSubject: string;
+  accommodations: string;
+  needs: string;
+  receivesSpecialEdSupport: '' | 'receives' | 'does not receive';
+  strengths: string;
+}
+
+/**
+ * A complete PLAAFP document as edited in the form and stored under `plaafp-documents`.
+ */
+interface PlaafpDocument {
+  schemaVersion: number;
+  rosterStudentId: string;
+  studentName: string;
+  pronouns: '' | keyof typeof PRONOUN_SETS;
+  grade: string;
+  /** ISO date (YYYY-MM-DD), used to decide whether transition content is required */
+  dateOfBirth: string;
+  /** e.g. "2025-2026" */
+  schoolYear: string;
+  /** ISO date of the ARD meeting this PLAAFP is written for */
+  ardDate: string;
+  disabilities: string;
+  subjects: string;
+  cognitiveDeficits: string;
+  academicDeficits: string;
+  disabilityImpact: string;
+  deficitType: '' | 'normative' | 'relative';
+  specialEdSupport: string;
+  relatedServices: string;
+  accommodations: string;
+  academicSections: AcademicSection[];
+  performanceSummarySections: PerformanceSummarySection[];
+  functionalStrengths: string;
+  functionalDeficits: string;
+  functionalDataSource: string;
+  functionalImpact: string;
+  transitionStrengths: string;
+  transitionSupportNeeds: string;
+  transitionIndependentLiving: string;
+  transitionSchedules: string;
+  transitionResponsibility: string;
+  transitionParticipation: string;
+  transitionEmploymentGoal: string;
+  parentEmploymentPlan: string;
+  parentEmploymentGoal: string;
+  parentLivingPlan: string;
+  parentName: string;
+  /**
+   * Wording typed into the Preview between fields, by paragraph key and gap index (see buildNarrativeModel).
+   * Keys for the Spanish and parent-summary renderings carry a prefix such as "parent:es/".
+   */
+  paragraphOverrides: Record<string, Record<number, { base: string, text: string }>>;
+  goals: AnnualGoal[];
+}
+
+/**
+ * A measurable annual IEP goal written from the PLAAFP. Each part is a phrase that reads in order:
+ * "{timeframe}, {condition}, {student} will {behavior} {criterion}."
+ */
+interface AnnualGoal {
+  id: string;
+  area: 'academic' | 'functional';
+  /** The academic section the goal addresses; '' for functional goals */
+  sectionId: string;
+  /** e.g. "By May 2027" */
+  timeframe: string;
+  /** e.g. "given a grade-level passage" */
+  condition: string;
+  /** e.g. "read aloud" */
+  behavior: string;
+  /** e.g. "at 95 words correct per minute" */
+  criterion: string;
+  /** The present level the goal starts from */
+  baseline: string;
+  /** TEKS the goal addresses */
+  teks: string[];
+}
+
+// Bump whenever the document shape changes, and add a matching entry to MIGRATIONS.
+const SCHEMA_VERSION = 9;
+
+const initialAcademicSection: Omit<AcademicSection, 'id'> = {
   subject: '', staarProficient: '', staarDeficits: '',
   progressDataSources: [], currentData: '', performanceComparison: '',
   noProgressReason: '', readingFluency: '', readingComprehension: '',
@@ -17,80 +206,4585 @@ const initialAcademicSection = {
   withoutSupports: '', peerComparisonGradeLevel: '', peerComparisonStudent: '',
   benchmarkPercentile: '', peerBenchmarkPercentile: '',
   strengthsDespiteDeficits: '', criticalNeeds: '', independentAccessImpact: '',
+  dataPoints: [],
 };
 
-const initialPerformanceSummarySection = {
+const initialDataPoint: Omit<DataPoint, 'id'> = { date: '', measure: '', score: '', percentile: '', source: '' };
+
+const initialPerformanceSummarySection: Omit<PerformanceSummarySection, 'id'> = {
   subject: '', passedStateAssessment: '', taksScore: '', rawScore: '',
   percentCorrect: '', gradeInSubject: '', accommodations: '', needs: '',
   receivesSpecialEdSupport: '', strengths: ''
 };
 
 
-const initialPlaafpData = {
-  studentName: '', grade: '', disabilities: '', subjects: '',
-  cognitiveDeficits: '', academicDeficits: '', disabilityImpact: '',
-  deficitType: '', specialEdSupport: '', relatedServices: '',
-  accommodations: '', academicSections: [], performanceSummarySections: [],
-  functionalStrengths: '', functionalDeficits: '', functionalDataSource: '',
-  functionalImpact: '', transitionStrengths: '', transitionSupportNeeds: '',
-  transitionIndependentLiving: '', transitionSchedules: '',
-  transitionResponsibility: '', transitionParticipation: '',
-  transitionEmploymentGoal: '', parentEmploymentPlan: '',
-  parentEmploymentGoal: '', parentLivingPlan: '', parentName: '',
+const initialPlaafpData: PlaafpDocument = {
+  schemaVersion: SCHEMA_VERSION,
+  rosterStudentId: '', studentName: '', pronouns: '', grade: '', dateOfBirth: '', schoolYear: '', ardDate: '',
+  disabilities: '', subjects: '',
+  cognitiveDeficits: '', academicDeficits: '', disabilityImpact: '',
+  deficitType: '', specialEdSupport: '', relatedServices: '',
+  accommodations: '', academicSections: [], performanceSummarySections: [],
+  functionalStrengths: '', functionalDeficits: '', functionalDataSource: '',
+  functionalImpact: '', transitionStrengths: '', transitionSupportNeeds: '',
+  transitionIndependentLiving: '', transitionSchedules: '',
+  transitionResponsibility: '', transitionParticipation: '',
+  transitionEmploymentGoal: '', parentEmploymentPlan: '',
+  parentEmploymentGoal: '', parentLivingPlan: '', parentName: '',
+  paragraphOverrides: {},
+  goals: [],
+};
+
+const initialGoal: Omit<AnnualGoal, 'id'> = { area: 'academic', sectionId: '', timeframe: '', condition: '', behavior: '', criterion: '', baseline: '', teks: [] };
+
+const GOAL_FIELD_LABELS = {
+  timeframe: 'Timeframe', condition: 'Condition', behavior: 'Behavior', criterion: 'Criterion', baseline: 'Baseline', teks: 'Linked TEKS',
+};
+
+// Form labels by field, shared by features that list fields outside the form (drafting, checks, diffs).
+const PLAAFP_FIELD_LABELS = {
+  studentName: 'Student Name', pronouns: 'Student Pronouns', grade: 'Grade', dateOfBirth: 'Date of Birth',
+  schoolYear: 'School Year', ardDate: 'ARD Date', disabilities: 'Disability(ies)',
+  subjects: 'Subjects/Courses', cognitiveDeficits: 'Cognitive Deficits', academicDeficits: 'Academic Deficits',
+  disabilityImpact: 'Impact of Disability', deficitType: 'Deficit Type', specialEdSupport: 'Special Education/Resource Support',
+  relatedServices: 'Related Services', accommodations: 'Accommodations',
+  functionalDataSource: 'Data Source(s)', functionalStrengths: 'Functional Strengths',
+  functionalDeficits: 'Functional Deficits & Data', functionalImpact: 'Impact on Progress',
+  transitionStrengths: 'Strengths (Life Skills, Community)', transitionSupportNeeds: 'Support Needs',
+  transitionIndependentLiving: 'Independent Living Skills', transitionSchedules: 'Follows Schedules (visual/verbal)',
+  transitionResponsibility: 'Responsibility', transitionParticipation: 'Participation',
+  transitionEmploymentGoal: 'Post-High School Employment Goal', parentName: 'Parent Name(s)',
+  parentEmploymentPlan: "Parent's Employment Plan (full/part-time)", parentEmploymentGoal: "Parent's Desired Employment Area",
+  parentLivingPlan: "Parent's Post-Education Living Plan",
+};
+
+const ACADEMIC_FIELD_LABELS = {
+  subject: 'Subject/Course', staarProficient: 'STAAR Proficient Areas (TEKS)', staarDeficits: 'STAAR Deficit Areas (TEKS)',
+  progressDataSources: 'Progress Data Sources', performanceComparison: 'Progress Since Last ARD', currentData: 'Current Data',
+  noProgressReason: 'Reason for Limited Progress', readingFluency: 'Reading Fluency (Score/Percentile)',
+  readingComprehension: 'Reading Comprehension (Score/Percentile)', mathProblemSolving: 'Math Problem-Solving (Score/Percentile)',
+  peerComparisonGradeLevel: 'Grade-Level Peer Expectation', peerComparisonStudent: 'Student Performance Compared to Peers',
+  benchmarkPercentile: 'Student Benchmark Percentile', peerBenchmarkPercentile: 'Peer Benchmark Percentile',
+  supportsPerformance: 'Supports Provided', withSupports: 'Performance With Supports', withoutSupports: 'Performance Without Supports',
+  classroomStrengths: 'Classroom Strengths', classroomDeficits: 'Classroom Deficits', deficitsEvidence: 'Evidence of Deficits',
+  strengthsDespiteDeficits: 'Strengths Despite Deficits', criticalNeeds: 'Critical Areas of Need',
+  independentAccessImpact: 'Impact on Independent Access',
+};
+
+const SUMMARY_FIELD_LABELS = {
+  subject: 'Subject', passedStateAssessment: 'State Assessment Outcome', taksScore: 'TAKS/STAAR Scale Score',
+  rawScore: 'Raw Score', percentCorrect: 'Percent Correct', gradeInSubject: 'Grade in Subject',
+  accommodations: 'Accommodations / Modifications / Assistive Technology', needs: 'Needs due to disability',
+  receivesSpecialEdSupport: 'Receives Special Education Support', strengths: 'PLAAFP Strengths for Subject',
+};
+
+// Allowed values for fields backed by a select or checkbox group.
+const FIELD_OPTIONS = {
+  pronouns: Object.keys(PRONOUN_SETS),
+  deficitType: ['normative', 'relative'],
+  performanceComparison: PROGRESS_OUTCOMES,
+  progressDataSources: PROGRESS_DATA_SOURCES,
+  passedStateAssessment: ['passed', 'did not pass'],
+  receivesSpecialEdSupport: ['receives', 'does not receive'],
+};
+
+// --- DOCUMENT SCHEMA ---
+// Random ids for documents and sections; Date.now() strings collided when two sections were
+// added within the same millisecond.
+const createId = () => crypto.randomUUID?.() ?? `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+// Fills any field missing from a stored document (or one of its sections) with its default,
+// leaving existing values untouched.
+const withSectionDefaults = (sections, defaults) =>
+  (Array.isArray(sections) ? sections : []).map((section, index) => ({ ...defaults, id: createId(), ...section }));
+
+const withDocumentDefaults = (doc) => ({
+  ...initialPlaafpData,
+  ...doc,
+  academicSections: withSectionDefaults(doc.academicSections, initialAcademicSection),
+  performanceSummarySections: withSectionDefaults(doc.performanceSummarySections, initialPerformanceSummarySection),
+  goals: withSectionDefaults(doc.goals, initialGoal),
+});
+
+// Ordered upgrade steps. MIGRATIONS[n] takes a version-n document and returns a version n+1
+// document. Documents saved before versioning existed have no `schemaVersion` and are version 0.
+const MIGRATIONS: ((doc: Partial<PlaafpDocument>) => Partial<PlaafpDocument>)[] = [
+  // 0 -> 1: stamp the version, fill fields added since the document was written, and make
+  // progressDataSources a real array (older saves may hold a comma-separated string).
+  (doc) => {
+    const upgraded = withDocumentDefaults(doc);
+    upgraded.academicSections = upgraded.academicSections.map(section => ({
+      ...section,
+      progressDataSources: Array.isArray(section.progressDataSources)
+        ? section.progressDataSources
+        : String(section.progressDataSources || '').split(',').map(source => source.trim()).filter(Boolean),
+    }));
+    return upgraded;
+  },
+  // 1 -> 2: section ids used to be Date.now() strings and could collide; give every duplicate a fresh id.
+  (doc) => {
+    const seen = new Set();
+    const reassign = (sections) => sections.map(section => {
+      const id = section.id && !seen.has(section.id) ? section.id : createId();
+      seen.add(id);
+      return { ...section, id };
+    });
+    return {
+      ...doc,
+      academicSections: reassign(doc.academicSections || []),
+      performanceSummarySections: reassign(doc.performanceSummarySections || []),
+    };
+  },
+  // 2 -> 3: add the student's pronoun set; existing documents keep the "he/she" wording until one is chosen.
+  (doc) => ({ ...doc, pronouns: doc.pronouns ?? '' }),
+  // 3 -> 4: link documents to a roster student. Older documents stay unlinked and are grouped by studentName.
+  (doc) => ({ ...doc, rosterStudentId: doc.rosterStudentId ?? '' }),
+  // 4 -> 5: date of birth for the transition-age check; unknown for existing documents.
+  (doc) => ({ ...doc, dateOfBirth: doc.dateOfBirth ?? '' }),
+  // 5 -> 6: wording edited in the Preview is kept per paragraph instead of being discarded.
+  (doc) => ({ ...doc, paragraphOverrides: doc.paragraphOverrides ?? {} }),
+  // 6 -> 7: tag documents with a school year and ARD date; unknown for existing documents.
+  (doc) => ({ ...doc, schoolYear: doc.schoolYear ?? '', ardDate: doc.ardDate ?? '' }),
+  // 7 -> 8: dated data points per academic section; existing sections start with none.
+  (doc) => ({ ...doc, academicSections: (doc.academicSections || []).map(section => ({ ...section, dataPoints: section.dataPoints ?? [] })) }),
+  // 8 -> 9: annual goals written from the PLAAFP.
+  (doc) => ({ ...doc, goals: doc.goals ?? [] }),
+];
+
+// Upgrades a stored document of any earlier schema version to SCHEMA_VERSION.
+const migrateDocument = (doc: Partial<PlaafpDocument>): PlaafpDocument => {
+  let version = Number.isInteger(doc?.schemaVersion) ? doc.schemaVersion : 0;
+  if (version > SCHEMA_VERSION) {
+    console.warn(`Document schema version ${version} is newer than this app (${SCHEMA_VERSION}); loading as-is.`);
+    return withDocumentDefaults(doc);
+  }
+  let migrated = { ...doc };
+  while (version < SCHEMA_VERSION) {
+    migrated = MIGRATIONS[version](migrated);
+    version += 1;
+  }
+  return withDocumentDefaults({ ...migrated, schemaVersion: SCHEMA_VERSION });
+};
+
+const migrateAllDocuments = (docs: Record<string, Partial<PlaafpDocument>>): Record<string, PlaafpDocument> =>
+  Object.fromEntries(Object.entries(docs || {}).map(([id, doc]) => [id, migrateDocument(doc)]));
+
+// --- HISTORY ---
+// Every edit to the open document is a command listing the top-level keys it changed with their
+// before/after values; undo and redo apply one side or the other. Typing into one field within
+// COALESCE_MS of the previous keystroke extends the same command instead of adding a new one.
+const HISTORY_LIMIT = 100;
+const COALESCE_MS = 1000;
+const AUTOSAVE_DELAY_MS = 1500;
+
+interface HistoryCommand {
+    /** Shown in the Undo/Redo button titles */
+    label: string;
+    changes: { key: string, before: unknown, after: unknown }[];
+    coalesceKey?: string;
+    at: number;
+}
+
+const diffDocument = (before, after) => Object.keys({ ...before, ...after })
+    .filter(key => before[key] !== after[key])
+    .map(key => ({ key, before: before[key], after: after[key] }));
+
+const applyChanges = (doc, changes, side) => changes.reduce((next, change) => ({ ...next, [change.key]: change[side] }), doc);
+
+const initialHistoryState = { data: initialPlaafpData, past: [], future: [] };
+
+/**
+ * Actions: `load` replaces the document and clears history (open, new, restore); `execute` runs
+ * `updater` as an undoable command; `undo` and `redo` step through it.
+ */
+const historyReducer = (state, action) => {
+    switch (action.type) {
+        case 'load':
+            return { data: action.data, past: [], future: [] };
+        case 'execute': {
+            const next = action.updater(state.data);
+            const changes = next === state.data ? [] : diffDocument(state.data, next);
+            if (changes.length === 0) return state;
+            const last = state.past[state.past.length - 1];
+            if (action.coalesceKey && last?.coalesceKey === action.coalesceKey && action.at - last.at < COALESCE_MS) {
+                const merged = { ...last, at: action.at, changes: diffDocument(applyChanges(state.data, last.changes, 'before'), next) };
+                return { data: next, past: [...state.past.slice(0, -1), merged], future: [] };
+            }
+            const command = { label: action.label, changes, coalesceKey: action.coalesceKey, at: action.at };
+            return { data: next, past: [...state.past, command].slice(-HISTORY_LIMIT), future: [] };
+        }
+        case 'undo': {
+            const command = state.past[state.past.length - 1];
+            if (!command) return state;
+            return { data: applyChanges(state.data, command.changes, 'before'), past: state.past.slice(0, -1), future: [command, ...state.future] };
+        }
+        case 'redo': {
+            const [command, ...future] = state.future;
+            if (!command) return state;
+            return { data: applyChanges(state.data, command.changes, 'after'), past: [...state.past, command], future };
+        }
+        default:
+            return state;
+    }
+};
+
+// --- HELPER FUNCTIONS ---
+const fill = (value, placeholder) => value?.trim() ? value.trim() : `(${placeholder})`;
+const getPronouns = (pronouns) => PRONOUN_SETS[pronouns] || UNSPECIFIED_PRONOUNS;
+const fillPronoun = (pronouns, form, capitalize = false) => {
+  const word = getPronouns(pronouns)[form];
+  return capitalize ? word.charAt(0).toUpperCase() + word.slice(1) : word;
+};
+// Picks the verb form that agrees with the pronoun set, e.g. agree('they', 'has', 'have') -> 'have'.
+const agree = (pronouns, singular, plural) => getPronouns(pronouns).plural ? plural : singular;
+const fillPossessive = (studentName) => studentName?.trim() ? `${studentName}'s` : `______'s`;
+const joinList = (items, conjunction = 'and', serialComma = true) => {
+  const list = (items || []).filter(Boolean);
+  if (list.length <= 2) return list.join(` ${conjunction} `);
+  return `${list.slice(0, -1).join(', ')}${serialComma ? ',' : ''} ${conjunction} ${list[list.length - 1]}`;
+};
+const isBlank = (value) => Array.isArray(value) ? value.length === 0 : !String(value ?? '').trim();
+
+const sanitize = (str) => str.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+// Returns a new section list with `action` ('remove' | 'moveUp' | 'moveDown' | 'duplicate')
+// applied at `index`. Duplicates get a fresh id and are inserted right after the original.
+const applySectionAction = (sections, index, action) => {
+    const next = [...sections];
+    switch (action) {
+        case 'remove':
+            next.splice(index, 1);
+            break;
+        case 'moveUp':
+        case 'moveDown': {
+            const target = action === 'moveUp' ? index - 1 : index + 1;
+            if (target < 0 || target >= next.length) return sections;
+            [next[index], next[target]] = [next[target], next[index]];
+            break;
+        }
+        case 'duplicate':
+            next.splice(index + 1, 0, { ...JSON.parse(JSON.stringify(sections[index])), id: createId() });
+            break;
+        default:
+            return sections;
+    }
+    return next;
+};
+
+const SECTION_ACTION_MESSAGES = {
+    remove: 'Section removed.',
+    moveUp: 'Section moved up.',
+    moveDown: 'Section moved down.',
+    duplicate: 'Section duplicated.',
+};
+
+// --- ENCRYPTION ---
+// Student records and the API key are encrypted at rest with AES-GCM under a key derived from
+// the teacher's passphrase (PBKDF2-SHA-256). The key lives only in memory while unlocked;
+// `plaafp-vault` holds the salt plus an encrypted check value used to verify the passphrase.
+// `gemini-api-key` is only read to migrate the key into `plaafp-ai-settings`.
+const ENCRYPTED_STORAGE_KEYS = ['plaafp-documents', 'plaafp-revisions', 'plaafp-roster', 'plaafp-ai-settings', 'plaafp-ai-log', 'plaafp-draft', 'gemini-api-key'];
+const PBKDF2_ITERATIONS = 310000;
+const VAULT_CHECK_VALUE = 'plaafp-vault-check';
+const AUTO_LOCK_MINUTES = 15;
+
+const toBase64 = (buffer) => {
+    const bytes = new Uint8Array(buffer);
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+};
+
+const fromBase64 = (str) => Uint8Array.from(atob(str), char => char.charCodeAt(0));
+
+const deriveVaultKey = async (passphrase, salt, iterations) => {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt'],
+    );
+};
+
+const encryptString = async (key, plaintext) => {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+    return JSON.stringify({ encrypted: 1, iv: toBase64(iv), data: toBase64(ciphertext) });
+};
+
+const isEncryptedValue = (raw) => {
+    try {
+        return JSON.parse(raw)?.encrypted === 1;
+    } catch (error) {
+        return false;
+    }
+};
+
+const decryptString = async (key, raw) => {
+    const { iv, data } = JSON.parse(raw);
+    const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, key, fromBase64(data));
+    return new TextDecoder().decode(plaintext);
+};
+
+const readSecure = async (key, storageKey) => {
+    const raw = localStorage.getItem(storageKey);
+    if (raw === null) return null;
+    return isEncryptedValue(raw) ? decryptString(key, raw) : raw;
+};
+
+const writeSecure = async (key, storageKey, value) => {
+    localStorage.setItem(storageKey, await encryptString(key, value));
+};
+
+// Re-writes anything still stored as plaintext (data saved before encryption existed) in encrypted form.
+const encryptPlaintextStorage = async (key) => {
+    for (const storageKey of ENCRYPTED_STORAGE_KEYS) {
+        const raw = localStorage.getItem(storageKey);
+        if (raw !== null && !isEncryptedValue(raw)) {
+            await writeSecure(key, storageKey, raw);
+        }
+    }
+};
+
+const hasVault = () => localStorage.getItem('plaafp-vault') !== null;
+
+const createVault = async (passphrase) => {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const key = await deriveVaultKey(passphrase, salt, PBKDF2_ITERATIONS);
+    const check = await encryptString(key, VAULT_CHECK_VALUE);
+    await encryptPlaintextStorage(key);
+    localStorage.setItem('plaafp-vault', JSON.stringify({ salt: toBase64(salt), iterations: PBKDF2_ITERATIONS, check }));
+    return key;
+};
+
+const unlockVault = async (passphrase) => {
+    const { salt, iterations, check } = JSON.parse(localStorage.getItem('plaafp-vault'));
+    const key = await deriveVaultKey(passphrase, fromBase64(salt), iterations);
+    let verified = false;
+    try {
+        verified = await decryptString(key, check) === VAULT_CHECK_VALUE;
+    } catch (error) {
+        verified = false;
+    }
+    if (!verified) {
+        throw new Error('Incorrect passphrase.');
+    }
+    await encryptPlaintextStorage(key);
+    return key;
+};
+
+const resetVault = () => {
+    ENCRYPTED_STORAGE_KEYS.forEach(storageKey => localStorage.removeItem(storageKey));
+    localStorage.removeItem('plaafp-current-id');
+    localStorage.removeItem('plaafp-vault');
+};
+
+// --- AI PROVIDERS ---
+/**
+ * A file sent alongside a prompt (screenshot, scanned report, PDF).
+ */
+interface AiAttachment {
+    /** base64 without the data: URL prefix */
+    data: string;
+    mimeType: string;
+    name?: string;
+}
+
+interface AiRequestOptions {
+    attachments?: AiAttachment[];
+    /** ask the model to answer with a single JSON value */
+    json?: boolean;
+    /** JSON Schema the answer must follow (implies `json`) */
+    schema?: object;
+    /** stops the request; the provider then rejects with an AbortError */
+    signal?: AbortSignal;
+}
+
+/**
+ * Everything the app needs from a language model. Implementations are created from the
+ * teacher's AI settings with createAiProvider().
+ */
+interface AiProvider {
+    generateText: (prompt: string, options?: AiRequestOptions) => Promise<string>;
+    /** Yields the response text piece by piece as the model writes it */
+    streamText: (prompt: string, options?: AiRequestOptions) => AsyncIterable<string>;
+    extractFromImage: (prompt: string, image: AiAttachment) => Promise<string>;
+}
+
+interface AiSettings {
+    provider: keyof typeof AI_PROVIDERS;
+    model: string;
+    baseUrl: string;
+    apiKey: string;
+    redactPii: boolean;
+    previewRequests: boolean;
+    reviewImages: boolean;
+}
+
+// What the teacher is told for each kind of failed AI request. `network`, `server` and `quota`
+// failures are transient and retried before they are shown.
+const AI_ERROR_MESSAGES = {
+    auth: 'The AI service did not accept the API key. Please check it in AI settings.',
+    quota: "The AI service's usage limit has been reached. Wait a minute and try again; if this keeps happening, the quota for your API key may be used up for today.",
+    rateLimit: "You've sent a lot of AI requests in the last minute. Please wait a moment and try again.",
+    network: "Couldn't reach the AI service. Check your internet connection (or that your local AI server is running) and try again.",
+    server: 'The AI service is busy or having problems right now. Please try again in a few minutes.',
+    safety: "The AI service's safety filter blocked this request or its answer. Try rewording the field, or write this part yourself.",
+    model: 'The selected model was not found. Please check the model name in AI settings.',
+    badRequest: 'The AI service could not process this request. The selected model may not accept this kind of file.',
+    unknown: 'Something went wrong talking to the AI service. Please check your AI settings and try again.',
+};
+const RETRYABLE_AI_ERRORS = ['network', 'server', 'quota'];
+
+class AiRequestError extends Error {
+    kind: keyof typeof AI_ERROR_MESSAGES;
+    status?: number;
+    retryAfterMs?: number;
+
+    constructor(
+        kind: keyof typeof AI_ERROR_MESSAGES,
+        { message = AI_ERROR_MESSAGES[kind], status = undefined, retryAfterMs = undefined, cause = undefined }: { message?: string, status?: number, retryAfterMs?: number, cause?: unknown } = {},
+    ) {
+        super(message);
+        this.name = 'AiRequestError';
+        this.kind = kind;
+        this.status = status;
+        this.retryAfterMs = retryAfterMs;
+        this.cause = cause;
+    }
+
+    get retryable() {
+        return RETRYABLE_AI_ERRORS.includes(this.kind);
+    }
+}
+
+// Gemini reports a blocked prompt in promptFeedback and a blocked answer as the candidate's finishReason.
+const GEMINI_BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY'];
+const isBlockedGeminiResponse = (response) => !!response.promptFeedback?.blockReason
+    || GEMINI_BLOCKED_FINISH_REASONS.includes(response.candidates?.[0]?.finishReason);
+
+/** @returns {AiProvider} */
+const createGeminiProvider = ({ apiKey, model }) => {
+    const ai = new GoogleGenAI({ apiKey });
+    const buildRequest = (prompt, { attachments = [], json = false, schema = undefined, signal = undefined }) => ({
+        model,
+        contents: attachments.length > 0
+            ? { parts: [{ text: prompt }, ...attachments.map(({ data, mimeType }) => ({ inlineData: { data, mimeType } }))] }
+            : prompt,
+        config: {
+            ...(json || schema ? { responseMimeType: 'application/json', ...(schema ? { responseJsonSchema: schema } : {}) } : {}),
+            ...(signal ? { abortSignal: signal } : {}),
+        },
+    });
+    const generateText = async (prompt, options = {}) => {
+        const response = await ai.models.generateContent(buildRequest(prompt, options));
+        if (isBlockedGeminiResponse(response)) throw new AiRequestError('safety');
+        return response.text;
+    };
+    async function* streamText(prompt, options: AiRequestOptions = {}) {
+        for await (const chunk of await ai.models.generateContentStream(buildRequest(prompt, options))) {
+            if (isBlockedGeminiResponse(chunk)) throw new AiRequestError('safety');
+            if (chunk.text) yield chunk.text;
+        }
+    }
+    return {
+        generateText,
+        streamText,
+        extractFromImage: (prompt, image) => generateText(prompt, { attachments: [image] }),
+    };
+};
+
+// Talks to any server implementing the OpenAI chat completions API, e.g. a local Ollama or
+// llama.cpp server, so student data never has to leave the district network. Only image
+// attachments are supported by that API.
+/** @returns {AiProvider} */
+const createOpenAiCompatibleProvider = ({ baseUrl, apiKey, model }) => {
+    const request = async (prompt, { attachments = [], json = false, schema = undefined, signal = undefined }, stream) => {
+        const unsupported = attachments.find(attachment => !attachment.mimeType.startsWith('image/'));
+        if (unsupported) {
+            throw new AiRequestError('badRequest', { message: `This AI server cannot read ${unsupported.mimeType} files; attach images instead.` });
+        }
+        const content = attachments.length > 0
+            ? [
+                { type: 'text', text: prompt },
+                ...attachments.map(({ data, mimeType }) => ({ type: 'image_url', image_url: { url: `data:${mimeType};base64,${data}` } })),
+            ]
+            : prompt;
+        const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+            },
+            body: JSON.stringify({
+                model,
+                messages: [{ role: 'user', content }],
+                ...(schema
+                    ? { response_format: { type: 'json_schema', json_schema: { name: 'response', schema } } }
+                    : json ? { response_format: { type: 'json_object' } } : {}),
+                ...(stream ? { stream: true } : {}),
+            }),
+            signal,
+        });
+        if (!response.ok) {
+            throw Object.assign(new Error(`AI server responded with ${response.status} ${response.statusText}`), {
+                status: response.status,
+                retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+            });
+        }
+        return response;
+    };
+
+    const generateText = async (prompt, options = {}) => {
+        const choice = (await (await request(prompt, options, false)).json()).choices?.[0];
+        if (choice?.finish_reason === 'content_filter') throw new AiRequestError('safety');
+        return choice?.message?.content ?? '';
+    };
+
+    // Streamed responses arrive as server-sent events: "data: {json}" lines, ending with "data: [DONE]".
+    async function* streamText(prompt, options: AiRequestOptions = {}) {
+        const reader = (await request(prompt, options, true)).body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) return;
+            buffer += decoder.decode(value, { stream: true });
+            const lines = buffer.split('\n');
+            buffer = lines.pop();
+            for (const line of lines) {
+                if (!line.startsWith('data:')) continue;
+                const payload = line.slice(5).trim();
+                if (payload === '[DONE]') return;
+                const choice = JSON.parse(payload).choices?.[0];
+                if (choice?.finish_reason === 'content_filter') throw new AiRequestError('safety');
+                if (choice?.delta?.content) yield choice.delta.content;
+            }
+        }
+    }
+
+    return {
+        generateText,
+        streamText,
+        extractFromImage: (prompt, image) => generateText(prompt, { attachments: [image] }),
+    };
+};
+
+// Deterministic offline provider for trying the app and for tests: the same prompt always
+// produces the same response, and nothing is sent anywhere.
+/** @returns {AiProvider} */
+const createMockProvider = () => {
+    const summarize = (prompt) => prompt.replace(/\s+/g, ' ').trim().slice(0, 120);
+    const generateText = async (prompt, { attachments = [], json = false, schema = undefined } = {}) => {
+        if (json || schema) return '{}';
+        const attached = attachments.length > 0 ? ` (${attachments.length} attachment(s))` : '';
+        return `**Mock suggestion**\n\nThis response was generated offline for the prompt${attached}: "${summarize(prompt)}"`;
+    };
+    // Word by word with a short pause, so streaming and cancelling can be tried offline.
+    async function* streamText(prompt, options: AiRequestOptions = {}) {
+        for (const word of (await generateText(prompt, options)).split(/(?<=\s)/)) {
+            await new Promise(resolve => setTimeout(resolve, 40));
+            if (options.signal?.aborted) throw new DOMException('The AI request was aborted.', 'AbortError');
+            yield word;
+        }
+    }
+    return {
+        generateText,
+        streamText,
+        extractFromImage: async (prompt, image) => `Mock extraction (${image.mimeType}, ${image.data.length} bytes)`,
+    };
+};
+
+const AI_PROVIDERS = {
+    gemini: { label: 'Google Gemini', defaultModel: 'gemini-2.5-flash', requiresApiKey: true, usesBaseUrl: false, create: createGeminiProvider },
+    openai: { label: 'OpenAI-compatible server (e.g. local Ollama, llama.cpp)', defaultModel: 'llama3.2-vision', defaultBaseUrl: 'http://localhost:11434/v1', requiresApiKey: false, usesBaseUrl: true, create: createOpenAiCompatibleProvider },
+    mock: { label: 'Mock (offline, for testing)', defaultModel: 'mock', requiresApiKey: false, usesBaseUrl: false, create: createMockProvider },
+};
+
+const initialAiSettings: AiSettings = {
+    provider: 'gemini', model: AI_PROVIDERS.gemini.defaultModel, baseUrl: '', apiKey: '',
+    redactPii: true, previewRequests: false, reviewImages: true,
+};
+
+/** @returns {AiProvider} */
+const createAiProvider = (settings) => {
+    const definition = AI_PROVIDERS[settings.provider] || AI_PROVIDERS.gemini;
+    return definition.create({ ...settings, model: settings.model || definition.defaultModel });
+};
+
+// Returns an error message for incomplete settings, or null when they can be used.
+const validateAiSettings = (settings) => {
+    const definition = AI_PROVIDERS[settings.provider];
+    if (!definition) return 'Please choose an AI provider.';
+    if (definition.requiresApiKey && !settings.apiKey.trim()) return 'Please enter a valid API key.';
+    if (definition.usesBaseUrl && !/^https?:\/\//.test(settings.baseUrl.trim())) return 'Please enter the server URL, starting with http:// or https://.';
+    return null;
+};
+
+// --- AI REQUESTS ---
+// Every call to a provider goes through an AI client: identical requests are answered from a
+// response cache, requests are spaced by a client-side rate limit, and transient failures are
+// retried with exponential backoff. Whatever still fails is turned into an AiRequestError whose
+// message tells the teacher what went wrong.
+const AI_RETRY = { maxRetries: 3, baseDelayMs: 1000, maxDelayMs: 10 * 1000 };
+const AI_RATE_LIMIT = { requests: 10, windowMs: 60 * 1000, maxWaitMs: 15 * 1000 };
+const AI_CACHE_LIMIT = 50;
+
+const isAbortError = (error) => error?.name === 'AbortError';
+
+const sleep = (ms, signal) => new Promise<void>((resolve, reject) => {
+    const abort = () => {
+        clearTimeout(timer);
+        reject(new DOMException('The AI request was aborted.', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', abort);
+        resolve();
+    }, ms);
+    if (signal?.aborted) abort();
+    else signal?.addEventListener('abort', abort, { once: true });
+});
+
+// A "Retry-After" header holds either seconds or an HTTP date.
+const parseRetryAfter = (header) => {
+    if (!header) return undefined;
+    if (/^\d+$/.test(header.trim())) return parseInt(header, 10) * 1000;
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Gemini names the wait in its error message, as a retryDelay such as "17s" or "Please retry in 17.2s".
+const retryDelayFromMessage = (text) => {
+    const seconds = text.match(/retry(?:Delay"?\s*:\s*"|\s+in\s+)(\d+(?:\.\d+)?)s/i)?.[1];
+    return seconds ? Math.ceil(parseFloat(seconds) * 1000) : undefined;
+};
+
+/**
+ * Sorts an error from a provider (an SDK ApiError, a failed fetch, an HTTP status) into one of
+ * the AI_ERROR_MESSAGES kinds.
+ * @returns {AiRequestError}
+ */
+const classifyAiError = (error) => {
+    if (error instanceof AiRequestError) return error;
+    const status = typeof error?.status === 'number' ? error.status : undefined;
+    const text = String(error?.message || error || '');
+    const details = { status, cause: error, retryAfterMs: error?.retryAfterMs ?? retryDelayFromMessage(text) };
+    if (status === 401 || status === 403 || /API key not valid|API_KEY_INVALID|PERMISSION_DENIED|unauthori[sz]ed/i.test(text)) return new AiRequestError('auth', details);
+    if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit|too many requests/i.test(text)) return new AiRequestError('quota', details);
+    if (status === 404 || /NOT_FOUND|model .*not found/i.test(text)) return new AiRequestError('model', details);
+    if ((status !== undefined && status >= 500) || /UNAVAILABLE|overloaded|INTERNAL|DEADLINE_EXCEEDED/.test(text)) return new AiRequestError('server', details);
+    if (error instanceof TypeError || /failed to fetch|networkerror|load failed|network|ECONNREFUSED/i.test(text)) return new AiRequestError('network', details);
+    if (status === 400 || /INVALID_ARGUMENT/.test(text)) return new AiRequestError('badRequest', details);
+    return new AiRequestError('unknown', details);
+};
+
+// The message to show for a failed AI call; errors that did not come from the AI client get `fallback`.
+const describeAiError = (error, fallback = AI_ERROR_MESSAGES.unknown) => error instanceof AiRequestError ? error.message : fallback;
+
+// Milliseconds to wait before retry number `retries + 1`, or null when the error should be shown
+// instead. A server that asks for a longer wait than AI_RETRY.maxDelayMs is not retried.
+const nextRetryDelay = (error, retries) => {
+    if (!error.retryable || retries >= AI_RETRY.maxRetries) return null;
+    const delay = error.retryAfterMs ?? AI_RETRY.baseDelayMs * 2 ** retries;
+    return delay > AI_RETRY.maxDelayMs ? null : delay + Math.random() * AI_RETRY.baseDelayMs / 4;
+};
+
+/**
+ * Allows `requests` requests per `windowMs`. A request over the limit waits for a free slot, or
+ * is refused with a `rateLimit` error if that slot is more than `maxWaitMs` away.
+ */
+const createRateLimiter = ({ requests, windowMs, maxWaitMs }, now = () => Date.now()) => {
+    // Start times of recent requests, including slots reserved by requests that are still waiting.
+    let slots = [];
+    return {
+        acquire: async (signal) => {
+            const current = now();
+            slots = slots.filter(time => current - time < windowMs);
+            const slot = slots.length >= requests ? slots[slots.length - requests] + windowMs : current;
+            if (slot - current > maxWaitMs) throw new AiRequestError('rateLimit', { retryAfterMs: slot - current });
+            slots.push(slot);
+            if (slot > current) await sleep(slot - current, signal);
+        },
+    };
+};
+
+// Least recently used entries are dropped first. Responses are kept in memory for this session only.
+const createResponseCache = (limit) => {
+    const entries = new Map();
+    return {
+        get: (key) => {
+            if (!entries.has(key)) return undefined;
+            const value = entries.get(key);
+            entries.delete(key);
+            entries.set(key, value);
+            return value;
+        },
+        set: (key, value) => {
+            entries.delete(key);
+            entries.set(key, value);
+            if (entries.size > limit) entries.delete(entries.keys().next().value);
+        },
+    };
+};
+
+const hashText = async (text) => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+interface AiClientRequestOptions {
+    json?: boolean;
+    schema?: object;
+    signal?: AbortSignal;
+    /** skip the cache and ask the model again */
+    fresh?: boolean;
+    /** Called only when the request is actually sent, not for cached answers; resolves with the request to send */
+    beforeSend?: (request: { prompt: string, attachments: AiAttachment[] }) => Promise<{ prompt: string, attachments: AiAttachment[] }>;
+}
+
+/**
+ * Wraps the providers created from the teacher's settings with the cache, rate limit and retries.
+ * Both methods reject with an AiRequestError, or with an AbortError once `signal` is aborted.
+ */
+const createAiClient = ({ limiter = createRateLimiter(AI_RATE_LIMIT), cache = createResponseCache(AI_CACHE_LIMIT) } = {}) => {
+    // The key covers everything that shapes the answer: provider, model, server, prompt, files and format.
+    const cacheKey = (settings, { prompt, attachments }, { json = false, schema = undefined }) => hashText(JSON.stringify([
+        settings.provider, settings.model, settings.baseUrl, prompt,
+        attachments.map(({ mimeType, data }) => [mimeType, data]), json, schema ?? null,
+    ]));
+
+    const send = async (request, beforeSend) => beforeSend ? beforeSend(request) : request;
+
+    /**
+     * @param {AiSettings} settings
+     * @param {{ prompt: string, attachments: AiAttachment[] }} request
+     * @param {AiClientRequestOptions} [options]
+     * @returns {Promise<string>}
+     */
+    const generateText = async (settings, request, { json = false, schema = undefined, signal = undefined, fresh = false, beforeSend = undefined } = {}) => {
+        const key = await cacheKey(settings, request, { json, schema });
+        const cached = fresh ? undefined : cache.get(key);
+        if (cached !== undefined) return cached;
+
+        const { prompt, attachments } = await send(request, beforeSend);
+        const provider = createAiProvider(settings);
+        for (let retries = 0; ; retries++) {
+            await limiter.acquire(signal);
+            try {
+                const text = await provider.generateText(prompt, { attachments, json, schema, signal });
+                if (text) cache.set(key, text);
+                return text;
+            } catch (error) {
+                if (isAbortError(error) || signal?.aborted) throw error;
+                const classified = classifyAiError(error);
+                const delay = nextRetryDelay(classified, retries);
+                if (delay === null) throw classified;
+                await sleep(delay, signal);
+            }
+        }
+    };
+
+    // A stream that fails after text has arrived is not retried, since the retry would repeat that text.
+    /**
+     * @param {AiSettings} settings
+     * @param {{ prompt: string, attachments: AiAttachment[] }} request
+     * @param {AiClientRequestOptions} [options]
+     * @returns {AsyncIterable<string>}
+     */
+    async function* streamText(settings, request, { signal = undefined, fresh = false, beforeSend = undefined } = {}) {
+        const key = await cacheKey(settings, request, {});
+        const cached = fresh ? undefined : cache.get(key);
+        if (cached !== undefined) {
+            yield cached;
+            return;
+        }
+
+        const { prompt, attachments } = await send(request, beforeSend);
+        const provider = createAiProvider(settings);
+        let text = '';
+        for (let retries = 0; ; retries++) {
+            await limiter.acquire(signal);
+            try {
+                for await (const chunk of provider.streamText(prompt, { attachments, signal })) {
+                    text += chunk;
+                    yield chunk;
+                }
+                break;
+            } catch (error) {
+                if (isAbortError(error) || signal?.aborted) throw error;
+                const classified = classifyAiError(error);
+                const delay = text ? null : nextRetryDelay(classified, retries);
+                if (delay === null) throw classified;
+                await sleep(delay, signal);
+            }
+        }
+        if (text) cache.set(key, text);
+    }
+
+    return { generateText, streamText };
+};
+
+// --- PRIVACY ---
+// Before a prompt leaves the browser, names, IDs and dates are swapped for tokens like
+// [STUDENT_NAME] or [DATE_1]; the same map restores them in the model's response.
+const AI_LOG_LIMIT = 200;
+
+const MONTHS = 'Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?';
+const PII_PATTERNS = [
+    { label: 'DATE', regex: new RegExp(`\\b(?:${MONTHS})\\.? \\d{1,2}(?:st|nd|rd|th)?,? \\d{4}\\b`, 'gi') },
+    { label: 'DATE', regex: /\b\d{4}-\d{1,2}-\d{1,2}\b/g },
+    { label: 'DATE', regex: /\b\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}\b/g },
+    // Six or more digits: student, local and state IDs. Scale scores (4 digits) are left alone.
+    { label: 'ID', regex: /\b\d{6,}\b/g },
+];
+
+class AiRequestCancelled extends Error {
+    constructor() {
+        super('The AI request was cancelled.');
+        this.name = 'AiRequestCancelled';
+    }
+}
+
+const escapeRegExp = (str) => str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Names and IDs known for the current document, longest first so "Ana Lee" is matched before "Ana".
+const buildRedactionTerms = (data, rosterStudent) => {
+    const terms = [];
+    const studentName = (data.studentName || '').trim();
+    if (studentName) {
+        terms.push({ value: studentName, token: '[STUDENT_NAME]' });
+        const parts = studentName.split(/[\s,]+/).filter(part => part.length > 1);
+        if (parts.length > 1) {
+            terms.push({ value: parts[0], token: '[STUDENT_FIRST_NAME]' });
+            terms.push({ value: parts[parts.length - 1], token: '[STUDENT_LAST_NAME]' });
+        }
+    }
+    (data.parentName || '').split(/\s+and\s+|[&,/;]/i).map(name => name.trim()).filter(Boolean).forEach((name, index) => {
+        terms.push({ value: name, token: `[PARENT_NAME_${index + 1}]` });
+    });
+    if (rosterStudent?.studentId?.trim()) {
+        terms.push({ value: rosterStudent.studentId.trim(), token: '[STUDENT_ID]' });
+    }
+    return terms.sort((a, b) => b.value.length - a.value.length);
+};
+
+// Returns the redacted text plus the token -> original map needed to restore it. Names match in
+// any case but only where they start with a capital, so a student named May or Grant doesn't take
+// every "may" and "grant" in the text with them.
+const redactText = (text, terms) => {
+    const tokens = {};
+    let redacted = text;
+    terms.forEach(({ value, token }) => {
+        const regex = new RegExp(`(?<![\\w])${escapeRegExp(value)}(?![\\w])`, 'gi');
+        redacted = redacted.replace(regex, (match) => {
+            if (match[0] !== match[0].toUpperCase()) return match;
+            tokens[token] = value;
+            return token;
+        });
+    });
+    const counters = {};
+    const seen = {};
+    PII_PATTERNS.forEach(({ label, regex }) => {
+        redacted = redacted.replace(regex, (match) => {
+            if (!seen[match]) {
+                counters[label] = (counters[label] || 0) + 1;
+                seen[match] = `[${label}_${counters[label]}]`;
+                tokens[seen[match]] = match;
+            }
+            return seen[match];
+        });
+    });
+    return { text: redacted, tokens };
+};
+
+const restoreText = (text, tokens) =>
+    Object.entries(tokens).reduce((restored, [token, value]) => restored.split(token).join(value), text);
+
+// Paints black boxes over the given regions (in natural image pixels) and returns the new base64 PNG.
+const maskImage = (image: AiAttachment, masks) => new Promise<AiAttachment>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+        const canvas = document.createElement('canvas');
+        canvas.width = img.naturalWidth;
+        canvas.height = img.naturalHeight;
+        const context = canvas.getContext('2d');
+        context.drawImage(img, 0, 0);
+        context.fillStyle = '#000';
+        masks.forEach(({ x, y, width, height }) => context.fillRect(x, y, width, height));
+        resolve({ data: canvas.toDataURL('image/png').split(',')[1], mimeType: 'image/png' });
+    };
+    img.onerror = () => reject(new Error('Could not read the image for masking.'));
+    img.src = `data:${image.mimeType};base64,${image.data}`;
+});
+
+// --- DRAFTING ---
+// "Draft from sources": the model reads evaluation reports, progress reports and notes and
+// proposes a whole document, which is reviewed change by change before merging into `data`.
+const DRAFT_SOURCE_TYPES = ['Full Individual Evaluation (FIE)', 'Progress report', 'Teacher notes', 'Parent input', 'Other'];
+
+// Fields the model may fill. The student's identity and bookkeeping fields stay with the teacher.
+const DRAFTABLE_FIELDS = Object.keys(PLAAFP_FIELD_LABELS).filter(field => !['studentName', 'dateOfBirth', 'schoolYear', 'ardDate'].includes(field));
+
+const describeFields = (labels) => Object.entries(labels)
+    .map(([field, label]) => {
+        const options = FIELD_OPTIONS[field];
+        if (field === 'progressDataSources') return `  "${field}": array of any of ${JSON.stringify(options)} // ${label}`;
+        return `  "${field}": ${options ? `one of ${JSON.stringify(['', ...options])}` : 'string'} // ${label}`;
+    })
+    .join(',\n');
+
+const buildDraftPrompt = (sources, data) => {
+    const topLevel = Object.fromEntries(DRAFTABLE_FIELDS.map(field => [field, PLAAFP_FIELD_LABELS[field]]));
+    const textSources = sources
+        .filter(source => source.text)
+        .map((source, index) => `--- SOURCE ${index + 1}: ${source.type}${source.name ? ` (${source.name})` : ''} ---\n${source.text}`)
+        .join('\n\n');
+    return `You are helping a special education teacher draft a PLAAFP (Present Levels of Academic Achievement and Functional Performance) for ${data.studentName || 'a student'}${data.grade ? ` in grade ${data.grade}` : ''}.
+Read the source documents below${sources.some(source => source.attachment) ? ' and the attached files' : ''} and fill in as many fields as the sources support.
+
+Rules:
+- Use only information stated in the sources. Leave a field as "" when the sources do not support it. Never invent scores, dates or services.
+- Write each text field as a phrase that completes the PLAAFP sentence it belongs to, in professional, objective language.
+- Create one entry in "academicSections" per subject/course discussed, and one entry in "performanceSummarySections" per subject with state assessment results.
+- Respond with a single JSON object and nothing else.
+
+JSON shape:
+{
+${describeFields(topLevel)},
+  "academicSections": [{
+${describeFields(ACADEMIC_FIELD_LABELS)}
+  }],
+  "performanceSummarySections": [{
+${describeFields(SUMMARY_FIELD_LABELS)}
+  }]
+}
+
+${textSources}`;
+};
+
+// Parses the model's JSON, tolerating a surrounding code fence.
+const parseJsonResponse = (text) => {
+    const trimmed = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+    return JSON.parse(trimmed);
+};
+
+// Keeps only known fields with values of the right type, dropping anything the model made up.
+const sanitizeDraftFields = (source, labels) => {
+    const result = {};
+    Object.keys(labels).forEach(field => {
+        const value = source?.[field];
+        const options = FIELD_OPTIONS[field];
+        if (field === 'progressDataSources') {
+            if (Array.isArray(value)) result[field] = options.filter(option => value.includes(option));
+        } else if (typeof value === 'string' && value.trim()) {
+            if (!options || options.includes(value.trim())) result[field] = value.trim();
+        }
+    });
+    return result;
+};
+
+const sanitizeDraft = (raw) => ({
+    fields: sanitizeDraftFields(raw, Object.fromEntries(DRAFTABLE_FIELDS.map(field => [field, PLAAFP_FIELD_LABELS[field]]))),
+    academicSections: (Array.isArray(raw?.academicSections) ? raw.academicSections : []).map(section => sanitizeDraftFields(section, ACADEMIC_FIELD_LABELS)),
+    performanceSummarySections: (Array.isArray(raw?.performanceSummarySections) ? raw.performanceSummarySections : []).map(section => sanitizeDraftFields(section, SUMMARY_FIELD_LABELS)),
+});
+
+const formatFieldValue = (value) => Array.isArray(value) ? joinList(value) : (value || '');
+
+// Lists every difference between the current document and the draft. Sections are matched to
+// existing ones by subject; unmatched draft sections become a single "add section" change.
+const buildDraftChanges = (data, draft) => {
+    const changes = [];
+    const isDifferent = (current, proposed) => formatFieldValue(current) !== formatFieldValue(proposed);
+
+    Object.entries(draft.fields).forEach(([field, proposed]) => {
+        if (isDifferent(data[field], proposed)) {
+            changes.push({ id: field, group: 'Document', label: PLAAFP_FIELD_LABELS[field], current: data[field], proposed, listKey: null, sectionId: null, field });
+        }
+    });
+
+    [
+        { listKey: 'academicSections', labels: ACADEMIC_FIELD_LABELS, title: 'Academics', defaults: initialAcademicSection },
+        { listKey: 'performanceSummarySections', labels: SUMMARY_FIELD_LABELS, title: 'Summary of Performance', defaults: initialPerformanceSummarySection },
+    ].forEach(({ listKey, labels, title, defaults }) => {
+        draft[listKey].forEach((proposedSection, index) => {
+            const subject = (proposedSection.subject || '').toLowerCase();
+            const existing = subject && data[listKey].find(section => section.subject.trim().toLowerCase() === subject);
+            if (existing) {
+                Object.entries(proposedSection).forEach(([field, proposed]) => {
+                    if (field !== 'subject' && isDifferent(existing[field], proposed)) {
+                        changes.push({ id: `${listKey}:${existing.id}:${field}`, group: `${title}: ${existing.subject}`, label: labels[field], current: existing[field], proposed, listKey, sectionId: existing.id, field });
+                    }
+                });
+            } else {
+                const section = { ...defaults, ...proposedSection };
+                changes.push({
+                    id: `${listKey}:new:${index}`,
+                    group: `${title}: ${proposedSection.subject || `New section ${index + 1}`}`,
+                    label: 'New section',
+                    current: '',
+                    proposed: Object.entries(proposedSection).map(([field, value]) => `${labels[field]}: ${formatFieldValue(value)}`).join('\n'),
+                    listKey,
+                    sectionId: null,
+                    newSection: section,
+                });
+            }
+        });
+    });
+    return changes;
+};
+
+// Applies the accepted changes to the document.
+const applyDraftChanges = (data, changes) => changes.reduce((next, change) => {
+    if (change.newSection) {
+        return { ...next, [change.listKey]: [...next[change.listKey], { ...change.newSection, id: createId() }] };
+    }
+    if (change.listKey) {
+        return {
+            ...next,
+            [change.listKey]: next[change.listKey].map(section => section.id === change.sectionId ? { ...section, [change.field]: change.proposed } : section),
+        };
+    }
+    return { ...next, [change.field]: change.proposed };
+}, data);
+
+const readFileAsDataUrl = (file: Blob) => new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+});
+
+const readFileAsText = (file: Blob) => new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(file);
+});
+
+// --- PROMPTS ---
+// Suggestion prompts are data rather than code, so teachers can read and reword them. A field can
+// have its own prompt; fields without one use the general prompt. Section fields are keyed by
+// section type ("academic.criticalNeeds"), since both kinds of section have an "accommodations".
+// Teachers' rewordings are stored under `plaafp-prompts` as { [key]: prompt }.
+//
+//   {{label}}  the field's label     {{value}}  what the field holds now
+//   {{name}}   any field of the same section, then of the document, e.g. {{criticalNeeds}}
+
+interface SuggestionPrompt {
+    title: string;
+    prompt: string;
+    /** Fields of which at least one must be filled in first */
+    requiresAny?: string[];
+}
+
+const GENERAL_PROMPT_KEY = '*';
+
+const DEFAULT_SUGGESTION_PROMPTS: Record<string, SuggestionPrompt> = {
+    [GENERAL_PROMPT_KEY]: {
+        title: 'Suggestion for {{label}}',
+        prompt: `You are an AI assistant for special education teachers writing a PLAAFP document. For the field labelled "{{label}}", provide a helpful suggestion, example text, or a list of things to include. Also, briefly suggest where a teacher might find this information (e.g., student's cumulative folder, FIE report, parent interview). Format the response clearly using markdown for bolding and lists.`,
+    },
+    disabilityImpact: {
+        title: 'Generated Impact Statement',
+        requiresAny: ['cognitiveDeficits', 'academicDeficits'],
+        prompt: `Based on a student's cognitive deficits in "{{cognitiveDeficits}}" and academic deficits in "{{academicDeficits}}", write a concise, 1-2 sentence impact statement for a PLAAFP document. This statement should describe how these deficits affect the student's ability to access and progress in the general education curriculum. The statement should be ready to be copied directly into the document. For example: "difficulty processing auditory information and challenges with reading fluency affect the student's ability to keep pace with classroom discussions and independently complete grade-level reading assignments."`,
+    },
+    functionalImpact: {
+        title: 'Generated Impact Statement',
+        requiresAny: ['functionalDeficits'],
+        prompt: `Based on a student's functional deficits in "{{functionalDeficits}}", write a concise, 1-2 sentence statement for a PLAAFP document describing how these deficits slow the student's rate of progress. It completes the sentence "At this time, these functional deficits are negatively impacting the student's rate of progress by ...", so start with a verb ending in "-ing" and respond with only the statement.`,
+    },
+    'academic.independentAccessImpact': {
+        title: 'Generated Impact Statement',
+        requiresAny: ['criticalNeeds', 'classroomDeficits'],
+        prompt: `A student's critical areas of need in {{subject}} are "{{criticalNeeds}}", and in class the student shows deficits in "{{classroomDeficits}}". Write a concise, 1-2 sentence statement for a PLAAFP document describing how these needs affect the student's independent access to the grade-level curriculum. It completes the sentence "..., which affect independent access to the grade-level curriculum by ...", so start with a verb ending in "-ing" and respond with only the statement.`,
+    },
+};
+
+const SECTION_FIELD_LABELS = { academic: ACADEMIC_FIELD_LABELS, summary: SUMMARY_FIELD_LABELS };
+
+const promptKey = (field, sectionType) => sectionType ? `${sectionType}.${field}` : field;
+
+const loadPromptOverrides = () => {
+    try {
+        const stored = JSON.parse(localStorage.getItem('plaafp-prompts') || '{}');
+        return isPlainObject(stored) ? stored : {};
+    } catch (error) {
+        console.error("Failed to load prompts from localStorage", error);
+        return {};
+    }
+};
+
+// The prompt used for `key`: the teacher's wording, else the field's own built-in prompt, else the general one.
+const suggestionPromptFor = (key, overrides) => {
+    const base = DEFAULT_SUGGESTION_PROMPTS[key] || DEFAULT_SUGGESTION_PROMPTS[GENERAL_PROMPT_KEY];
+    const prompt = overrides[key] ?? (DEFAULT_SUGGESTION_PROMPTS[key] ? base.prompt : overrides[GENERAL_PROMPT_KEY] ?? base.prompt);
+    return { ...base, prompt };
+};
+
+/**
+ * @param {string} name
+ * @param {{ label: string, value: *, section?: Object, data: PlaafpDocument }} context
+ */
+const resolvePromptField = (name, { label, value, section, data }) => {
+    if (name === 'label') return label;
+    if (name === 'value') return value;
+    return section && name in section ? section[name] : data[name];
+};
+
+// Unknown placeholders are left as typed, so a typo shows up in the request preview.
+const fillPrompt = (prompt, context) => prompt.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name) => {
+    const value = resolvePromptField(name, context);
+    if (value === undefined) return match;
+    if (isBlank(value)) return 'none specified';
+    return name === 'dataPoints' ? formatDataPoints(value) : formatFieldValue(value);
+});
+
+const promptFieldLabel = (name, sectionType) => SECTION_FIELD_LABELS[sectionType]?.[name] || PLAAFP_FIELD_LABELS[name] || name;
+
+/**
+ * Applies `update` to one field of the document, or of the section with `sectionId`. Suggestions
+ * are applied by section id since sections can be reordered while one is being written.
+ * @param {{ field: string, sectionType?: string, sectionId?: string }} target
+ */
+const updateDocumentField = (data, { field, sectionType, sectionId }, update) => {
+    if (!sectionType) return { ...data, [field]: update(data[field]) };
+    const listKey = SECTION_LIST_KEYS[sectionType];
+    return { ...data, [listKey]: data[listKey].map(section => section.id === sectionId ? { ...section, [field]: update(section[field]) } : section) };
+};
+
+// Models format suggestions as Markdown; a form field wants the plain sentence.
+const suggestionToFieldText = (text) => stripHtml(removeHtmlBlocks(text))
+    .replace(/\*\*|__/g, '')
+    .replace(/^\s*(?:[-*•]|\d+\.)\s+/gm, '')
+    .trim()
+    .replace(/^"([\s\S]*)"$/, '$1');
+
+// --- MARKDOWN ---
+// Models answer in Markdown. It is parsed into blocks and inline tokens that the `Markdown`
+// component renders as React elements, so nothing a model writes is ever interpreted as HTML: raw
+// tags are stripped from the text, and links are kept only for http(s) and mailto addresses.
+
+type MarkdownInline =
+    | { type: 'text', text: string }
+    | { type: 'break' }
+    | { type: 'code', text: string }
+    | { type: 'strong' | 'em', children: MarkdownInline[] }
+    | { type: 'link', href: string, children: MarkdownInline[] };
+
+type MarkdownBlock =
+    | { type: 'heading', level: number, children: MarkdownInline[] }
+    | { type: 'paragraph', children: MarkdownInline[] }
+    | { type: 'list', ordered: boolean, start: number, items: { children: MarkdownInline[], blocks: MarkdownBlock[] }[] }
+    | { type: 'table', align: (string | null)[], header: MarkdownInline[][], rows: MarkdownInline[][][] }
+    | { type: 'code', text: string }
+    | { type: 'quote', blocks: MarkdownBlock[] }
+    | { type: 'rule' };
+
+const MARKDOWN_FENCE = /^\s{0,3}(`{3,}|~{3,})/;
+const MARKDOWN_HEADING = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const MARKDOWN_RULE = /^\s{0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const MARKDOWN_LIST_ITEM = /^(\s*)([-*+•]|\d{1,9}[.)])\s+(.*)$/;
+const MARKDOWN_QUOTE = /^\s{0,3}>\s?(.*)$/;
+const MARKDOWN_TABLE_DIVIDER = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+const MARKDOWN_INLINE = /(`+)([\s\S]*?[^`])\1(?!`)|\*\*([\s\S]+?)\*\*|(?<!\w)__([\s\S]+?)__(?!\w)|\*(?!\s)([^*]+?)\*|(?<!\w)_(?!\s)([^_]+?)_(?!\w)|\[([^\]]+)\]\(\s*((?:[^()\s]|\([^()\s]*\))+)\s*\)/g;
+const SAFE_LINK = /^(?:https?:\/\/|mailto:)/i;
+
+// Script and style elements go with their contents; any other tag or comment is dropped and its text kept.
+const removeHtmlBlocks = (text) => text
+    .replace(/<!--[\s\S]*?(?:-->|$)/g, '')
+    .replace(/<(script|style|iframe|object|template)\b[\s\S]*?(?:<\/\1\s*>|$)/gi, '');
+// Quoted attribute values may contain '>' (onerror="alert('>')"), so they are matched as a whole.
+const HTML_TAG = /<\/?[a-z][^<>"']*(?:(?:"[^"]*"|'[^']*')[^<>"']*)*>/gi;
+const stripHtml = (text) => text.replace(HTML_TAG, '');
+
+const indentOf = (line) => line.match(/^\s*/)[0].replace(/\t/g, '    ').length;
+const isOrderedMarker = (marker) => /\d/.test(marker);
+
+/** @returns {MarkdownInline[]} */
+const parseInline = (text) => {
+    const tokens = [];
+    const pushText = (value) => {
+        const clean = stripHtml(value);
+        if (clean) tokens.push({ type: 'text', text: clean });
+    };
+    let last = 0;
+    for (const match of text.matchAll(MARKDOWN_INLINE)) {
+        pushText(text.slice(last, match.index));
+        const [whole, , code, strong, strongUnderscore, em, emUnderscore, label, href] = match;
+        if (code !== undefined) tokens.push({ type: 'code', text: code.trim() });
+        else if (strong !== undefined || strongUnderscore !== undefined) tokens.push({ type: 'strong', children: parseInline(strong ?? strongUnderscore) });
+        else if (em !== undefined || emUnderscore !== undefined) tokens.push({ type: 'em', children: parseInline(em ?? emUnderscore) });
+        else if (SAFE_LINK.test(href)) tokens.push({ type: 'link', href, children: parseInline(label) });
+        else tokens.push(...parseInline(label));
+        last = match.index + whole.length;
+    }
+    pushText(text.slice(last));
+    return tokens;
+};
+
+// Line breaks inside a paragraph are kept: models use them for short lines that should not run together.
+// parseInline strips tags line by line, so a tag that wraps onto the next line is removed first.
+const parseInlineLines = (lines) => lines.map(line => line.trim()).join('\n')
+    .replace(HTML_TAG, tag => tag.includes('\n') ? '' : tag)
+    .split('\n')
+    .flatMap((line, i) => [...(i > 0 ? [{ type: 'break' }] : []), ...parseInline(line)]);
+
+const splitTableRow = (line) => line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '').split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+
+const isTableStart = (lines, i) => lines[i].includes('|') && i + 1 < lines.length && lines[i + 1].includes('-') && MARKDOWN_TABLE_DIVIDER.test(lines[i + 1]);
+
+const startsBlock = (lines, i) => MARKDOWN_FENCE.test(lines[i]) || MARKDOWN_HEADING.test(lines[i]) || MARKDOWN_RULE.test(lines[i])
+    || MARKDOWN_LIST_ITEM.test(lines[i]) || MARKDOWN_QUOTE.test(lines[i]) || isTableStart(lines, i);
+
+const parseTable = (lines, start) => {
+    const header = splitTableRow(lines[start]);
+    const align = splitTableRow(lines[start + 1]).map(cell => {
+        if (cell.startsWith(':') && cell.endsWith(':')) return 'center';
+        if (cell.endsWith(':')) return 'right';
+        return cell.startsWith(':') ? 'left' : null;
+    });
+    let i = start + 2;
+    const rows = [];
+    while (i < lines.length && lines[i].trim() && lines[i].includes('|')) {
+        const cells = splitTableRow(lines[i]);
+        rows.push(header.map((_, column) => parseInline(cells[column] || '')));
+        i++;
+    }
+    return { block: { type: 'table', align: header.map((_, column) => align[column] || null), header: header.map(parseInline), rows }, next: i };
+};
+
+// An item runs until the next marker at its own indent; lines indented under it (nested lists,
+// further paragraphs) are parsed as its blocks. A blank line ends the list unless the list goes on after it.
+const parseList = (lines, start) => {
+    const first = MARKDOWN_LIST_ITEM.exec(lines[start]);
+    const baseIndent = indentOf(first[1]);
+    const ordered = isOrderedMarker(first[2]);
+    const items = [];
+    let current = null;
+    let i = start;
+    const finishItem = () => {
+        if (!current) return;
+        const contentIndent = Math.min(...current.rest.filter(line => line.trim()).map(indentOf));
+        const rest = current.rest.map(line => line.replace(/\t/g, '    ').slice(Number.isFinite(contentIndent) ? contentIndent : 0));
+        items.push({ children: parseInlineLines(current.lines), blocks: parseBlocks(rest) });
+    };
+    while (i < lines.length) {
+        const line = lines[i];
+        if (!line.trim()) {
+            let next = i + 1;
+            while (next < lines.length && !lines[next].trim()) next++;
+            const continues = next < lines.length && (indentOf(lines[next]) > baseIndent
+                || (MARKDOWN_LIST_ITEM.test(lines[next]) && isOrderedMarker(MARKDOWN_LIST_ITEM.exec(lines[next])[2]) === ordered && indentOf(lines[next]) === baseIndent));
+            if (!continues) break;
+            if (current && current.rest.length > 0) current.rest.push('');
+            i = next;
+            continue;
+        }
+        const match = MARKDOWN_LIST_ITEM.exec(line);
+        const indent = indentOf(line);
+        if (match && indent <= baseIndent + 1) {
+            if (indent < baseIndent || isOrderedMarker(match[2]) !== ordered) break;
+            finishItem();
+            current = { lines: [match[3]], rest: [] };
+        } else if (indent > baseIndent) {
+            if (current.rest.length === 0 && !match) current.lines.push(line);
+            else current.rest.push(line);
+        } else if (!startsBlock(lines, i) && current.rest.length === 0) {
+            current.lines.push(line);
+        } else {
+            break;
+        }
+        i++;
+    }
+    finishItem();
+    return { block: { type: 'list', ordered, start: ordered ? parseInt(first[2], 10) : 1, items }, next: i };
+};
+
+/** @returns {MarkdownBlock[]} */
+const parseBlocks = (lines) => {
+    const blocks = [];
+    let i = 0;
+    while (i < lines.length) {
+        const line = lines[i];
+        if (!line.trim()) {
+            i++;
+            continue;
+        }
+        const fence = MARKDOWN_FENCE.exec(line);
+        if (fence) {
+            const body = [];
+            i++;
+            while (i < lines.length && !lines[i].trim().startsWith(fence[1])) body.push(lines[i++]);
+            blocks.push({ type: 'code', text: body.join('\n') });
+            i++;
+            continue;
+        }
+        const heading = MARKDOWN_HEADING.exec(line);
+        if (heading) {
+            blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+            i++;
+            continue;
+        }
+        if (MARKDOWN_RULE.test(line)) {
+            blocks.push({ type: 'rule' });
+            i++;
+            continue;
+        }
+        if (isTableStart(lines, i) || MARKDOWN_LIST_ITEM.test(line)) {
+            const { block, next } = isTableStart(lines, i) ? parseTable(lines, i) : parseList(lines, i);
+            blocks.push(block);
+            i = next;
+            continue;
+        }
+        if (MARKDOWN_QUOTE.test(line)) {
+            const quoted = [];
+            while (i < lines.length && MARKDOWN_QUOTE.test(lines[i])) quoted.push(MARKDOWN_QUOTE.exec(lines[i++])[1]);
+            blocks.push({ type: 'quote', blocks: parseBlocks(quoted) });
+            continue;
+        }
+        const paragraph = [line];
+        i++;
+        while (i < lines.length && lines[i].trim() && !startsBlock(lines, i)) paragraph.push(lines[i++]);
+        blocks.push({ type: 'paragraph', children: parseInlineLines(paragraph) });
+    }
+    return blocks;
+};
+
+/** @returns {MarkdownBlock[]} */
+const parseMarkdown = (text) => parseBlocks(removeHtmlBlocks(text || '').replace(/\r\n?/g, '\n').split('\n'));
+
+// --- TEKS ---
+// A bundled, offline catalog of the STAAR-tested TEKS most PLAAFPs cite: Mathematics grades 3-8 and
+// Algebra I, and Reading Language Arts grades 3-8. Each course lists its reporting categories and a
+// curated set of student expectations with their official wording. Codes are written the way TEA
+// cites them ("5.3(K)", "A.5(A)"); STAAR fields store the codes, and the narrative shows descriptions.
+// RLA items are organized by TEKS strand, which is how RLA results are reported by category.
+// The expectations are a sample, so only reporting categories are checked; any code in TEKS form is
+// accepted, and codes outside the catalog are shown as written.
+// Codes are only unique within a subject (math 7.9(A) and RLA 7.9(A) differ), so lookups always
+// go through the section's course.
+
+interface TeksCourse {
+    id: string;
+    subject: 'Mathematics' | 'Reading Language Arts';
+    /** Null for end-of-course tests */
+    grade: number | null;
+    name: string;
+    categories: { id: number, name: string }[];
+    expectations: { code: string, category: number, description: string }[];
+}
+
+// "5.3(K)", "5.3K" and "5.3 (K)" all name the same student expectation; Algebra I codes start with "A.".
+const TEKS_CODE_PATTERN = /\b(K|A|\d{1,2})\.(\d{1,2})\s*\(?([A-Z])\)?(?![A-Za-z])/g;
+
+const parseTeksCodes = (text) => [...new Set([...String(text || '').matchAll(TEKS_CODE_PATTERN)].map(([, grade, strand, letter]) => `${grade}.${strand}(${letter})`))];
+
+const MATH_CATEGORIES = [
+    { id: 1, name: 'Numerical Representations and Relationships' },
+    { id: 2, name: 'Computations and Algebraic Relationships' },
+    { id: 3, name: 'Geometry and Measurement' },
+    { id: 4, name: 'Data Analysis and Personal Financial Literacy' },
+];
+
+const RLA_CATEGORIES = [
+    { id: 1, name: 'Comprehension' },
+    { id: 2, name: 'Response' },
+    { id: 3, name: "Author's Purpose and Craft" },
+    { id: 4, name: 'Composition' },
+];
+
+type TeksExpectationRow = [code: string, category: number, description: string];
+
+const expectationRows = (rows: TeksExpectationRow[]) => rows.map(([code, category, description]) => ({ code, category, description }));
+
+const MATH_EXPECTATIONS: Record<number, TeksExpectationRow[]> = {
+    3: [
+        ['3.2(A)', 1, 'compose and decompose numbers up to 100,000 as a sum of so many ten thousands, so many thousands, so many hundreds, so many tens, and so many ones using objects, pictorial models, and numbers, including expanded notation as appropriate'],
+        ['3.2(D)', 1, 'compare and order whole numbers up to 100,000 and represent comparisons using the symbols >, <, or ='],
+        ['3.3(F)', 1, 'represent equivalent fractions with denominators of 2, 3, 4, 6, and 8 using a variety of objects and pictorial models, including number lines'],
+        ['3.3(H)', 1, 'compare two fractions having the same numerator or denominator in problems by reasoning about their sizes and justifying the conclusion using symbols, words, objects, and pictorial models'],
+        ['3.4(A)', 2, 'solve with fluency one-step and two-step problems involving addition and subtraction within 1,000 using strategies based on place value, properties of operations, and the relationship between addition and subtraction'],
+        ['3.4(K)', 2, 'solve one-step and two-step problems involving multiplication and division within 100 using strategies based on objects; pictorial models, including arrays, area models, and equal groups; properties of operations; or recall of facts'],
+        ['3.5(A)', 2, 'represent one- and two-step problems involving addition and subtraction of whole numbers to 1,000 using pictorial models, number lines, and equations'],
+        ['3.5(B)', 2, 'represent and solve one- and two-step multiplication and division problems within 100 using arrays, strip diagrams, and equations'],
+        ['3.6(C)', 3, 'determine the area of rectangles with whole number side lengths in problems using multiplication related to the number of rows times the number of unit squares in each row'],
+        ['3.7(B)', 3, 'determine the perimeter of a polygon or a missing length when given perimeter and remaining side lengths in problems'],
+        ['3.8(A)', 4, 'summarize a data set with multiple categories using a frequency table, dot plot, pictograph, or bar graph with scaled intervals'],
+        ['3.8(B)', 4, 'solve one- and two-step problems using categorical data represented with a frequency table, dot plot, pictograph, or bar graph with scaled intervals'],
+    ],
+    4: [
+        ['4.2(B)', 1, 'represent the value of the digit in whole numbers through 1,000,000,000 and decimals to the hundredths using expanded notation and numerals'],
+        ['4.3(D)', 1, 'compare two fractions with different numerators and different denominators and represent the comparison using the symbols >, =, or <'],
+        ['4.4(A)', 2, 'add and subtract whole numbers and decimals to the hundredths place using the standard algorithm'],
+        ['4.4(H)', 2, 'solve with fluency one- and two-step problems involving multiplication and division, including interpreting remainders'],
+        ['4.5(A)', 2, 'represent multi-step problems involving the four operations with whole numbers using strip diagrams and equations with a letter standing for the unknown quantity'],
+        ['4.5(D)', 3, 'solve problems related to perimeter and area of rectangles where dimensions are whole numbers'],
+        ['4.7(C)', 3, 'determine the approximate measures of angles in degrees to the nearest whole number using a protractor'],
+        ['4.9(B)', 4, 'solve one- and two-step problems using data in whole number, decimal, and fraction form in a frequency table, dot plot, or stem-and-leaf plot'],
+    ],
+    5: [
+        ['5.2(B)', 1, 'compare and order two decimals to thousandths and represent comparisons using the symbols >, <, or ='],
+        ['5.3(A)', 2, 'estimate to determine solutions to mathematical and real-world problems involving addition, subtraction, multiplication, or division'],
+        ['5.3(E)', 2, 'solve for products of decimals to the hundredths, including situations involving money, using strategies based on place-value understandings, properties of operations, and the relationship to the multiplication of whole numbers'],
+        ['5.3(K)', 2, 'add and subtract positive rational numbers fluently'],
+        ['5.3(L)', 2, 'divide whole numbers by unit fractions and unit fractions by whole numbers'],
+        ['5.4(B)', 2, 'represent and solve multi-step problems involving the four operations with whole numbers using equations with a letter standing for the unknown quantity'],
+        ['5.4(F)', 2, 'simplify numerical expressions that do not involve exponents, including up to two levels of grouping'],
+        ['5.4(H)', 3, 'represent and solve problems related to perimeter and/or area and related to volume'],
+        ['5.5(A)', 3, 'classify two-dimensional figures in a hierarchy of sets and subsets using graphic organizers based on their attributes and properties'],
+        ['5.8(C)', 3, 'graph in the first quadrant of the coordinate plane ordered pairs of numbers arising from mathematical and real-world problems, including those generated by number patterns or found in an input-output table'],
+        ['5.9(C)', 4, 'solve one- and two-step problems using data from a frequency table, dot plot, bar graph, stem-and-leaf plot, or scatterplot'],
+    ],
+    6: [
+        ['6.2(D)', 1, 'order a set of rational numbers arising from mathematical and real-world contexts'],
+        ['6.3(E)', 2, 'multiply and divide positive rational numbers fluently'],
+        ['6.10(A)', 2, 'model and solve one-variable, two-step equations and inequalities that represent problems, including geometric concepts'],
+        ['6.8(D)', 3, 'determine solutions for problems involving the area of rectangles, parallelograms, trapezoids, and triangles and volume of right rectangular prisms where dimensions are positive rational numbers'],
+        ['6.12(C)', 4, 'summarize numeric data with numerical summaries, including the mean and median (measures of center) and the range and interquartile range (IQR) (measures of spread), and use these summaries to describe the center, spread, and shape of the data distribution'],
+    ],
+    7: [
+        ['7.3(B)', 2, 'apply and extend previous understandings of operations to solve problems using addition, subtraction, multiplication, and division of rational numbers'],
+        ['7.11(A)', 2, 'model and solve one-variable, two-step equations and inequalities'],
+        ['7.9(A)', 3, 'solve problems involving the volume of rectangular prisms, triangular prisms, rectangular pyramids, and triangular pyramids'],
+    ],
+    8: [
+        ['8.2(D)', 1, 'order a set of real numbers arising from mathematical and real-world contexts'],
+        ['8.8(C)', 2, 'model and solve one-variable equations with variables on both sides of the equal sign that represent mathematical and real-world problems using rational number coefficients and constants'],
+        ['8.7(A)', 3, 'solve problems involving the volume of cylinders, cones, and spheres'],
+        ['8.7(C)', 3, 'use the Pythagorean Theorem and its converse to solve problems'],
+        ['8.11(A)', 4, 'construct a scatterplot and describe the observed data to address questions of association such as linear, non-linear, and no association'],
+    ],
+};
+
+const ALGEBRA_I_COURSE: TeksCourse = {
+    id: 'math-algebra-1',
+    subject: 'Mathematics',
+    grade: null,
+    name: 'Algebra I',
+    categories: [
+        { id: 1, name: 'Number and Algebraic Methods' },
+        { id: 2, name: 'Describing and Graphing Linear Functions, Equations, and Inequalities' },
+        { id: 3, name: 'Writing and Solving Linear Functions, Equations, and Inequalities' },
+        { id: 4, name: 'Quadratic Functions and Equations' },
+        { id: 5, name: 'Exponential Functions and Equations' },
+    ],
+    expectations: expectationRows([
+        ['A.2(C)', 3, 'write linear equations in two variables given a table of values, a graph, and a verbal description'],
+        ['A.3(B)', 2, 'calculate the rate of change of a linear function represented tabularly, graphically, or algebraically in context of mathematical and real-world problems'],
+        ['A.5(A)', 3, 'solve linear equations in one variable, including those for which the application of the distributive property is necessary and for which variables are included on both sides'],
+        ['A.5(C)', 3, 'solve systems of two linear equations with two variables for mathematical and real-world problems'],
+        ['A.7(A)', 4, 'graph quadratic functions on the coordinate plane and use the graph to identify key attributes, if possible, including x-intercept, y-intercept, zeros, maximum value, minimum values, vertex, and the equation of the axis of symmetry'],
+        ['A.8(A)', 4, 'solve quadratic equations having real solutions by factoring, taking square roots, completing the square, and applying the quadratic formula'],
+        ['A.9(D)', 5, 'graph exponential functions that model growth and decay and identify key features, including y-intercept and asymptote, in mathematical and real-world problems'],
+    ]),
+};
+
+// The 2017 ELAR TEKS number their strands differently in grades 3-5 and 6-8.
+const RLA_STRANDS = [
+    {
+        category: 1,
+        strand: { elementary: 6, middle: 5 },
+        expectations: {
+            A: 'establish purpose for reading assigned and self-selected texts',
+            B: 'generate questions about text before, during, and after reading to deepen understanding and gain information',
+            E: 'make connections to personal experiences, ideas in other texts, and society',
+            F: 'make inferences and use evidence to support understanding',
+            G: 'evaluate details read to determine key ideas',
+            H: 'synthesize information to create new understanding',
+            I: 'monitor comprehension and make adjustments such as re-reading, using background knowledge, asking questions, and annotating when understanding breaks down',
+        },
+    },
+    { category: 2, strand: { elementary: 7, middle: 6 }, expectations: { C: 'use text evidence to support an appropriate response' } },
+    { category: 3, strand: { elementary: 10, middle: 9 }, expectations: { A: "explain the author's purpose and message within a text" } },
+    { category: 4, strand: { elementary: 11, middle: 10 }, expectations: { D: 'edit drafts using standard English conventions' } },
+];
+
+const rlaCourse = (grade: number): TeksCourse => ({
+    id: `rla-${grade}`,
+    subject: 'Reading Language Arts',
+    grade,
+    name: `Grade ${grade} Reading Language Arts`,
+    categories: RLA_CATEGORIES,
+    expectations: RLA_STRANDS.flatMap(({ category, strand, expectations }) => Object.entries(expectations).map(([letter, description]) => ({
+        code: `${grade}.${strand[grade <= 5 ? 'elementary' : 'middle']}(${letter})`,
+        category,
+        description,
+    }))),
+});
+
+const TEKS_CATALOG: TeksCourse[] = [
+    ...[3, 4, 5, 6, 7, 8].map((grade): TeksCourse => ({
+        id: `math-${grade}`,
+        subject: 'Mathematics',
+        grade,
+        name: `Grade ${grade} Mathematics`,
+        categories: MATH_CATEGORIES,
+        expectations: expectationRows(MATH_EXPECTATIONS[grade]),
+    })),
+    ALGEBRA_I_COURSE,
+    ...[3, 4, 5, 6, 7, 8].map(rlaCourse),
+];
+
+// Matches a section's free-text subject and the student's grade to a catalog course.
+const teksCourseFor = (subject, grade) => {
+    const text = String(subject || '').toLowerCase();
+    if (/algebra/.test(text)) return ALGEBRA_I_COURSE;
+    const subjectName = /math/.test(text) ? 'Mathematics'
+        : /read|rla|ela\b|language arts|english|writing/.test(text) ? 'Reading Language Arts'
+        : null;
+    const gradeNumber = parseGrade(grade);
+    return TEKS_CATALOG.find(course => course.subject === subjectName && course.grade === gradeNumber) || null;
+};
+
+const findExpectation = (course, code) => course?.expectations.find(expectation => expectation.code === code);
+
+const searchTeks = (course, query, categoryId) => {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    return course.expectations.filter(expectation =>
+        (!categoryId || expectation.category === categoryId) &&
+        terms.every(term => expectation.code.toLowerCase().includes(term) || expectation.description.toLowerCase().includes(term))
+    );
+};
+
+const splitStaarAreas = (text) => String(text || '').split(/[,;\n]/).map(item => item.trim()).filter(Boolean);
+
+const normalizeCategoryName = (name) => name.toLowerCase().replace(/^(reporting )?category \d+:?\s*/, '').replace(/[^a-z ]/g, '').trim();
+
+/**
+ * STAAR areas in a field that are neither a TEKS code nor a reporting category for the course.
+ * @returns {string[]}
+ */
+const unrecognizedStaarAreas = (text, course) => splitStaarAreas(text).filter(item => {
+    if (parseTeksCodes(item).length > 0) return false;
+    const name = normalizeCategoryName(item);
+    return !course.categories.some(category => normalizeCategoryName(category.name) === name);
+});
+
+// Shows each catalogued code as its description, e.g. "add and subtract positive rational numbers fluently (5.3(K))".
+// `withCodes: false` leaves the code off, for readers who wouldn't know what it means.
+const describeStaarAreas = (text, course, { join = joinList, withCodes = true } = {}) => join(splitStaarAreas(text).map(item => {
+    const codes = parseTeksCodes(item);
+    const expectation = codes.length === 1 && findExpectation(course, codes[0]);
+    if (!expectation) return item;
+    return withCodes ? `${expectation.description} (${expectation.code})` : expectation.description;
+}));
+
+// Steers extraction toward real category names instead of whatever the model guesses.
+const staarAreaInstruction = (course) => course
+    ? `Use only these ${course.name} reporting category names: ${course.categories.map(category => `"${category.name}"`).join(', ')}; or TEKS student expectation codes such as "${course.expectations[0].code}".`
+    : '';
+
+// --- EXTRACTION ---
+// Whole-section extraction: one STAAR or benchmark report (screenshot or PDF) fills every
+// relevant field of a section at once, each with the model's confidence.
+const LOW_CONFIDENCE_THRESHOLD = 0.7;
+
+const SECTION_EXTRACTION_FIELDS = {
+    academic: {
+        listKey: 'academicSections',
+        labels: ACADEMIC_FIELD_LABELS,
+        fields: {
+            staarProficient: 'the two STAAR reporting categories or TEKS with the highest performance, comma-separated',
+            staarDeficits: 'the two STAAR reporting categories or TEKS with the lowest performance, comma-separated',
+            readingFluency: 'reading fluency score and/or percentile',
+            readingComprehension: 'reading comprehension score and/or percentile',
+            mathProblemSolving: 'math problem-solving score and/or percentile',
+            currentData: 'a short summary of the most recent scores shown',
+            benchmarkPercentile: "the student's percentile on the benchmark, number only",
+            peerBenchmarkPercentile: 'the campus/district/peer average percentile, number only',
+        },
+    },
+    summary: {
+        listKey: 'performanceSummarySections',
+        labels: SUMMARY_FIELD_LABELS,
+        fields: {
+            passedStateAssessment: '"passed" if the student met the passing standard (Approaches or above), otherwise "did not pass"',
+            taksScore: 'the scale score, usually a 4-digit number, e.g. "1452"',
+            rawScore: 'the raw score as points earned/points possible, e.g. "35/52"',
+            percentCorrect: 'the percent correct, e.g. "67%"',
+            gradeInSubject: 'the course grade or average, if shown',
+        },
+    },
+};
+
+const buildSectionExtractionSchema = (fieldNames) => ({
+    type: 'object',
+    properties: {
+        fields: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    field: { type: 'string', enum: fieldNames },
+                    value: { type: 'string' },
+                    confidence: { type: 'number', minimum: 0, maximum: 1 },
+                },
+                required: ['field', 'value', 'confidence'],
+            },
+        },
+    },
+    required: ['fields'],
+});
+
+const buildSectionExtractionPrompt = (sectionType, subject, course = null) => {
+    const { fields } = SECTION_EXTRACTION_FIELDS[sectionType];
+    const fieldList = Object.entries(fields).map(([field, description]) => `- ${field}: ${description}`).join('\n');
+    const areaInstruction = sectionType === 'academic' && course ? `\nFor staarProficient and staarDeficits: ${staarAreaInstruction(course)}\n` : '';
+    return `The attached file is a student's state assessment (STAAR) or benchmark report${subject ? ` for ${subject}` : ''}. It may have several pages.
+Extract a value for each of these fields when the report shows it:
+${fieldList}
+${areaInstruction}
+For each field you can find, return its value exactly as it should appear in the document and a confidence between 0 and 1 that the value is correct and for the right subject.
+Leave out any field the report does not show. Do not guess.`;
+};
+
+// Validates the model's answer against the section's fields and enumerated options.
+const parseSectionExtraction = (sectionType, response) => {
+    const { fields, labels } = SECTION_EXTRACTION_FIELDS[sectionType];
+    const entries = Array.isArray(response?.fields) ? response.fields : [];
+    return entries
+        .filter(entry => fields[entry?.field] && typeof entry.value === 'string' && entry.value.trim())
+        .filter(entry => !FIELD_OPTIONS[entry.field] || FIELD_OPTIONS[entry.field].includes(entry.value.trim()))
+        .map(entry => ({
+            field: entry.field,
+            label: labels[entry.field],
+            value: entry.value.trim(),
+            confidence: Math.min(1, Math.max(0, Number(entry.confidence) || 0)),
+        }));
+};
+
+// STAAR areas that aren't a TEKS code or one of the course's reporting categories are kept but marked low
+// confidence, so the teacher checks them before relying on them.
+const flagUnrecognizedStaarAreas = (results, course) => results.map(result =>
+    course && ['staarProficient', 'staarDeficits'].includes(result.field) && unrecognizedStaarAreas(result.value, course).length > 0
+        ? { ...result, confidence: Math.min(result.confidence, LOW_CONFIDENCE_THRESHOLD / 2) }
+        : result
+);
+
+// Identifies one form field, including which section it belongs to. Used for extraction confidence
+// and, with ':' swapped for '-', as the input's DOM id.
+const fieldKey = (field: string, academicIndex?: number, summaryIndex?: number) => {
+    if (academicIndex !== undefined) return `academic:${academicIndex}:${field}`;
+    if (summaryIndex !== undefined) return `summary:${summaryIndex}:${field}`;
+    return field;
+};
+
+const fieldDomId = (field: string, academicIndex?: number, summaryIndex?: number) => fieldKey(field, academicIndex, summaryIndex).replace(/:/g, '-');
+
+const FieldConfidenceContext = createContext({});
+
+// --- COMPLIANCE CHECKS ---
+// Each rule is a pure function of the document (and today's date) returning the issues it finds.
+// Issues carry the step and field they belong to so the checklist can jump straight to the input.
+
+interface ComplianceIssue {
+    /** Stable across runs, so the checklist can be keyed by it */
+    id: string;
+    /** Index into STEPS */
+    step: number;
+    severity: 'error' | 'warning';
+    message: string;
+    field: string;
+    academicIndex?: number;
+    summaryIndex?: number;
+    goalIndex?: number;
+}
+
+// Federal and Texas rules require transition planning in the IEP in effect when the student turns 14.
+const TRANSITION_AGE = 14;
+
+const STEP_INDEX = { intro: 0, academics: 1, functional: 2, transition: 3, summary: 4, goals: 5 };
+
+const REQUIRED_FIELDS = {
+    intro: ['studentName', 'grade', 'disabilities', 'subjects', 'academicDeficits', 'deficitType', 'specialEdSupport', 'accommodations'],
+    functional: ['functionalDataSource', 'functionalStrengths', 'functionalImpact'],
+    transition: ['transitionStrengths', 'transitionSupportNeeds', 'transitionIndependentLiving', 'transitionEmploymentGoal', 'parentEmploymentPlan', 'parentLivingPlan'],
+};
+
+const SUMMARY_REQUIRED_FIELDS = ['passedStateAssessment', 'gradeInSubject', 'needs', 'receivesSpecialEdSupport', 'strengths'];
+
+// Any of these, or a usable data point, counts as baseline data for an academic section.
+const BASELINE_FIELDS = ['currentData', 'readingFluency', 'readingComprehension', 'mathProblemSolving', 'benchmarkPercentile', 'peerComparisonStudent'];
+
+const issue = (step, severity, message, field, indexes: Pick<ComplianceIssue, 'academicIndex' | 'summaryIndex' | 'goalIndex'> = {}) => ({
+    id: [step, indexes.goalIndex ?? '', fieldKey(field, indexes.academicIndex, indexes.summaryIndex), message].join('|'),
+    step, severity, message, field, ...indexes,
+});
+
+const sectionName = (section, fallback) => section.subject.trim() || fallback;
+
+const parseIsoDate = (value) => /^\d{4}-\d{2}-\d{2}$/.test(value || '') ? new Date(`${value}T00:00:00`) : null;
+
+/** Whole years between dateOfBirth and today, or null when the date is missing or invalid. */
+const calculateAge = (dateOfBirth, today) => {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(dateOfBirth || '');
+    if (!match) return null;
+    const [year, month, day] = match.slice(1).map(Number);
+    let age = today.getFullYear() - year;
+    if (today.getMonth() + 1 < month || (today.getMonth() + 1 === month && today.getDate() < day)) age -= 1;
+    return age >= 0 ? age : null;
+};
+
+/** Grade as a number (K = 0), or null when it can't be read. */
+const parseGrade = (grade) => {
+    const text = String(grade || '').trim().toLowerCase();
+    if (/^(k|kg|kindergarten)$/.test(text)) return 0;
+    const match = /\d{1,2}/.exec(text);
+    return match ? Number(match[0]) : null;
+};
+
+const checkRequiredFields = (data) => ['intro', 'functional'].flatMap(stepKey =>
+    REQUIRED_FIELDS[stepKey]
+        .filter(field => isBlank(data[field]))
+        .map(field => issue(STEP_INDEX[stepKey], 'error', `${PLAAFP_FIELD_LABELS[field]} is required.`, field))
+);
+
+const checkDisabilityImpact = (data) => isBlank(data.disabilityImpact)
+    ? [issue(STEP_INDEX.intro, 'error', 'A statement of how the disability affects involvement and progress in the general curriculum is required.', 'disabilityImpact')]
+    : [];
+
+const checkAcademicSections = (data) => {
+    if (data.academicSections.length === 0) {
+        return [issue(STEP_INDEX.academics, 'error', 'Add at least one academic section.', '')];
+    }
+    return data.academicSections.flatMap((section, academicIndex) => {
+        const name = sectionName(section, `Academic section ${academicIndex + 1}`);
+        const at = { academicIndex };
+        const issues = [];
+        if (isBlank(section.subject)) {
+            issues.push(issue(STEP_INDEX.academics, 'error', `${name}: Subject/Course is required.`, 'subject', at));
+        }
+        if (usableDataPoints(section.dataPoints).length === 0 && BASELINE_FIELDS.every(field => isBlank(section[field]))) {
+            issues.push(issue(STEP_INDEX.academics, 'error', `${name}: baseline data is missing. Add current data or a fluency, comprehension, problem-solving or benchmark score.`, 'currentData', at));
+        }
+        if ((!isBlank(section.staarDeficits) || !isBlank(section.classroomDeficits)) && isBlank(section.deficitsEvidence)) {
+            issues.push(issue(STEP_INDEX.academics, 'error', `${name}: the stated deficits need supporting evidence.`, 'deficitsEvidence', at));
+        }
+        if (isBlank(section.performanceComparison)) {
+            issues.push(issue(STEP_INDEX.academics, 'warning', `${name}: progress since the last ARD is not recorded.`, 'performanceComparison', at));
+        } else if (section.performanceComparison !== PROGRESS_OUTCOMES[0] && isBlank(section.noProgressReason)) {
+            issues.push(issue(STEP_INDEX.academics, 'error', `${name}: explain why the student ${section.performanceComparison}.`, 'noProgressReason', at));
+        }
+        if (isBlank(section.criticalNeeds)) {
+            issues.push(issue(STEP_INDEX.academics, 'warning', `${name}: no critical areas of need are listed.`, 'criticalNeeds', at));
+        }
+        const course = teksCourseFor(section.subject, data.grade);
+        if (course) {
+            ['staarProficient', 'staarDeficits'].forEach(field => unrecognizedStaarAreas(section[field], course).forEach(area => {
+                issues.push(issue(STEP_INDEX.academics, 'warning', `${name}: "${area}" is not a ${course.name} reporting category or TEKS code.`, field, at));
+            }));
+        }
+        return issues;
+    });
+};
+
+const checkFunctionalEvidence = (data) => !isBlank(data.functionalDeficits) && isBlank(data.functionalDataSource)
+    ? [issue(STEP_INDEX.functional, 'error', 'Functional deficits need a data source as evidence.', 'functionalDataSource')]
+    : [];
+
+const checkTransition = (data, today) => {
+    const missing = () => REQUIRED_FIELDS.transition
+        .filter(field => isBlank(data[field]))
+        .map(field => issue(STEP_INDEX.transition, 'error', `${PLAAFP_FIELD_LABELS[field]} is required for students ${TRANSITION_AGE} and older.`, field));
+
+    const age = calculateAge(data.dateOfBirth, today);
+    if (age !== null) return age >= TRANSITION_AGE ? missing() : [];
+
+    // Without a date of birth, fall back on grade: students are 14 by 9th grade and may turn 14 in 8th.
+    const grade = parseGrade(data.grade);
+    if (grade !== null && grade >= 9) return missing();
+    if (grade === null || grade === 8) {
+        return [issue(STEP_INDEX.intro, 'warning', `Add the date of birth to confirm whether transition content is required (age ${TRANSITION_AGE}+).`, 'dateOfBirth')];
+    }
+    return [];
+};
+
+const checkPerformanceSummary = (data) => {
+    if (data.performanceSummarySections.length === 0) {
+        return [issue(STEP_INDEX.summary, 'warning', 'No performance summary subjects have been added.', '')];
+    }
+    return data.performanceSummarySections.flatMap((section, summaryIndex) => {
+        const name = sectionName(section, `Summary subject ${summaryIndex + 1}`);
+        return ['subject', ...SUMMARY_REQUIRED_FIELDS]
+            .filter(field => isBlank(section[field]))
+            .map(field => issue(STEP_INDEX.summary, 'error', `${name}: ${SUMMARY_FIELD_LABELS[field]} is required.`, field, { summaryIndex }));
+    });
+};
+
+const checkGoals = (data) => {
+    if (data.goals.length === 0) {
+        return [issue(STEP_INDEX.goals, 'warning', 'No annual goals yet. Propose goals from the PLAAFP or add one.', '')];
+    }
+    return data.goals.flatMap((goal, goalIndex) => validateGoal(goal, data).map(problem =>
+        issue(STEP_INDEX.goals, problem.severity, `Goal ${goalIndex + 1}: ${problem.message}`, problem.field, { goalIndex })
+    ));
+};
+
+const COMPLIANCE_RULES = [
+    checkRequiredFields,
+    checkDisabilityImpact,
+    checkAcademicSections,
+    checkFunctionalEvidence,
+    checkTransition,
+    checkPerformanceSummary,
+    checkGoals,
+];
+
+/**
+ * Runs every compliance rule against a document.
+ * @param {PlaafpDocument} data
+ * @param {Date} [today] Defaults to the ARD date, since that's when transition becomes required
+ * @returns {ComplianceIssue[]} Ordered by step
+ */
+const runComplianceChecks = (data, today = parseIsoDate(data.ardDate) ?? new Date()) =>
+    COMPLIANCE_RULES.flatMap(rule => rule(data, today)).sort((a, b) => a.step - b.step);
+
+// --- PROGRESS ---
+// Academic sections can hold dated data points instead of (or as well as) free-text scores. Points
+// are grouped by measure; each measure gets a least-squares trend and, where percentiles were
+// recorded along with the peer benchmark, the gap to peers. The narrative reads these through
+// derived template fields.
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const parseNumber = (value) => {
+    const match = /-?\d+(?:\.\d+)?/.exec(String(value ?? '').replace(/,/g, ''));
+    return match ? Number(match[0]) : null;
+};
+
+const formatNumber = (n) => String(Math.round(n * 10) / 10);
+
+const formatShortDate = (iso, locale = 'en-US') => parseIsoDate(iso)?.toLocaleDateString(locale, { month: 'short', day: 'numeric', year: 'numeric' }) ?? iso;
+
+// Points that can be charted: dated and scored, oldest first.
+const usableDataPoints = (points) => (points || [])
+    .filter(point => parseIsoDate(point.date) && parseNumber(point.score) !== null)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+/** Least-squares line through the scores; null with fewer than two distinct dates. */
+const linearTrend = (points) => {
+    const xs = points.map(point => parseIsoDate(point.date).getTime() / DAY_MS);
+    const ys = points.map(point => parseNumber(point.score));
+    const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+    const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+    const sxx = xs.reduce((sum, x) => sum + (x - meanX) ** 2, 0);
+    if (points.length < 2 || sxx === 0) return null;
+    const slope = xs.reduce((sum, x, i) => sum + (x - meanX) * (ys[i] - meanY), 0) / sxx;
+    return { slopePerDay: slope, perWeek: slope * 7, at: (day) => meanY + slope * (day - meanX) };
+};
+
+/**
+ * Per-measure summary of a section's data points, most recently measured first.
+ * @returns {{ measure: string, points: DataPoint[], first: DataPoint, latest: DataPoint, change: number,
+ *   trend: Object | null, percentile: number | null, peerPercentile: number | null, gap: number | null }[]}
+ */
+const summarizeProgress = (section) => {
+    const byMeasure: Record<string, DataPoint[]> = {};
+    usableDataPoints(section.dataPoints).forEach(point => {
+        const measure = point.measure.trim() || 'Score';
+        (byMeasure[measure] = byMeasure[measure] || []).push(point);
+    });
+    const peerPercentile = parseNumber(section.peerBenchmarkPercentile);
+    return Object.entries(byMeasure).map(([measure, points]) => {
+        const first = points[0];
+        const latest = points[points.length - 1];
+        const percentile = parseNumber(latest.percentile);
+        return {
+            measure,
+            points,
+            first,
+            latest,
+            change: parseNumber(latest.score) - parseNumber(first.score),
+            trend: linearTrend(points),
+            percentile,
+            peerPercentile,
+            gap: percentile === null || peerPercentile === null ? null : peerPercentile - percentile,
+        };
+    }).sort((a, b) => b.latest.date.localeCompare(a.latest.date));
+};
+
+const describeMeasure = ({ measure, first, latest, change, trend }) => {
+    const text = `${latest.score} on ${measure} (${formatShortDate(latest.date)}${latest.source ? `, ${latest.source}` : ''})`;
+    if (first === latest) return text;
+    const direction = change > 0 ? `up ${formatNumber(change)} from` : change < 0 ? `down ${formatNumber(-change)} from` : 'unchanged from';
+    const rate = trend ? `, a trend of ${trend.perWeek >= 0 ? '+' : ''}${formatNumber(trend.perWeek)} per week` : '';
+    return `${text}, ${direction} ${first.score} on ${formatShortDate(first.date)}${rate}`;
+};
+
+const describePeerComparison = ({ measure, latest, percentile, peerPercentile, gap }, student) =>
+    `On the most recent ${measure} (${formatShortDate(latest.date)}), ${student} performed at the ${ordinal(Math.round(percentile))} percentile compared to peers at the ${ordinal(Math.round(peerPercentile))} percentile` +
+    (gap > 0 ? `, a gap of ${formatNumber(gap)} percentile points.` : '.');
+
+/**
+ * Derived template fields for one academic section: `progressSummary` and `peerComparisonSummary`,
+ * worded in the narrative's language (see NARRATIVE_LANGUAGES).
+ */
+const deriveProgressFields = (section, data, language) => {
+    const summaries = summarizeProgress(section);
+    // Without the peer benchmark the template falls back to its own wording, with a placeholder for it.
+    const withPercentile = summaries.find(summary => summary.gap !== null);
+    return {
+        progressSummary: language.joinList(summaries.map(language.describeMeasure)),
+        peerComparisonSummary: withPercentile ? language.describePeerComparison(withPercentile, data.studentName || language.blanks.studentName) : '',
+    };
+};
+
+const PROGRESS_TEMPLATE_LABELS = {
+    progressSummary: 'Progress From Data Points',
+    peerComparisonSummary: 'Peer Comparison From Data Points',
+};
+
+const formatDataPoints = (points) => usableDataPoints(points)
+    .map(point => [point.date, point.measure, point.score, point.percentile && `${point.percentile} %ile`, point.source].filter(Boolean).join(' · '))
+    .join('\n');
+
+// --- GOALS ---
+// Proposed goals are a starting point built from each academic section's deficits and baseline data
+// and from the functional deficits; the teacher edits them in the Goals step. A goal is measurable
+// when it names a condition, an observable behavior, a numeric criterion and a timeframe.
+const GOAL_WEEKS = 36;
+
+// Verbs that describe a state of mind rather than something a teacher can observe and count.
+const VAGUE_GOAL_VERBS = ['understand', 'know', 'learn', 'improve', 'appreciate', 'be aware', 'become aware', 'grasp', 'recognize the importance', 'believe', 'feel', 'try to', 'work on'];
+
+// A criterion is measurable when it has a percentage, a count out of a number of trials or a score to reach.
+const MEASURABLE_CRITERION_PATTERNS = [
+    /\d\s*(?:%|percent\b)/i,
+    /\d\s*(?:out of|of|\/)\s*\d/i,
+    /\b(?:scores?|scoring|at least|at or above|no (?:fewer|less) than|a minimum of|at|to)\s+(?:an?\s+)?(?:score\s+of\s+)?\d/i,
+    /\d\s*(?:points?|words|wcpm|correct)\b/i,
+];
+
+/** The highest score a measure allows: 100 for percentages, y for "x/y" or "x out of y" scores, otherwise none. */
+const scoreMaximum = (measure, score) => {
+    if (/%|percent/i.test(`${measure} ${score}`)) return 100;
+    const outOf = /\d\s*(?:\/|out of)\s*(\d+(?:\.\d+)?)/i.exec(score);
+    return outOf ? Number(outOf[1]) : null;
+};
+
+// The TEKS a goal for this section addresses: the codes in its STAAR deficits, or the text itself.
+const goalTeksFor = (section) => {
+    const codes = parseTeksCodes(section.staarDeficits);
+    if (codes.length > 0) return codes;
+    return section.staarDeficits.trim() ? [section.staarDeficits.trim()] : [];
+};
+
+const goalTimeframe = (data) => {
+    const ard = parseIsoDate(data.ardDate);
+    if (!ard) return 'By the next annual ARD meeting';
+    const next = new Date(ard.getFullYear() + 1, ard.getMonth(), ard.getDate());
+    return `By ${next.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}`;
+};
+
+const goalBaselineFor = (section) => {
+    const [summary] = summarizeProgress(section);
+    if (summary) return `${summary.latest.score} on ${summary.measure} (${formatShortDate(summary.latest.date)})`;
+    const field = BASELINE_FIELDS.find(name => !isBlank(section[name]));
+    return field ? section[field].trim() : '';
+};
+
+const proposeAcademicGoal = (section, data) => {
+    const [summary] = summarizeProgress(section);
+    const need = [section.criticalNeeds, section.classroomDeficits, section.staarDeficits].find(text => !isBlank(text))?.trim() || `${section.subject.trim() || 'grade-level'} skills`;
+    const condition = `given ${section.supportsPerformance.trim() || 'grade-level instruction and the accommodations in this IEP'}`;
+    const base = { ...initialGoal, area: 'academic', sectionId: section.id, timeframe: goalTimeframe(data), condition, baseline: goalBaselineFor(section), teks: goalTeksFor(section) };
+    if (summary) {
+        // Aim for the student's own rate of growth over a school year, or 10% when there's no upward trend yet.
+        const latest = parseNumber(summary.latest.score);
+        const growth = summary.trend && summary.trend.perWeek > 0 ? summary.trend.perWeek * GOAL_WEEKS : Math.max(Math.abs(latest) * 0.1, 1);
+        const maximum = scoreMaximum(summary.measure, summary.latest.score);
+        const target = formatNumber(maximum === null ? Math.ceil(latest + growth) : Math.min(Math.ceil(latest + growth), maximum));
+        return {
+            ...base,
+            behavior: `increase ${fillPronoun(data.pronouns, 'possessive')} score on ${summary.measure}`,
+            criterion: `from a baseline of ${summary.latest.score} to at least ${maximum === 100 ? `${target}%` : target}, as measured by ${summary.latest.source || summary.measure}`,
+        };
+    }
+    const sources = joinList(section.progressDataSources);
+    return {
+        ...base,
+        behavior: `complete tasks targeting ${need}`,
+        criterion: `with 80% accuracy in 4 out of 5 trials, as measured by ${sources || 'teacher-collected work samples'}`,
+    };
+};
+
+// The deficit describes what the student does now, so it becomes the baseline; the teacher writes the
+// observable behavior that replaces it.
+const proposeFunctionalGoal = (data) => ({
+    ...initialGoal,
+    area: 'functional',
+    timeframe: goalTimeframe(data),
+    condition: 'given visual supports and verbal prompting',
+    criterion: `in 4 out of 5 observed opportunities, as measured by ${data.functionalDataSource.trim() || 'teacher observation data'}`,
+    baseline: data.functionalDeficits.trim(),
+});
+
+/** Goals for each academic section and the functional area that don't have one yet. */
+const proposeGoals = (data) => [
+    ...data.academicSections
+        .filter(section => !data.goals.some(goal => goal.sectionId === section.id))
+        .map(section => ({ id: createId(), ...proposeAcademicGoal(section, data) })),
+    ...(!isBlank(data.functionalDeficits) && !data.goals.some(goal => goal.area === 'functional')
+        ? [{ id: createId(), ...proposeFunctionalGoal(data) }]
+        : []),
+];
+
+const goalSection = (goal, data) => goal.area === 'academic' ? data.academicSections.find(section => section.id === goal.sectionId) : undefined;
+
+const GOAL_AREA_NAMES = { academic: 'Academic', functional: 'Functional' };
+
+const goalAreaName = (goal, data, names = GOAL_AREA_NAMES) => goal.area === 'functional' ? names.functional : (goalSection(goal, data)?.subject.trim() || names.academic);
+
+/**
+ * Why a goal isn't measurable yet.
+ * @returns {{ field: string, severity: 'error' | 'warning', message: string }[]}
+ */
+const validateGoal = (goal, data) => {
+    const problems = [];
+    const problem = (field, severity, message) => problems.push({ field, severity, message });
+    const behavior = goal.behavior.trim().toLowerCase();
+    // Also catches the verbs inside a phrase, as in "demonstrate understanding of fractions".
+    const vague = VAGUE_GOAL_VERBS.find(verb => new RegExp(`\\b${verb}`).test(behavior));
+    if (isBlank(goal.timeframe)) problem('timeframe', 'error', 'add a timeframe, such as the date of the next annual ARD.');
+    if (isBlank(goal.condition)) problem('condition', 'error', 'add the condition, such as the materials or supports provided.');
+    if (!behavior) problem('behavior', 'error', 'add the behavior the student will perform.');
+    else if (vague) problem('behavior', 'error', `"${vague}" can't be observed or counted. Use a verb such as read, write, solve or identify.`);
+    if (isBlank(goal.criterion)) problem('criterion', 'error', 'add a criterion for mastery.');
+    else if (!MEASURABLE_CRITERION_PATTERNS.some(pattern => pattern.test(goal.criterion))) problem('criterion', 'error', 'the criterion needs a measurable target, such as a percentage, a count out of a number of trials or a score.');
+    if (goal.area === 'academic') {
+        if (!goalSection(goal, data)) problem('sectionId', 'error', 'choose the academic section this goal addresses.');
+        if (goal.teks.length === 0) problem('teks', 'warning', 'link the goal to the TEKS it addresses.');
+    }
+    if (isBlank(goal.baseline)) problem('baseline', 'warning', 'add the baseline the goal is measured from.');
+    return problems;
+};
+
+const goalDomId = (index, field) => `goal-${index}-${field}`;
+
+// --- ROSTER ---
+// Minimal RFC 4180 parser: quoted fields, escaped quotes ("") and CRLF/LF line endings.
+const parseCsv = (text) => {
+    const rows = [];
+    let row = [];
+    let value = '';
+    let inQuotes = false;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                value += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                value += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(value);
+            value = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(value);
+            rows.push(row);
+            row = [];
+            value = '';
+        } else {
+            value += char;
+        }
+    }
+    if (value || row.length > 0) {
+        row.push(value);
+        rows.push(row);
+    }
+    return rows.filter(cells => cells.some(cell => cell.trim()));
+};
+
+const parsePronouns = (value) => {
+    const key = (value || '').trim().toLowerCase().split(/[\s/,]+/)[0];
+    return PRONOUN_SETS[key] ? key : '';
+};
+
+// Turns caseload CSV text into roster students. The header row is matched against
+// ROSTER_CSV_COLUMNS; rows without a name are skipped.
+const parseRosterCsv = (text) => {
+    const [header = [], ...rows] = parseCsv(text);
+    const columns = header.map(cell => {
+        const normalized = cell.trim().toLowerCase();
+        return Object.keys(ROSTER_CSV_COLUMNS).find(key => ROSTER_CSV_COLUMNS[key].includes(normalized));
+    });
+    if (!columns.includes('name')) {
+        throw new Error('The CSV needs a "Name" or "Student Name" column.');
+    }
+
+    let skipped = 0;
+    const students = [];
+    rows.forEach(cells => {
+        const student = { ...initialRosterStudent };
+        columns.forEach((key, index) => {
+            if (key) student[key] = (cells[index] || '').trim();
+        });
+        student.pronouns = parsePronouns(student.pronouns);
+        if (student.name) {
+            students.push(student);
+        } else {
+            skipped++;
+        }
+    });
+    return { students, skipped };
+};
+
+// Adds imported students to the roster, updating an existing student when the student ID matches.
+const mergeRosterImport = (roster, students) => {
+    const next = { ...roster };
+    students.forEach(student => {
+        const existingId = student.studentId
+            ? Object.keys(next).find(id => next[id].studentId === student.studentId)
+            : undefined;
+        if (existingId) {
+            next[existingId] = { ...next[existingId], ...student, archived: next[existingId].archived };
+        } else {
+            const id = createId();
+            next[id] = { ...student, id };
+        }
+    });
+    return next;
+};
+
+const sortByName = (students) => [...students].sort((a, b) => a.name.localeCompare(b.name));
+
+// Groups saved documents by roster student. Documents without a roster link fall back to
+// grouping by their free-text studentName.
+const groupDocumentsByStudent = (savedPlaafps: Record<string, PlaafpDocument>, roster: Record<string, RosterStudent>) => {
+    const groups: Record<string, { key: string, label: string, linked: boolean, documents: [string, PlaafpDocument][] }> = {};
+    Object.entries(savedPlaafps).forEach(([id, doc]) => {
+        const student = doc.rosterStudentId ? roster[doc.rosterStudentId] : undefined;
+        const key = student ? `roster:${student.id}` : `name:${doc.studentName || ''}`;
+        const label = student ? student.name : (doc.studentName || 'Unnamed student');
+        groups[key] = groups[key] || { key, label, linked: !!student, documents: [] };
+        groups[key].documents.push([id, doc]);
+    });
+    // Newest school year first; untagged documents last.
+    Object.values(groups).forEach(group => group.documents.sort(([, a], [, b]) => (b.schoolYear || '').localeCompare(a.schoolYear || '')));
+    return Object.values(groups).sort((a, b) => a.label.localeCompare(b.label));
+};
+
+// --- VERSIONS ---
+// Every save is kept as a revision under `plaafp-revisions` ({ [documentId]: Revision[] }, oldest
+// first). Each school year gets its own document, so a student's PLAAFPs can be compared year to year.
+const REVISION_LIMIT = 50;
+
+interface Revision {
+    id: string;
+    /** ISO timestamp */
+    savedAt: string;
+    data: PlaafpDocument;
+}
+
+// School years start in August.
+const schoolYearFor = (date) => {
+    const start = date.getMonth() >= 7 ? date.getFullYear() : date.getFullYear() - 1;
+    return `${start}-${start + 1}`;
+};
+
+const nextSchoolYear = (schoolYear) => {
+    const match = /^(\d{4})-(\d{4})$/.exec(schoolYear || '');
+    return match ? `${Number(match[1]) + 1}-${Number(match[2]) + 1}` : schoolYearFor(new Date());
+};
+
+const ordinal = (n) => {
+    const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ({ 1: 'st', 2: 'nd', 3: 'rd' }[n % 10] || 'th');
+    return `${n}${suffix}`;
+};
+
+// "9" -> "10", "9th" -> "10th", "K" -> "1"; anything else is left for the teacher to update.
+const nextGrade = (grade) => {
+    const text = String(grade || '').trim();
+    if (/^(k|kg|kindergarten)$/i.test(text)) return '1';
+    const match = /^(\d{1,2})(st|nd|rd|th)?$/i.exec(text);
+    if (!match) return text;
+    const next = Number(match[1]) + 1;
+    return match[2] ? ordinal(next) : String(next);
+};
+
+const addRevision = (revisions, documentId, data, savedAt) => ({
+    ...revisions,
+    [documentId]: [...(revisions[documentId] || []), { id: createId(), savedAt, data }].slice(-REVISION_LIMIT),
+});
+
+// Fields holding this year's measurements, cleared when a PLAAFP is carried into the next year.
+// Descriptions of supports, strengths and needs stay as a starting point.
+const ACADEMIC_DATA_FIELDS = [
+    'staarProficient', 'staarDeficits', 'progressDataSources', 'currentData', 'performanceComparison', 'noProgressReason',
+    'readingFluency', 'readingComprehension', 'mathProblemSolving', 'withSupports', 'withoutSupports', 'deficitsEvidence',
+    'peerComparisonGradeLevel', 'peerComparisonStudent', 'benchmarkPercentile', 'peerBenchmarkPercentile', 'dataPoints',
+];
+const SUMMARY_DATA_FIELDS = ['passedStateAssessment', 'taksScore', 'rawScore', 'percentCorrect', 'gradeInSubject'];
+
+const clearFields = (section, fields, defaults) => ({ ...section, id: createId(), ...Object.fromEntries(fields.map(field => [field, defaults[field]])) });
+
+/**
+ * A new, unsaved document for the next school year, copied from `doc` with academic data cleared.
+ * Annual goals are written fresh each year.
+ */
+const carryForwardDocument = (doc) => {
+    const current = migrateDocument(doc);
+    return {
+        ...current,
+        schoolYear: nextSchoolYear(current.schoolYear),
+        ardDate: '',
+        grade: nextGrade(current.grade),
+        paragraphOverrides: {},
+        goals: [],
+        academicSections: current.academicSections.map(section => clearFields(section, ACADEMIC_DATA_FIELDS, initialAcademicSection)),
+        performanceSummarySections: current.performanceSummarySections.map(section => clearFields(section, SUMMARY_DATA_FIELDS, initialPerformanceSummarySection)),
+    };
+};
+
+const isSameStudent = (a, b) => a.rosterStudentId
+    ? a.rosterStudentId === b.rosterStudentId
+    : !b.rosterStudentId && !!a.studentName && a.studentName.trim().toLowerCase() === (b.studentName || '').trim().toLowerCase();
+
+/** The same student's document from the latest earlier school year, as [id, doc], or null. */
+const findPriorYearDocument = (savedPlaafps: Record<string, PlaafpDocument>, doc: PlaafpDocument, excludeId: string) => Object.entries(savedPlaafps)
+    .filter(([id, other]) => id !== excludeId && isSameStudent(doc, other) && other.schoolYear && other.schoolYear < (doc.schoolYear || '9999'))
+    .sort(([, a], [, b]) => b.schoolYear.localeCompare(a.schoolYear))[0] || null;
+
+const DOCUMENT_FIELD_GROUPS = [
+    { label: 'Introductory', fields: ['studentName', 'pronouns', 'grade', 'dateOfBirth', 'schoolYear', 'ardDate', 'disabilities', 'subjects', 'cognitiveDeficits', 'academicDeficits', 'disabilityImpact', 'deficitType', 'specialEdSupport', 'relatedServices', 'accommodations'] },
+    { label: 'Functional', fields: ['functionalDataSource', 'functionalStrengths', 'functionalDeficits', 'functionalImpact'] },
+    { label: 'Transition', fields: ['transitionStrengths', 'transitionSupportNeeds', 'transitionIndependentLiving', 'transitionSchedules', 'transitionResponsibility', 'transitionParticipation', 'transitionEmploymentGoal', 'parentName', 'parentEmploymentPlan', 'parentEmploymentGoal', 'parentLivingPlan'] },
+];
+
+const pairById = (left, right) => [
+    ...left.map(item => [item, right.find(other => other.id === item.id) || null]),
+    ...right.filter(item => !left.some(other => other.id === item.id)).map(item => [null, item]),
+];
+
+// Pairs sections by id (revisions of one document), then by subject (documents from different years).
+const pairSections = (left, right) => {
+    const unmatched = [...right];
+    const take = (predicate) => {
+        const index = unmatched.findIndex(predicate);
+        return index === -1 ? null : unmatched.splice(index, 1)[0];
+    };
+    const pairs = left.map(section => [section, take(other => other.id === section.id)]);
+    pairs.forEach(pair => {
+        const subject = pair[0].subject.trim().toLowerCase();
+        if (!pair[1] && subject) pair[1] = take(other => other.subject.trim().toLowerCase() === subject);
+    });
+    return [...pairs, ...unmatched.map(section => [null, section])];
+};
+
+/**
+ * Field-by-field comparison of two documents for the side-by-side diff.
+ * @returns {{ group: string, label: string, left: string, right: string, changed: boolean }[]}
+ */
+const diffDocuments = (left, right) => {
+    const row = (group, label, a, b) => {
+        const leftValue = label === 'Data Points' ? formatDataPoints(a || []) : formatFieldValue(a);
+        const rightValue = label === 'Data Points' ? formatDataPoints(b || []) : formatFieldValue(b);
+        return { group, label, left: leftValue, right: rightValue, changed: leftValue.trim() !== rightValue.trim() };
+    };
+    const sectionRows = (listKey, prefix, labels) => pairSections(left[listKey] || [], right[listKey] || []).flatMap(([a, b]) => {
+        const group = `${prefix}: ${(a || b).subject || 'Untitled'}`;
+        return Object.keys(labels).map(field => row(group, labels[field], a?.[field], b?.[field]));
+    });
+    return [
+        ...DOCUMENT_FIELD_GROUPS.flatMap(({ label, fields }) => fields.map(field => row(label, PLAAFP_FIELD_LABELS[field], left[field], right[field]))),
+        ...sectionRows('academicSections', 'Academics', { ...ACADEMIC_FIELD_LABELS, dataPoints: 'Data Points' }),
+        ...sectionRows('performanceSummarySections', 'Summary', SUMMARY_FIELD_LABELS),
+        ...pairById(left.goals || [], right.goals || []).flatMap(([a, b], i) =>
+            Object.keys(GOAL_FIELD_LABELS).map(field => row(`Goal ${i + 1}: ${goalAreaName(a || b, a ? left : right)}`, GOAL_FIELD_LABELS[field], a?.[field], b?.[field]))),
+    ];
+};
+
+// --- BUNDLES ---
+// Documents move between browsers as a JSON bundle: the documents, their revisions and the roster
+// students they link to. Importing validates every document, then resolves each id that already
+// exists here by merging, replacing or keeping both.
+const BUNDLE_FILE_TYPE = 'plaafp-bundle';
+const BUNDLE_VERSION = 1;
+
+interface DocumentBundle {
+    /** BUNDLE_FILE_TYPE */
+    type: string;
+    /** BUNDLE_VERSION */
+    version: number;
+    /** ISO timestamp */
+    exportedAt: string;
+    documents: Record<string, PlaafpDocument>;
+    revisions: Record<string, Revision[]>;
+    /** Roster entries the documents link to */
+    students: Record<string, RosterStudent>;
+}
+
+type CollisionResolution = 'merge' | 'replace' | 'keep-both' | 'skip';
+
+const createBundle = (ids, savedPlaafps, revisions, roster) => {
+    const documents = Object.fromEntries(ids.filter(id => savedPlaafps[id]).map(id => [id, savedPlaafps[id]]));
+    const students = Object.fromEntries(Object.values(documents)
+        .filter(doc => doc.rosterStudentId && roster[doc.rosterStudentId])
+        .map(doc => [doc.rosterStudentId, roster[doc.rosterStudentId]]));
+    return {
+        type: BUNDLE_FILE_TYPE,
+        version: BUNDLE_VERSION,
+        exportedAt: new Date().toISOString(),
+        documents,
+        revisions: Object.fromEntries(Object.keys(documents).filter(id => revisions[id]).map(id => [id, revisions[id]])),
+        students,
+    };
+};
+
+const exportBundle = (bundle: DocumentBundle) => {
+    const docs = Object.values(bundle.documents);
+    const fileName = docs.length === 1
+        ? `${(docs[0].studentName || 'plaafp').replace(/[^a-z0-9-_ ]/gi, '').replace(/\s+/g, '-')}-${docs[0].schoolYear || 'plaafp'}.json`
+        : `plaafp-documents-${new Date().toISOString().slice(0, 10)}.json`;
+    downloadBlob(new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' }), fileName);
+};
+
+// Bundle ids become object keys; these would reach Object.prototype instead of being stored.
+const isSafeId = (id) => !['__proto__', 'constructor', 'prototype'].includes(id);
+
+const isPlainObject = (value): value is Record<string, any> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Checks each field present in `value` has the same kind of value as in `shape`; missing fields are
+// filled in by migration.
+const fieldTypeErrors = (value, shape, prefix) => Object.keys(shape).flatMap(field => {
+    if (value[field] === undefined || shape[field] === undefined) return [];
+    const expected = Array.isArray(shape[field]) ? 'array' : typeof shape[field];
+    const actual = Array.isArray(value[field]) ? 'array' : typeof value[field];
+    if (expected === 'object' ? isPlainObject(value[field]) : actual === expected) return [];
+    return [`${prefix}${field} should be ${expected === 'array' ? 'a list' : `a ${expected}`}`];
+});
+
+/**
+ * Schema problems with one document from a bundle, as readable messages; empty when it can be imported.
+ * @returns {string[]}
+ */
+const validateDocument = (doc) => {
+    if (!isPlainObject(doc)) return ['not a document'];
+    if (Number.isInteger(doc.schemaVersion) && doc.schemaVersion > SCHEMA_VERSION) {
+        return [`saved by a newer version of this app (schema ${doc.schemaVersion})`];
+    }
+    const sectionErrors = (listKey, shape, name) => {
+        if (doc[listKey] === undefined) return [];
+        if (!Array.isArray(doc[listKey])) return [`${listKey} should be a list`];
+        return doc[listKey].flatMap((section, i) => isPlainObject(section)
+            ? [
+                ...fieldTypeErrors(section, shape, `${name} ${i + 1}: `),
+                ...(Array.isArray(section.dataPoints) && !section.dataPoints.every(point => isPlainObject(point) && fieldTypeErrors(point, initialDataPoint, '').length === 0)
+                    ? [`${name} ${i + 1}: dataPoints has an invalid entry`]
+                    : []),
+            ]
+            : [`${name} ${i + 1} is not a section`]);
+    };
+    const { academicSections, performanceSummarySections, goals, ...fields } = initialPlaafpData;
+    // progressDataSources was a comma-separated string before schema 1, so older documents may still hold one.
+    const academicShape = Number.isInteger(doc.schemaVersion) && doc.schemaVersion >= 1
+        ? initialAcademicSection
+        : { ...initialAcademicSection, progressDataSources: undefined };
+    return [
+        ...(typeof doc.studentName === 'string' && doc.studentName.trim() ? [] : ['missing the student name']),
+        ...fieldTypeErrors(doc, fields, ''),
+        ...sectionErrors('academicSections', academicShape, 'Academic section'),
+        ...sectionErrors('performanceSummarySections', initialPerformanceSummarySection, 'Summary section'),
+        ...sectionErrors('goals', initialGoal, 'Goal'),
+    ];
+};
+
+/**
+ * Reads a bundle file. Throws when the file isn't a bundle at all; documents that fail validation
+ * are returned in `rejected` so the rest can still be imported.
+ * @returns {{ bundle: DocumentBundle, rejected: { id: string, name: string, errors: string[] }[] }}
+ */
+const parseBundleFile = (text) => {
+    let file;
+    try {
+        file = JSON.parse(text);
+    } catch (error) {
+        throw new Error('This file is not valid JSON.');
+    }
+    if (file?.type !== BUNDLE_FILE_TYPE || !isPlainObject(file.documents)) {
+        throw new Error('This file is not a PLAAFP document export.');
+    }
+    if (!Number.isInteger(file.version) || file.version > BUNDLE_VERSION) {
+        throw new Error('This file was exported by a newer version of this app.');
+    }
+    const documents: Record<string, PlaafpDocument> = {};
+    const rejected = [];
+    // Parsed JSON: every field is checked before it is used.
+    Object.entries<any>(file.documents).forEach(([id, doc]) => {
+        const errors = isSafeId(id) ? validateDocument(doc) : [`the id "${id}" is not allowed`];
+        if (errors.length > 0) rejected.push({ id, name: doc?.studentName || `Document ${id}`, errors });
+        else documents[id] = migrateDocument(doc);
+    });
+    const revisions = Object.fromEntries(Object.keys(documents).map(id => [
+        id,
+        (Array.isArray(file.revisions?.[id]) ? file.revisions[id] : [])
+            .filter(revision => isPlainObject(revision) && typeof revision.savedAt === 'string' && validateDocument(revision.data).length === 0)
+            .map(revision => ({ id: typeof revision.id === 'string' ? revision.id : createId(), savedAt: revision.savedAt, data: migrateDocument(revision.data) })),
+    ]));
+    const students = Object.fromEntries(Object.entries<any>(isPlainObject(file.students) ? file.students : {})
+        .filter(([id, student]) => isSafeId(id) && isPlainObject(student) && typeof student.name === 'string')
+        .map(([id, student]) => [id, { ...initialRosterStudent, ...student, id }]));
+    return { bundle: { ...file, documents, revisions, students }, rejected };
+};
+
+// Imported values win unless they're blank, so neither side's work is lost.
+const mergeFields = (existing, incoming) => Object.fromEntries(
+    [...new Set([...Object.keys(existing), ...Object.keys(incoming)])]
+        .map(field => [field, isBlank(incoming[field]) ? existing[field] : incoming[field]])
+);
+
+const mergeSectionLists = (existing, incoming) => [
+    ...existing.map(section => {
+        const match = incoming.find(other => other.id === section.id);
+        return match ? mergeFields(section, match) : section;
+    }),
+    ...incoming.filter(section => !existing.some(other => other.id === section.id)),
+];
+
+/** Combines two copies of the same document field by field, matching sections by id. */
+const mergeDocuments = (existing, incoming) => ({
+    ...mergeFields(existing, incoming),
+    academicSections: mergeSectionLists(existing.academicSections, incoming.academicSections),
+    performanceSummarySections: mergeSectionLists(existing.performanceSummarySections, incoming.performanceSummarySections),
+    goals: mergeSectionLists(existing.goals, incoming.goals),
+    paragraphOverrides: { ...existing.paragraphOverrides, ...incoming.paragraphOverrides },
+});
+
+// Roster students in the bundle map to one already here with the same id or district student ID,
+// otherwise they're added. Returns the roster to save and the id each bundled student ended up with.
+const resolveBundleStudents = (students: Record<string, RosterStudent>, roster: Record<string, RosterStudent>) => {
+    const nextRoster = { ...roster };
+    const studentIds = {};
+    Object.entries(students).forEach(([id, student]) => {
+        const existingId = roster[id]
+            ? id
+            : student.studentId ? Object.keys(roster).find(rosterId => roster[rosterId].studentId === student.studentId) : undefined;
+        studentIds[id] = existingId || id;
+        if (!existingId) nextRoster[id] = student;
+    });
+    return { roster: nextRoster, studentIds };
+};
+
+/**
+ * What importing the bundle would do to each document, for the preview.
+ * @returns {{ id: string, incoming: PlaafpDocument, existing: PlaafpDocument | undefined }[]}
+ */
+const planBundleImport = (bundle: DocumentBundle, savedPlaafps: Record<string, PlaafpDocument>) =>
+    Object.entries(bundle.documents).map(([id, incoming]) => ({ id, incoming, existing: savedPlaafps[id] }));
+
+/** The document an import entry produces under `resolution`, or null when it's skipped. */
+const resolveImportedDocument = (entry, resolution) => {
+    if (resolution === 'skip') return null;
+    if (!entry.existing || resolution !== 'merge') return entry.incoming;
+    return mergeDocuments(entry.existing, entry.incoming);
+};
+
+const combineRevisions = (...lists) => {
+    const seen = new Set();
+    return lists.flat()
+        .filter(revision => !seen.has(revision.id) && seen.add(revision.id))
+        .sort((a, b) => a.savedAt.localeCompare(b.savedAt))
+        .slice(-REVISION_LIMIT);
+};
+
+/**
+ * Applies an import. `resolutions` maps document ids to how they're resolved; colliding ids default
+ * to keeping both and new ids to being added. Every imported document gets a revision stamped `importedAt`.
+ * @param {Object<string, CollisionResolution>} resolutions
+ * @returns {{ documents: Object, revisions: Object, roster: Object, importedIds: Object<string, string> }}
+ *   importedIds maps each bundle id to the id it was saved under
+ */
+const applyBundleImport = ({ bundle, savedPlaafps, revisions, roster, resolutions, importedAt }) => {
+    const { roster: nextRoster, studentIds } = resolveBundleStudents(bundle.students || {}, roster);
+    const documents = { ...savedPlaafps };
+    const nextRevisions = { ...revisions };
+    const importedIds = {};
+    planBundleImport(bundle, savedPlaafps).forEach(entry => {
+        const resolution = resolutions[entry.id] || (entry.existing ? 'keep-both' : 'replace');
+        const resolved = resolveImportedDocument(entry, resolution);
+        if (!resolved) return;
+        const doc = { ...resolved, rosterStudentId: studentIds[resolved.rosterStudentId] ?? resolved.rosterStudentId, schemaVersion: SCHEMA_VERSION };
+        const id = entry.existing && resolution === 'keep-both' ? createId() : entry.id;
+        const keptHistory = entry.existing && resolution !== 'keep-both' ? revisions[entry.id] || [] : [];
+        documents[id] = doc;
+        nextRevisions[id] = combineRevisions(keptHistory, bundle.revisions[entry.id] || [], [{ id: createId(), savedAt: importedAt, data: doc }]);
+        importedIds[entry.id] = id;
+    });
+    return { documents, revisions: nextRevisions, roster: nextRoster, importedIds };
+};
+
+// --- LANGUAGES ---
+// Templates hold a narrative's wording; this table holds what the template engine fills in itself
+// for each language: pronouns, lists, dates, the sentences built from data points and the wording
+// of fixed-choice answers. Free-text answers appear as the teacher typed them.
+
+const SPANISH_PRONOUN_SETS = {
+    he: { subject: 'él', object: 'lo', possessive: 'su', reflexive: 'se', plural: false },
+    she: { subject: 'ella', object: 'la', possessive: 'su', reflexive: 'se', plural: false },
+    // Spanish has no settled singular "they"; the inclusive "elle" takes singular agreement.
+    they: { subject: 'elle', object: 'le', possessive: 'su', reflexive: 'se', plural: false },
+};
+
+const SPANISH_UNSPECIFIED_PRONOUNS = { subject: 'él/ella', object: 'lo/la', possessive: 'su', reflexive: 'se', plural: false };
+
+const describeMeasureInSpanish = ({ measure, first, latest, change, trend }) => {
+    const text = `${latest.score} en ${measure} (${formatShortDate(latest.date, 'es-US')}${latest.source ? `, ${latest.source}` : ''})`;
+    if (first === latest) return text;
+    const direction = change > 0 ? `${formatNumber(change)} más que` : change < 0 ? `${formatNumber(-change)} menos que` : 'igual que';
+    const rate = trend ? `, una tendencia de ${trend.perWeek >= 0 ? '+' : ''}${formatNumber(trend.perWeek)} por semana` : '';
+    return `${text}, ${direction} el ${first.score} del ${formatShortDate(first.date, 'es-US')}${rate}`;
+};
+
+const describePeerComparisonInSpanish = ({ measure, latest, percentile, peerPercentile, gap }, student) =>
+    `En la medición más reciente de ${measure} (${formatShortDate(latest.date, 'es-US')}), ${student} se ubicó en el percentil ${Math.round(percentile)}, mientras que sus compañeros se ubican en el percentil ${Math.round(peerPercentile)}` +
+    (gap > 0 ? `, una diferencia de ${formatNumber(gap)} puntos percentiles.` : '.');
+
+const NARRATIVE_LANGUAGES = {
+    en: {
+        label: 'English',
+        pronouns: PRONOUN_SETS,
+        unspecifiedPronouns: UNSPECIFIED_PRONOUNS,
+        joinList: (items) => joinList(items),
+        possessive: fillPossessive,
+        blanks: { studentName: '______ (student name)', parentName: '______ (parent name)', deficitType: '☐ normative ☐ relative' },
+        goalAreas: GOAL_AREA_NAMES,
+        titles: { staff: 'PLAAFP', parent: 'Summary for Families' },
+        teksDescriptions: true,
+        describeMeasure,
+        describePeerComparison,
+        options: {
+            deficitType: { normative: 'Normative', relative: 'Relative' },
+            receivesSpecialEdSupport: {
+                receives: (data) => agree(data.pronouns, 'receives', 'receive'),
+                'does not receive': (data) => agree(data.pronouns, 'does not receive', 'do not receive'),
+            },
+        },
+    },
+    es: {
+        label: 'Español',
+        pronouns: SPANISH_PRONOUN_SETS,
+        unspecifiedPronouns: SPANISH_UNSPECIFIED_PRONOUNS,
+        joinList: (items) => joinList(items, 'y', false),
+        possessive: (studentName) => `de ${studentName?.trim() || '______'}`,
+        blanks: { studentName: '______ (nombre del estudiante)', parentName: '______ (nombre del padre o la madre)', deficitType: '☐ normativos ☐ relativos' },
+        goalAreas: { academic: 'Académica', functional: 'Funcional' },
+        titles: { staff: 'PLAAFP', parent: 'Resumen para la familia' },
+        // The TEKS catalog is English-only, so codes are shown as entered.
+        teksDescriptions: false,
+        describeMeasure: describeMeasureInSpanish,
+        describePeerComparison: describePeerComparisonInSpanish,
+        options: {
+            deficitType: { normative: 'normativos', relative: 'relativos' },
+            performanceComparison: {
+                'has made progress': 'ha progresado',
+                'has maintained performance': 'ha mantenido su rendimiento',
+                'has not made progress': 'no ha progresado',
+            },
+            passedStateAssessment: { passed: 'aprobó', 'did not pass': 'no aprobó' },
+            receivesSpecialEdSupport: { receives: 'recibe', 'does not receive': 'no recibe' },
+            progressDataSources: {
+                'District benchmark': 'la evaluación de referencia del distrito',
+                'Universal screener': 'la evaluación universal',
+                'Curriculum-based measurement (CBM)': 'la medición basada en el currículo (CBM)',
+                'Progress monitoring': 'el monitoreo del progreso',
+                'Work samples': 'muestras de trabajo',
+                'Grades': 'las calificaciones',
+                'Teacher observation': 'la observación del maestro',
+            },
+        },
+    },
+};
+
+// Who a rendering is written for. Parent summaries use plain language and their own templates.
+const NARRATIVE_AUDIENCES = { staff: 'Staff', parent: 'Parent summary' };
+
+/**
+ * One rendering of the narrative. The staff English version is the original PLAAFP; the others
+ * keep their Preview edits apart from it (see buildNarrativeModel).
+ */
+interface NarrativeVariant {
+    /** Defaults to 'en' */
+    language?: keyof typeof NARRATIVE_LANGUAGES;
+    /** Defaults to 'staff' */
+    audience?: keyof typeof NARRATIVE_AUDIENCES;
+}
+
+const DEFAULT_VARIANT_KEY = 'staff:en';
+
+const variantKey = ({ language = 'en', audience = 'staff' } = {}) => `${audience}:${language}`;
+
+const narrativeLanguage = (id) => NARRATIVE_LANGUAGES[id] || NARRATIVE_LANGUAGES.en;
+
+const narrativePronouns = (language, pronouns) => language.pronouns[pronouns] || language.unspecifiedPronouns;
+
+// The wording of a fixed-choice answer (see FIELD_OPTIONS). Entries can depend on the document, e.g. for verb agreement.
+const optionText = ({ language, data }, field, value) => {
+    const text = language.options[field]?.[value];
+    return typeof text === 'function' ? text(data) : text ?? value;
+};
+
+// --- TEMPLATES ---
+// Narrative wording lives in editable templates rather than code, so each district can use its own.
+//
+//   {{field}} / {{field|placeholder}}   a form field; inside #each, section fields come first.
+//                                       An empty placeholder ({{field|}}) prints nothing when blank.
+//   {{student}} {{student:possessive}}  the student's name as plain text
+//   {{pronoun:subject}} {{Pronoun:possessive}}   subject/object/possessive/reflexive, capitalized with "P"
+//   {{verb:has/have}}                   singular or plural form to agree with the pronouns
+//   {{@number}}                         1-based position inside #each
+//   {{#if field}} {{#if !field}} {{#if field == "value"}} {{#if field != "value"}} ... {{else}} ... {{/if}}
+//   {{#each academicSections}} ... {{/each}}   also performanceSummarySections
+//   {{! comment }}
+//
+// Lines starting with "## " are headings and blank lines separate paragraphs. A line holding only
+// block tags is dropped entirely, so blocks can sit on their own lines.
+//
+// Each template set is written in one language for one audience (see NARRATIVE_LANGUAGES); pronouns,
+// lists and fixed-choice answers are filled in to match.
+
+class TemplateSyntaxError extends Error {
+    line?: number;
+
+    constructor(message: string, line?: number) {
+        super(line ? `Line ${line}: ${message}` : message);
+        this.name = 'TemplateSyntaxError';
+        this.line = line;
+    }
+}
+
+const TEMPLATE_LISTS = {
+    academicSections: { sectionType: 'academic', labels: { ...ACADEMIC_FIELD_LABELS, dataPoints: 'Data Points', ...PROGRESS_TEMPLATE_LABELS }, derive: deriveProgressFields },
+    performanceSummarySections: { sectionType: 'summary', labels: SUMMARY_FIELD_LABELS },
+    goals: { sectionType: 'goal', labels: { ...GOAL_FIELD_LABELS, goalArea: 'Goal Area' }, derive: (goal, data, language) => ({ goalArea: goalAreaName(goal, data, language.goalAreas) }) },
+};
+
+const SECTION_LIST_KEYS = { academic: 'academicSections', summary: 'performanceSummarySections', goal: 'goals' };
+
+const PRONOUN_FORMS = ['subject', 'object', 'possessive', 'reflexive'];
+
+// Translated answers can't be typed over: the text shown isn't the value that would be saved.
+const optionFormat = (field) => ({
+    format: (value, ctx) => optionText(ctx, field, value),
+    placeholder: (ctx) => FIELD_OPTIONS[field].map(value => optionText(ctx, field, value)).join('/'),
+    editable: (value, ctx) => optionText(ctx, field, value) === value,
+});
+
+// Parents get the expectation's wording without its code.
+const formatStaarAreas = (value, { data, item, language, audience }) => describeStaarAreas(
+    value,
+    language.teksDescriptions ? teksCourseFor(item.subject, data.grade) : null,
+    { join: language.joinList, withCodes: audience !== 'parent' },
+);
+
+// Fields whose stored value is not what the narrative shows. Non-editable slots can't be typed
+// over in the Preview because the text shown isn't the value that would be saved. Each hook gets
+// the evaluation context: `{ data, item, language, audience }`.
+const SLOT_FORMATS = {
+    studentName: { blank: ({ language }) => language.blanks.studentName },
+    parentName: { blank: ({ language }) => language.blanks.parentName },
+    deficitType: {
+        format: (value, ctx) => optionText(ctx, 'deficitType', value),
+        blank: ({ language }) => language.blanks.deficitType,
+        editable: false,
+    },
+    performanceComparison: optionFormat('performanceComparison'),
+    passedStateAssessment: optionFormat('passedStateAssessment'),
+    progressDataSources: { format: (value, ctx) => ctx.language.joinList((value || []).map(source => optionText(ctx, 'progressDataSources', source))), editable: false },
+    dataPoints: { format: (value) => formatDataPoints(value), editable: false },
+    // Typed text stays editable; once the field holds TEKS codes the Preview shows their descriptions instead.
+    staarProficient: { format: formatStaarAreas, editable: (value) => parseTeksCodes(value).length === 0 },
+    staarDeficits: { format: formatStaarAreas, editable: (value) => parseTeksCodes(value).length === 0 },
+    progressSummary: { editable: false },
+    peerComparisonSummary: { editable: false },
+    goalArea: { editable: false },
+    teks: { format: (value, { language }) => language.joinList(value), editable: false },
+    receivesSpecialEdSupport: { ...optionFormat('receivesSpecialEdSupport'), editable: false },
+};
+
+const CONDITION_PATTERN = /^(!)?\s*([A-Za-z]\w*)(?:\s*(==|!=)\s*"([^"]*)")?$/;
+const EXPRESSION_PATTERN = /^(@number|[A-Za-z]\w*)(?::([^|]*))?(?:\|([\s\S]*))?$/;
+const BLOCK_TAG = /^(?:#if\b|#each\b|else$|\/if$|\/each$|!)/;
+const STANDALONE_LINE = /^[ \t]*(?:\{\{\s*(?:#if\b|#each\b|else\s*(?=\}\})|\/if\s*(?=\}\})|\/each\s*(?=\}\})|!)[^}]*\}\}[ \t]*)+$/;
+
+const lexTemplate = (source) => {
+    const tokens = [];
+    const lines = source.replace(/\r\n?/g, '\n').split('\n');
+    lines.forEach((lineText, i) => {
+        const line = i + 1;
+        const standalone = STANDALONE_LINE.test(lineText);
+        const pattern = /\{\{([\s\S]*?)\}\}/g;
+        let last = 0;
+        let match;
+        while ((match = pattern.exec(lineText))) {
+            if (!standalone && match.index > last) tokens.push({ type: 'text', text: lineText.slice(last, match.index) });
+            tokens.push({ type: 'tag', tag: match[1].trim(), line });
+            last = pattern.lastIndex;
+        }
+        const rest = lineText.slice(last);
+        if (rest.includes('{{') || rest.includes('}}')) throw new TemplateSyntaxError('Unclosed or unmatched {{ }}.', line);
+        if (!standalone) tokens.push({ type: 'text', text: rest + (i < lines.length - 1 ? '\n' : '') });
+    });
+    return tokens;
+};
+
+const parseCondition = (text, line, scope) => {
+    const match = CONDITION_PATTERN.exec(text);
+    if (!match) throw new TemplateSyntaxError(`Can't read the condition "${text}".`, line);
+    const [, negate, field, operator, value] = match;
+    checkField(field, line, scope);
+    return { field, negate: !!negate, operator, value };
+};
+
+function checkField(field, line, scope) {
+    const known = field in PLAAFP_FIELD_LABELS || field in TEMPLATE_LISTS || (scope && field in scope.labels);
+    if (!known) throw new TemplateSyntaxError(`Unknown field "${field}".`, line);
+}
+
+const parseExpression = (text, line, scope) => {
+    const match = EXPRESSION_PATTERN.exec(text);
+    if (!match) throw new TemplateSyntaxError(`Can't read "{{${text}}}".`, line);
+    const [, name, arg, placeholder] = match;
+    if (name === '@number') {
+        if (!scope) throw new TemplateSyntaxError('{{@number}} can only be used inside {{#each}}.', line);
+        return { type: 'number' };
+    }
+    if (name === 'student') {
+        if (arg !== undefined && arg.trim() !== 'possessive') throw new TemplateSyntaxError(`Use {{student}} or {{student:possessive}}.`, line);
+        return { type: 'student', possessive: arg !== undefined };
+    }
+    if (name === 'pronoun' || name === 'Pronoun') {
+        if (!PRONOUN_FORMS.includes(arg?.trim())) throw new TemplateSyntaxError(`Use {{${name}:${PRONOUN_FORMS.join('}}, {{' + name + ':')}}}.`, line);
+        return { type: 'pronoun', form: arg.trim(), capitalize: name === 'Pronoun' };
+    }
+    if (name === 'verb') {
+        const forms = (arg || '').split('/').map(form => form.trim());
+        if (forms.length !== 2 || !forms[0] || !forms[1]) throw new TemplateSyntaxError('Use {{verb:singular/plural}}, e.g. {{verb:has/have}}.', line);
+        return { type: 'verb', singular: forms[0], plural: forms[1] };
+    }
+    if (arg !== undefined) throw new TemplateSyntaxError(`"${name}" does not take an option after ":".`, line);
+    checkField(name, line, scope);
+    if (name in TEMPLATE_LISTS) throw new TemplateSyntaxError(`"${name}" is a list; use {{#each ${name}}}.`, line);
+    return { type: 'field', field: name, placeholder };
+};
+
+/** A node of the parsed template; `if` and `each` blocks hold the nodes inside them in `children`. */
+interface TemplateNode {
+    type: string;
+    children?: TemplateNode[];
+    /** The {{else}} branch of an `if` block */
+    otherwise?: TemplateNode[] | null;
+    inElse?: boolean;
+    scope?: (typeof TEMPLATE_LISTS)[keyof typeof TEMPLATE_LISTS];
+    line?: number;
+    [detail: string]: unknown;
+}
+
+/**
+ * Parses template source into a tree, throwing TemplateSyntaxError with the offending line.
+ * @param {string} source
+ */
+const parseTemplate = (source) => {
+    const root: TemplateNode = { type: 'root', children: [] };
+    const stack = [root];
+    const current = () => stack[stack.length - 1];
+    const scopeOf = () => stack.find(node => node.type === 'each')?.scope;
+    let lastLine = 1;
+
+    lexTemplate(source).forEach(token => {
+        if (token.type === 'text') {
+            if (token.text) current().children.push(token);
+            return;
+        }
+        const { tag, line } = token;
+        lastLine = line;
+        if (tag.startsWith('!')) return;
+        if (tag.startsWith('#if')) {
+            const node: TemplateNode = { type: 'if', condition: parseCondition(tag.slice(3).trim(), line, scopeOf()), children: [], otherwise: null, line };
+            current().children.push(node);
+            stack.push(node);
+        } else if (tag === 'else') {
+            const node = current();
+            if (node.type !== 'if' || node.otherwise) throw new TemplateSyntaxError('{{else}} without a matching {{#if}}.', line);
+            node.otherwise = node.children;
+            node.children = [];
+            // Swap back on close so `children` is the "then" branch.
+            node.inElse = true;
+        } else if (tag === '/if') {
+            const node = current();
+            if (node.type !== 'if') throw new TemplateSyntaxError('{{/if}} without a matching {{#if}}.', line);
+            if (node.inElse) [node.children, node.otherwise] = [node.otherwise, node.children];
+            delete node.inElse;
+            stack.pop();
+        } else if (tag.startsWith('#each')) {
+            const list = tag.slice(5).trim();
+            if (!TEMPLATE_LISTS[list]) throw new TemplateSyntaxError(`Can only loop over ${Object.keys(TEMPLATE_LISTS).join(' or ')}.`, line);
+            if (scopeOf()) throw new TemplateSyntaxError('{{#each}} blocks cannot be nested.', line);
+            const node: TemplateNode = { type: 'each', list, scope: TEMPLATE_LISTS[list], children: [], line };
+            current().children.push(node);
+            stack.push(node);
+        } else if (tag === '/each') {
+            if (current().type !== 'each') throw new TemplateSyntaxError('{{/each}} without a matching {{#each}}.', line);
+            stack.pop();
+        } else if (BLOCK_TAG.test(tag)) {
+            throw new TemplateSyntaxError(`Unknown block "{{${tag}}}".`, line);
+        } else {
+            current().children.push(parseExpression(tag, line, scopeOf()));
+        }
+    });
+
+    if (stack.length > 1) {
+        const open = current();
+        throw new TemplateSyntaxError(`{{#${open.type}}} from line ${open.line} is never closed.`, lastLine);
+    }
+    return root;
+};
+
+// Parsed saved templates, least recently used first. Drafts in the template editor are checked with
+// parseTemplate directly so they don't fill the cache one keystroke at a time.
+const TEMPLATE_CACHE_LIMIT = 20;
+const compiledTemplates = new Map();
+
+const compileTemplate = (source) => {
+    const root = compiledTemplates.get(source) || parseTemplate(source);
+    compiledTemplates.delete(source);
+    compiledTemplates.set(source, root);
+    if (compiledTemplates.size > TEMPLATE_CACHE_LIMIT) compiledTemplates.delete(compiledTemplates.keys().next().value);
+    return root;
+};
+
+// Looks a field up in the current loop item first, then in the document.
+const resolveField = (field, ctx) => {
+    if (ctx.item && field in ctx.scope.labels) {
+        return { value: ctx.item[field], sectionType: ctx.scope.sectionType, index: ctx.index, sectionId: ctx.item.id, label: ctx.scope.labels[field] };
+    }
+    return { value: ctx.data[field], label: PLAAFP_FIELD_LABELS[field] };
+};
+
+const testCondition = ({ field, negate, operator, value }, ctx) => {
+    const actual = resolveField(field, ctx).value;
+    let result;
+    if (operator === '==') result = String(actual ?? '').trim() === value;
+    else if (operator === '!=') result = String(actual ?? '').trim() !== value;
+    else result = !isBlank(actual);
+    return negate ? !result : result;
+};
+
+const evaluateNodes = (nodes, ctx) => nodes.flatMap(node => {
+    const { data } = ctx;
+    switch (node.type) {
+        case 'text': return [node];
+        case 'number': return [{ type: 'text', text: String(ctx.index + 1) }];
+        case 'student': {
+            const text = node.possessive ? ctx.language.possessive(data.studentName) : (data.studentName || ctx.language.blanks.studentName);
+            return [{ type: 'text', text }];
+        }
+        case 'pronoun': {
+            const word = narrativePronouns(ctx.language, data.pronouns)[node.form];
+            return [{ type: 'text', text: node.capitalize ? word.charAt(0).toUpperCase() + word.slice(1) : word }];
+        }
+        case 'verb': return [{ type: 'text', text: narrativePronouns(ctx.language, data.pronouns).plural ? node.plural : node.singular }];
+        case 'if': return evaluateNodes(testCondition(node.condition, ctx) ? node.children : (node.otherwise || []), ctx)
+            .map(token => token.type === 'slot' ? { ...token, conditional: true } : token);
+        case 'each': return (data[node.list] || []).flatMap((item, index) => {
+            const derived = node.scope.derive ? { ...item, ...node.scope.derive(item, data, ctx.language) } : item;
+            return evaluateNodes(node.children, { ...ctx, item: derived, index, scope: node.scope });
+        });
+        case 'field': {
+            const { value, sectionType, index, sectionId, label } = resolveField(node.field, ctx);
+            const format = SLOT_FORMATS[node.field] || {};
+            const shown = format.format ? format.format(value, ctx) : value;
+            const placeholder = node.placeholder ?? format.placeholder?.(ctx) ?? label.toLowerCase();
+            return [{
+                type: 'slot',
+                field: node.field,
+                value: typeof shown === 'string' ? shown : String(shown ?? ''),
+                placeholder,
+                blank: node.placeholder === '' ? '' : format.blank?.(ctx),
+                sectionType,
+                index,
+                sectionId,
+                editable: typeof format.editable === 'function' ? format.editable(value, ctx) : format.editable ?? true,
+            }];
+        }
+        default: return [];
+    }
+});
+
+const trimTokens = (tokens) => {
+    const result = tokens.map(token => ({ ...token }));
+    if (result[0]?.type === 'text') result[0].text = result[0].text.replace(/^\s+/, '');
+    const last = result[result.length - 1];
+    if (last?.type === 'text') last.text = last.text.replace(/\s+$/, '');
+    return result.filter(token => token.type !== 'text' || token.text);
+};
+
+// Groups evaluated tokens into [{ heading, paragraphs }]; headings and paragraphs are token lists.
+const layoutTokens = (tokens) => {
+    const lines = [[]];
+    tokens.forEach(token => {
+        if (token.type !== 'text') {
+            lines[lines.length - 1].push(token);
+            return;
+        }
+        token.text.split('\n').forEach((part, i) => {
+            if (i > 0) lines.push([]);
+            if (part) lines[lines.length - 1].push({ type: 'text', text: part });
+        });
+    });
+
+    const sections = [];
+    let section = null;
+    let paragraph = [];
+    const flush = () => {
+        const trimmed = trimTokens(paragraph);
+        paragraph = [];
+        if (trimmed.length === 0) return;
+        if (!section) sections.push(section = { heading: [], paragraphs: [] });
+        section.paragraphs.push(trimmed);
+    };
+
+    lines.forEach(line => {
+        const first = line[0];
+        if (first?.type === 'text' && /^\s*##\s/.test(first.text)) {
+            flush();
+            section = { heading: trimTokens([{ type: 'text', text: first.text.replace(/^\s*##\s/, '') }, ...line.slice(1)]), paragraphs: [] };
+            sections.push(section);
+        } else if (line.every(token => token.type === 'text' && !token.text.trim())) {
+            flush();
+        } else {
+            if (paragraph.length > 0) paragraph.push({ type: 'text', text: ' ' });
+            paragraph.push(...line);
+        }
+    });
+    flush();
+    return sections;
+};
+
+const DEFAULT_TEMPLATE_BODY = `## Introductory Paragraph
+{{studentName}} is a {{grade|grade}} grade student diagnosed with a {{disabilities|disability(ies)}} disability(ies). {{student}} is currently receiving enrolled grade-level instruction in {{subjects|subjects/courses}} in the general education classroom. {{student:possessive}} full individual evaluation indicates that {{pronoun:subject}} {{verb:has/have}} cognitive deficits in {{cognitiveDeficits|cognitive areas}} and academic deficits in {{academicDeficits|academic areas}}.
+
+The student’s disability affects {{pronoun:possessive}} ability to {{disabilityImpact|describe impact on access/progress}}. These deficits are noted as {{deficitType}} according to cognitive and achievement assessments.
+
+Currently, {{student}} receives {{specialEdSupport|special education/resource support}} and {{relatedServices|related services}} with accommodations including {{accommodations|list of accommodations}}.
+
+{{#each academicSections}}
+## Academics: {{#if subject}}{{subject}}{{else}}(Subject {{@number}}){{/if}}
+On the spring STAAR {{subject|subject/course}} assessment, {{student}} was relatively proficient in {{staarProficient|TEKS Student Expectations}}. {{student}} demonstrated deficits in {{staarDeficits|Student Essential Outcome or TEKS}}.
+
+Since the last ARD, according to {{progressDataSources|data sources}}, {{student}} {{performanceComparison|has made progress/has not made progress}}. {{#if progressSummary}}Current data shows {{progressSummary}}.{{else}}Current data shows {{currentData|current data}}.{{/if}}
+{{! The reason is only stated when progress was limited. }}
+{{#if performanceComparison}}{{#if performanceComparison != "has made progress"}}
+Progress has been limited due to {{noProgressReason|reason for lack of progress}}.
+{{/if}}{{/if}}
+
+Baseline data shows that {{student}} performs at {{readingFluency|score/percentile}} in reading fluency, {{readingComprehension|score/percentile}} in reading comprehension, and {{mathProblemSolving|score/percentile}} in math problem-solving.
+
+Grade-level peers are expected to {{peerComparisonGradeLevel|grade-level expectation}}, whereas {{student}} {{peerComparisonStudent|current student performance}}. {{#if peerComparisonSummary}}{{peerComparisonSummary}}{{else}}On the most recent benchmark, {{student}} scored at the {{benchmarkPercentile|student percentile}} percentile compared to peers at the {{peerBenchmarkPercentile|peer percentile}} percentile.{{/if}}
+
+When provided with {{supportsPerformance|supports/accommodations}}, {{student}} {{withSupports|performance with supports}}. Without these supports, {{student}} {{withoutSupports|performance without supports}}.
+
+In the classroom setting, {{student}} is able to {{classroomStrengths|strengths}}. However, {{pronoun:subject}} {{verb:demonstrates/demonstrate}} deficits in the classroom in {{classroomDeficits|needs—aligned with STAAR weak areas}}, as evidenced by {{deficitsEvidence|work samples, CBM, rubrics}}. Despite these deficits, {{student}} demonstrates strengths in {{strengthsDespiteDeficits|strengths despite deficits}}.
+
+Critical areas of need remain {{criticalNeeds|area}}, which affect independent access to the grade-level curriculum by {{independentAccessImpact|describe impact on independent access}}.
+
+{{/each}}
+## Functional
+According to {{functionalDataSource|teacher information, observation, etc.}}, {{student}} has strengths in {{functionalStrengths|functional strengths}}. However, according to the same sources, {{student}} has deficits in {{functionalDeficits|functional deficits and data}}. At this time, these functional deficits are negatively impacting {{student:possessive}} rate of progress by {{functionalImpact|describe impact}}.
+
+## Transition (Secondary)
+According to teacher survey and classroom observation, {{student}} was relatively proficient in {{transitionStrengths|strengths - Life Skills, Community experiences, etc.}}. In order to progress in independent living, employment, post-secondary educational training, and community experiences {{student}} will need support in {{transitionSupportNeeds|support areas}}.
+
+{{student}} demonstrates responsibility by {{transitionResponsibility|responsibilities - chores, materials, self-advocacy}} and participates in {{transitionParticipation|school, community, and transition-planning activities}}.
+
+{{student}} would like to work in the {{transitionEmploymentGoal|area of employment}} after high school.
+
+{{parentName}} plans for {{pronoun:object}} to work {{parentEmploymentPlan|full or part}} time when {{pronoun:subject}} {{verb:graduates/graduate}}. {{parentName}} would like to see {{student}} work in {{parentEmploymentGoal|employment area}} industry after {{pronoun:possessive}} educational career. {{parentName}} is planning for {{student}} to live {{parentLivingPlan|with a friend / independently / at home}} after {{pronoun:possessive}} educational career.
+
+{{#if performanceSummarySections}}
+## Summary of Performance
+{{#each performanceSummarySections}}
+{{student}} {{passedStateAssessment|passed/did not pass}} the {{subject|subject}} state assessment with a performance of {{taksScore|TAKS score}}, obtaining a raw score of {{rawScore|raw score}} which was {{percentCorrect|% correct}} correct. {{student}} is currently making or made a {{gradeInSubject|grade in subject}}. {{student}} requires accommodations/modifications/assistive technology of {{accommodations|accommodations/assist tech}} due to {{pronoun:possessive}} disability and {{needs|needs}}. {{Pronoun:subject}} {{receivesSpecialEdSupport}} special education support in {{subject|}}. In {{subject|subject}} {{student}} exhibits skills of {{strengths|PLAAFP strengths for subject}}.
+
+{{/each}}
+{{/if}}
+{{#if goals}}
+## Annual Goals
+{{#each goals}}
+Goal {{@number}} ({{goalArea}}): {{timeframe|timeframe}}, {{condition|condition}}, {{student}} will {{behavior|behavior}} {{criterion|criterion}}.{{#if baseline}} Baseline: {{baseline}}.{{/if}}{{#if teks}} TEKS: {{teks}}.{{/if}}
+
+{{/each}}
+{{/if}}
+`;
+
+const SPANISH_TEMPLATE_BODY = `## Párrafo introductorio
+{{studentName}} cursa el grado {{grade|grado}} y tiene un diagnóstico de {{disabilities|discapacidad(es)}}. Actualmente, {{student}} recibe instrucción del nivel de su grado en {{subjects|materias/cursos}} en el salón de educación general. La evaluación individual completa {{student:possessive}} indica déficits cognitivos en {{cognitiveDeficits|áreas cognitivas}} y déficits académicos en {{academicDeficits|áreas académicas}}.
+
+La discapacidad {{student:possessive}} afecta su capacidad para {{disabilityImpact|describa el impacto en el acceso/progreso}}. Según las evaluaciones cognitivas y de rendimiento, estos déficits se consideran {{deficitType}}.
+
+Actualmente, {{student}} recibe {{specialEdSupport|apoyo de educación especial/recursos}} y {{relatedServices|servicios relacionados}}, con adaptaciones que incluyen {{accommodations|lista de adaptaciones}}.
+
+{{#each academicSections}}
+## Académicos: {{#if subject}}{{subject}}{{else}}(Materia {{@number}}){{/if}}
+En la evaluación STAAR de {{subject|materia/curso}} de la primavera, {{student}} mostró un dominio relativo en {{staarProficient|expectativas estudiantiles de los TEKS}}. {{student}} demostró déficits en {{staarDeficits|resultado esencial o TEKS}}.
+
+Desde la última reunión ARD, según {{progressDataSources|fuentes de datos}}, {{student}} {{performanceComparison|ha progresado/no ha progresado}}. {{#if progressSummary}}Los datos actuales muestran {{progressSummary}}.{{else}}Los datos actuales muestran {{currentData|datos actuales}}.{{/if}}
+{{! La razón solo se indica cuando el progreso fue limitado. }}
+{{#if performanceComparison}}{{#if performanceComparison != "has made progress"}}
+El progreso ha sido limitado debido a {{noProgressReason|razón de la falta de progreso}}.
+{{/if}}{{/if}}
+
+Los datos de referencia muestran que {{student}} se desempeña en {{readingFluency|puntaje/percentil}} en fluidez lectora, {{readingComprehension|puntaje/percentil}} en comprensión lectora y {{mathProblemSolving|puntaje/percentil}} en resolución de problemas matemáticos.
+
+Se espera que los compañeros del mismo grado {{peerComparisonGradeLevel|expectativa del nivel de grado}}, mientras que {{student}} {{peerComparisonStudent|rendimiento actual}}. {{#if peerComparisonSummary}}{{peerComparisonSummary}}{{else}}En la evaluación de referencia más reciente, {{student}} se ubicó en el percentil {{benchmarkPercentile|percentil del estudiante}}, mientras que sus compañeros se ubican en el percentil {{peerBenchmarkPercentile|percentil de los compañeros}}.{{/if}}
+
+Cuando se le proporcionan {{supportsPerformance|apoyos/adaptaciones}}, {{student}} {{withSupports|rendimiento con apoyos}}. Sin estos apoyos, {{student}} {{withoutSupports|rendimiento sin apoyos}}.
+
+En el salón de clases, {{student}} puede {{classroomStrengths|fortalezas}}. Sin embargo, demuestra déficits en el salón en {{classroomDeficits|necesidades alineadas con las áreas débiles de STAAR}}, como lo evidencian {{deficitsEvidence|muestras de trabajo, CBM, rúbricas}}. A pesar de estos déficits, {{student}} demuestra fortalezas en {{strengthsDespiteDeficits|fortalezas a pesar de los déficits}}.
+
+Las áreas críticas de necesidad siguen siendo {{criticalNeeds|área}}, lo cual afecta el acceso independiente al currículo del nivel de grado al {{independentAccessImpact|describa el impacto en el acceso independiente}}.
+
+{{/each}}
+## Funcional
+Según {{functionalDataSource|información del maestro, observación, etc.}}, {{student}} tiene fortalezas en {{functionalStrengths|fortalezas funcionales}}. Sin embargo, según las mismas fuentes, {{student}} tiene déficits en {{functionalDeficits|déficits funcionales y datos}}. En este momento, estos déficits funcionales afectan negativamente el ritmo de progreso {{student:possessive}} al {{functionalImpact|describa el impacto}}.
+
+## Transición (secundaria)
+Según la encuesta del maestro y la observación en el salón, {{student}} mostró un dominio relativo en {{transitionStrengths|fortalezas: habilidades para la vida, experiencias en la comunidad, etc.}}. Para progresar en la vida independiente, el empleo, la capacitación postsecundaria y las experiencias en la comunidad, {{student}} necesitará apoyo en {{transitionSupportNeeds|áreas de apoyo}}.
+
+{{student}} demuestra responsabilidad al {{transitionResponsibility|responsabilidades: tareas, materiales, autodefensa}} y participa en {{transitionParticipation|actividades escolares, comunitarias y de planificación de la transición}}.
+
+A {{student}} le gustaría trabajar en el área de {{transitionEmploymentGoal|área de empleo}} después de la preparatoria.
+
+{{parentName}} planea que {{student}} trabaje tiempo {{parentEmploymentPlan|completo o parcial}} cuando se gradúe. A {{parentName}} le gustaría que {{student}} trabajara en la industria de {{parentEmploymentGoal|área de empleo}} al terminar sus estudios. {{parentName}} planea que {{student}} viva {{parentLivingPlan|con un amigo / de manera independiente / en casa}} al terminar sus estudios.
+
+{{#if performanceSummarySections}}
+## Resumen del rendimiento
+{{#each performanceSummarySections}}
+{{student}} {{passedStateAssessment|aprobó/no aprobó}} la evaluación estatal de {{subject|materia}} con un desempeño de {{taksScore|puntaje TAKS}} y un puntaje bruto de {{rawScore|puntaje bruto}}, es decir, {{percentCorrect|% correcto}} de respuestas correctas. {{student}} tiene o tuvo una calificación de {{gradeInSubject|calificación en la materia}}. Debido a su discapacidad y a {{needs|necesidades}}, {{student}} requiere las adaptaciones/modificaciones/tecnología de asistencia siguientes: {{accommodations|adaptaciones/tecnología de asistencia}}. {{student}} {{receivesSpecialEdSupport}} apoyo de educación especial en {{subject|}}. En {{subject|materia}}, {{student}} demuestra habilidades de {{strengths|fortalezas del PLAAFP para la materia}}.
+
+{{/each}}
+{{/if}}
+{{#if goals}}
+## Metas anuales
+{{#each goals}}
+Meta {{@number}} ({{goalArea}}): {{timeframe|plazo}}, {{condition|condición}}, {{student}} podrá {{behavior|conducta}} {{criterion|criterio}}.{{#if baseline}} Punto de partida: {{baseline}}.{{/if}}{{#if teks}} TEKS: {{teks}}.{{/if}}
+
+{{/each}}
+{{/if}}
+`;
+
+// Parent summaries leave out school acronyms (PLAAFP, TEKS, ARD) and the evaluation detail. The
+// Spanish one also skips the state test areas, which only have English descriptions.
+const PARENT_SUMMARY_TEMPLATE_BODY = `## About {{student}}
+{{student}} is in {{grade|grade}} grade and gets special education services for {{disabilities|disability}}. This summary explains how {{student}} is doing in school right now and what {{pronoun:possessive}} teachers will work on this year.
+
+{{#if disabilityImpact}}{{student:possessive}} disability can make it harder for {{pronoun:object}} to {{disabilityImpact}}.{{/if}}
+
+At school, {{student}} gets {{specialEdSupport|extra teaching support}}{{#if relatedServices}} and {{relatedServices}}{{/if}}. Things that help {{pronoun:object}} learn include {{accommodations|classroom supports}}.
+
+{{#each academicSections}}
+## {{#if subject}}{{subject}}{{else}}School Subject {{@number}}{{/if}}
+{{#if staarProficient}}On the state test last spring, {{student}} did well with {{staarProficient}}.{{/if}}{{#if staarDeficits}} {{Pronoun:subject}} still {{verb:needs/need}} practice with {{staarDeficits}}.{{/if}}
+
+{{#if performanceComparison}}This year, {{student}} {{performanceComparison}}.{{/if}} {{#if progressSummary}}Recent scores: {{progressSummary}}.{{else}}{{#if currentData}}Recent results show {{currentData}}.{{/if}}{{/if}}
+
+{{#if peerComparisonSummary}}{{peerComparisonSummary}}{{/if}}
+
+In class, {{student}} is able to {{classroomStrengths|strengths}}. {{Pronoun:subject}} {{verb:is/are}} still working on {{classroomDeficits|skills to work on}}.{{#if supportsPerformance}} With help such as {{supportsPerformance}}, {{student}} {{withSupports|does better}}.{{/if}}
+
+{{/each}}
+## Everyday Skills at School
+{{student}} is good at {{functionalStrengths|everyday strengths}}. {{Pronoun:subject}} {{verb:needs/need}} help with {{functionalDeficits|everyday skills to work on}}.
+
+{{#if goals}}
+## Goals for This Year
+{{#each goals}}
+{{goalArea}}: {{timeframe|by next year}}, {{condition|with support}}, {{student}} will {{behavior|skill}} {{criterion|how well}}.
+
+{{/each}}
+{{/if}}
+## Looking Ahead
+{{#if transitionEmploymentGoal}}{{student}} would like to work in {{transitionEmploymentGoal}} after high school.{{#if transitionSupportNeeds}} To get ready, {{pronoun:subject}} will need help with {{transitionSupportNeeds}}.{{/if}}{{/if}}
+
+{{#if parentEmploymentPlan}}{{parentName}} plans for {{student}} to work {{parentEmploymentPlan}} time{{#if parentEmploymentGoal}} in {{parentEmploymentGoal}}{{/if}} after finishing school.{{/if}}{{#if parentLivingPlan}} {{parentName}} plans for {{student}} to live {{parentLivingPlan}}.{{/if}}
+
+If you have questions about this summary, please contact {{student:possessive}} teacher. You can ask for a meeting with the school team at any time.
+`;
+
+const SPANISH_PARENT_SUMMARY_TEMPLATE_BODY = `## Sobre {{student}}
+{{student}} cursa el grado {{grade|grado}} y recibe servicios de educación especial por {{disabilities|discapacidad}}. Este resumen explica cómo le va a {{student}} en la escuela en este momento y en qué trabajarán sus maestros este año.
+
+{{#if disabilityImpact}}La discapacidad {{student:possessive}} puede dificultarle {{disabilityImpact}}.{{/if}}
+
+En la escuela, {{student}} recibe {{specialEdSupport|apoyo adicional en la enseñanza}}{{#if relatedServices}} y {{relatedServices}}{{/if}}. Lo que le ayuda a aprender incluye {{accommodations|apoyos en el salón}}.
+
+{{#each academicSections}}
+## {{#if subject}}{{subject}}{{else}}Materia {{@number}}{{/if}}
+{{#if performanceComparison}}Este año, {{student}} {{performanceComparison}}.{{/if}} {{#if progressSummary}}Resultados recientes: {{progressSummary}}.{{else}}{{#if currentData}}Los resultados recientes muestran {{currentData}}.{{/if}}{{/if}}
+
+{{#if peerComparisonSummary}}{{peerComparisonSummary}}{{/if}}
+
+En clase, {{student}} puede {{classroomStrengths|fortalezas}}. Todavía está trabajando en {{classroomDeficits|habilidades por mejorar}}.{{#if supportsPerformance}} Con ayuda como {{supportsPerformance}}, {{student}} {{withSupports|mejora}}.{{/if}}
+
+{{/each}}
+## Habilidades diarias en la escuela
+A {{student}} se le facilita {{functionalStrengths|fortalezas diarias}}. Necesita ayuda con {{functionalDeficits|habilidades diarias por mejorar}}.
+
+{{#if goals}}
+## Metas para este año
+{{#each goals}}
+{{goalArea}}: {{timeframe|para el próximo año}}, {{condition|con apoyo}}, {{student}} podrá {{behavior|habilidad}} {{criterion|qué tan bien}}.
+
+{{/each}}
+{{/if}}
+## Mirando hacia el futuro
+{{#if transitionEmploymentGoal}}A {{student}} le gustaría trabajar en {{transitionEmploymentGoal}} después de la preparatoria.{{#if transitionSupportNeeds}} Para prepararse, necesitará ayuda con {{transitionSupportNeeds}}.{{/if}}{{/if}}
+
+{{#if parentEmploymentPlan}}{{parentName}} planea que {{student}} trabaje tiempo {{parentEmploymentPlan}}{{#if parentEmploymentGoal}} en {{parentEmploymentGoal}}{{/if}} al terminar sus estudios.{{/if}}{{#if parentLivingPlan}} {{parentName}} planea que {{student}} viva {{parentLivingPlan}}.{{/if}}
+
+Si tiene preguntas sobre este resumen, comuníquese con el maestro o la maestra {{student:possessive}}. Puede pedir una reunión con el equipo escolar en cualquier momento.
+`;
+
+/**
+ * A named narrative template. Built-in sets can't be edited; custom sets are stored under
+ * `plaafp-templates` and can be imported and exported as JSON. Sets without a language or
+ * audience are English staff templates.
+ */
+interface TemplateSet {
+    id: string;
+    name: string;
+    body: string;
+    language?: keyof typeof NARRATIVE_LANGUAGES;
+    audience?: keyof typeof NARRATIVE_AUDIENCES;
+    builtIn?: boolean;
+}
+
+const DEFAULT_TEMPLATE_SET: TemplateSet = { id: 'builtin-texas', name: 'Texas (STAAR) - built-in', body: DEFAULT_TEMPLATE_BODY, builtIn: true };
+
+/** One built-in set per language and audience; the first one matching a variant is its default. */
+const BUILT_IN_TEMPLATE_SETS = [
+    DEFAULT_TEMPLATE_SET,
+    { id: 'builtin-texas-es', name: 'Texas (STAAR), Español - built-in', body: SPANISH_TEMPLATE_BODY, language: 'es', builtIn: true },
+    { id: 'builtin-parent-summary', name: 'Parent summary - built-in', body: PARENT_SUMMARY_TEMPLATE_BODY, audience: 'parent', builtIn: true },
+    { id: 'builtin-parent-summary-es', name: 'Resumen para la familia - built-in', body: SPANISH_PARENT_SUMMARY_TEMPLATE_BODY, language: 'es', audience: 'parent', builtIn: true },
+];
+
+const TEMPLATE_FILE_TYPE = 'plaafp-template-sets';
+
+const loadTemplateSets = () => {
+    try {
+        const stored = JSON.parse(localStorage.getItem('plaafp-templates') || '[]');
+        return Array.isArray(stored) ? stored.filter(set => set?.id && typeof set.body === 'string') : [];
+    } catch (error) {
+        console.error("Failed to load templates from localStorage", error);
+        return [];
+    }
+};
+
+// The template in use for each variant, by variant key. Older versions stored a single id here,
+// which was always the English staff template.
+const loadActiveTemplateIds = () => {
+    const stored = localStorage.getItem('plaafp-active-template');
+    if (!stored) return {};
+    try {
+        const parsed = JSON.parse(stored);
+        if (isPlainObject(parsed)) return parsed;
+    } catch (error) {
+        // A plain id from before templates had languages.
+    }
+    return { [DEFAULT_VARIANT_KEY]: stored };
+};
+
+const saveTemplateSets = (sets, activeIds) => {
+    localStorage.setItem('plaafp-templates', JSON.stringify(sets));
+    localStorage.setItem('plaafp-active-template', JSON.stringify(activeIds));
+};
+
+// The chosen set for a variant, or its built-in one if none was chosen (or the chosen one was deleted).
+const resolveTemplateSet = (sets, activeIds, variant) => {
+    const key = variantKey(variant);
+    return sets.find(set => set.id === activeIds[key] && variantKey(set) === key)
+        || BUILT_IN_TEMPLATE_SETS.find(set => variantKey(set) === key);
+};
+
+const exportTemplateSets = (sets) => {
+    const file = { type: TEMPLATE_FILE_TYPE, version: 1, templates: sets.map(({ name, body, language, audience }) => ({ name, body, language, audience })) };
+    const fileName = sets.length === 1 ? `${sets[0].name.replace(/[^a-z0-9-_ ]/gi, '').replace(/\s+/g, '-') || 'template'}.json` : 'plaafp-templates.json';
+    downloadBlob(new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' }), fileName);
+};
+
+/**
+ * Reads an exported template file, checking every template compiles. Imported sets get fresh ids,
+ * and names that clash with `existing` get an "(imported)" suffix.
+ * @returns {TemplateSet[]}
+ */
+const parseTemplateSetFile = (text, existing) => {
+    let file;
+    try {
+        file = JSON.parse(text);
+    } catch (error) {
+        throw new Error('This file is not valid JSON.');
+    }
+    if (file?.type !== TEMPLATE_FILE_TYPE || !Array.isArray(file.templates)) {
+        throw new Error('This file is not a PLAAFP template export.');
+    }
+    const names = new Set(existing.map(set => set.name));
+    return file.templates.map((template, i) => {
+        if (typeof template?.body !== 'string') throw new Error(`Template ${i + 1} has no body.`);
+        const baseName = String(template.name || `Imported template ${i + 1}`).trim();
+        try {
+            parseTemplate(template.body);
+        } catch (error) {
+            throw new Error(`"${baseName}": ${error.message}`);
+        }
+        let name = baseName;
+        while (names.has(name)) name = `${name} (imported)`;
+        names.add(name);
+        return {
+            id: createId(),
+            name,
+            body: template.body,
+            language: Object.keys(NARRATIVE_LANGUAGES).includes(template.language) ? template.language : 'en',
+            audience: Object.keys(NARRATIVE_AUDIENCES).includes(template.audience) ? template.audience : 'staff',
+        };
+    });
+};
+
+// --- NARRATIVE ---
+// The narrative model: the template's output split into paragraphs of text gaps and field slots
+// (`gaps` has one more entry than `slots`). Text typed into the Preview between fields is kept as
+// an override for that gap, together with the template text it replaced (`base`), so a later form
+// or template change can be told apart from the teacher's own edit. Other variants (Spanish, parent
+// summary) prefix their keys, so wording edited in one never lands in another.
+//
+// A paragraph is keyed by the fields that are always in it, leaving out those an {{#if}} adds or
+// drops, so a conditional field appearing (e.g. the reason for limited progress) doesn't orphan
+// the edits. The gaps around it shift instead, and show up as conflicts.
+
+interface NarrativeParagraph {
+    /** Names the paragraph's unconditional fields (by section id), so it survives re-renders and reordering */
+    key: string;
+    slots: object[];
+    /** Text between the slots as shown, overrides applied */
+    gaps: string[];
+    /** The same text as the template produces it */
+    templateGaps: string[];
+    /** Gaps whose override was written against different template text */
+    conflicts: number[];
+    /** Overridden gaps past the last one, left behind when a conditional field dropped out */
+    orphanedGaps: number[];
+}
+
+const plainText = (token) => token.type === 'text' ? token.text : (token.value?.trim() || (token.blank ?? `(${token.placeholder})`));
+
+const slotIdentity = (slot) => slot.sectionType ? `${slot.sectionType}:${slot.sectionId}:${slot.field}` : slot.field;
+
+// contentEditable turns spaces into non-breaking ones (also matched by \s) and may add or collapse runs of whitespace.
+const normalizeSpace = (str) => str.replace(/\s+/g, ' ');
+
+/**
+ * @param {PlaafpDocument} data
+ * @param {string} [template]
+ * @param {NarrativeVariant} [variant] The language and audience `template` is written for
+ * @returns {{ heading: string, paragraphs: NarrativeParagraph[] }[]}
+ */
+const buildNarrativeModel = (data, template = DEFAULT_TEMPLATE_BODY, variant: NarrativeVariant = {}) => {
+    const overrides = data.paragraphOverrides || {};
+    const seen = {};
+    const key = variantKey(variant);
+    const prefix = key === DEFAULT_VARIANT_KEY ? '' : `${key}/`;
+    let root;
+    try {
+        root = compileTemplate(template);
+    } catch (error) {
+        // A saved template that no longer parses shouldn't take the Preview and exports down with it.
+        root = compileTemplate(BUILT_IN_TEMPLATE_SETS.find(set => variantKey(set) === key)?.body || DEFAULT_TEMPLATE_BODY);
+    }
+    const tokens = evaluateNodes(root.children, { data, language: narrativeLanguage(variant.language), audience: variant.audience || 'staff' });
+
+    return layoutTokens(tokens).map(({ heading, paragraphs }) => ({
+        heading: heading.map(plainText).join(''),
+        paragraphs: paragraphs.map(paragraph => {
+            const slots = paragraph.filter(token => token.type === 'slot');
+            const templateGaps = [''];
+            paragraph.forEach(token => {
+                if (token.type === 'slot') templateGaps.push('');
+                else templateGaps[templateGaps.length - 1] += token.text;
+            });
+
+            const keySlots = slots.some(slot => !slot.conditional) ? slots.filter(slot => !slot.conditional) : slots;
+            const baseKey = prefix + (keySlots.length > 0 ? keySlots.map(slotIdentity).join(',') : `text:${templateGaps[0]}`);
+            seen[baseKey] = (seen[baseKey] || 0) + 1;
+            const key = seen[baseKey] > 1 ? `${baseKey}#${seen[baseKey]}` : baseKey;
+
+            const edits = overrides[key] || {};
+            const conflicts = [];
+            const gaps = templateGaps.map((text, gap) => {
+                const edit = edits[gap];
+                if (!edit) return text;
+                if (normalizeSpace(edit.base) !== normalizeSpace(text)) conflicts.push(gap);
+                return edit.text;
+            });
+            // Wording for gaps that no longer exist is shown in the last gap until the teacher decides.
+            const last = templateGaps.length - 1;
+            const orphanedGaps = Object.keys(edits).map(Number).filter(gap => gap > last);
+            if (orphanedGaps.length > 0) {
+                if (!edits[last]) gaps[last] = edits[Math.max(...orphanedGaps)].text;
+                if (!conflicts.includes(last)) conflicts.push(last);
+            }
+            return { key, slots, gaps, templateGaps, conflicts, orphanedGaps };
+        }),
+    }));
+};
+
+// Renders the model for the Preview (editable HTML) or the exporters (plain text). Field values go
+// through `renderer.slot` and all other text through `renderer.text`, so both share the same wording.
+const buildNarrative = (data, renderer, template = DEFAULT_TEMPLATE_BODY, variant = {}) => {
+    const { slot, text } = renderer;
+    return buildNarrativeModel(data, template, variant).map(({ heading, paragraphs }) => ({
+        heading,
+        paragraphs: paragraphs.map(({ slots, gaps }) =>
+            gaps.map((gap, i) => text(gap) + (i < slots.length ? slot(slots[i]) : '')).join('')
+        ),
+    }));
+};
+
+/**
+ * Works out what the teacher changed in the Preview.
+ * `edited` lists the paragraphs read back from the page: `{ key, parts }`, where each part is
+ * `{ type: 'text', text }` or `{ type: 'slot', slot, value }` (slot = index into the paragraph's slots).
+ * Missing slots were deleted as a whole and leave their field untouched. When several copies of one
+ * field (e.g. parentName) were changed differently, the copy that last had focus wins.
+ * @returns {{ fieldEdits: Object[], gapEdits: { key: string, gap: number, edit: ({base: string, text: string} | null) }[] }}
+ */
+const reconcilePreviewEdits = (model, edited, focused = null) => {
+    const paragraphs = Object.fromEntries(model.flatMap(section => section.paragraphs).map(paragraph => [paragraph.key, paragraph]));
+    const candidates = new Map();
+    const gapEdits = [];
+
+    // Browsers may split a paragraph into two elements that share a key; read them back as one.
+    const merged: Record<string, { type: 'text' | 'slot', text?: string, slot?: number, value?: string }[]> = {};
+    edited.forEach(({ key, parts }) => {
+        if (!paragraphs[key]) return;
+        merged[key] = merged[key] ? [...merged[key], { type: 'text', text: ' ' }, ...parts] : parts;
+    });
+
+    Object.entries(merged).forEach(([key, parts]) => {
+        const paragraph = paragraphs[key];
+        const gaps = paragraph.slots.map(() => '').concat('');
+        let current = 0;
+        parts.forEach(part => {
+            const slot = part.type === 'slot' ? paragraph.slots[part.slot] : undefined;
+            // Slots must appear in order; a pasted copy of one is treated as ordinary text.
+            if (!slot || part.slot < current) {
+                gaps[current] += part.type === 'slot' ? part.value : part.text;
+                return;
+            }
+            current = part.slot + 1;
+            if (slot.editable === false || normalizeSpace(part.value).trim() === normalizeSpace(plainText(slot)).trim()) return;
+            const identity = slotIdentity(slot);
+            const isFocused = focused?.key === key && focused?.slot === part.slot;
+            const existing = candidates.get(identity);
+            if (!existing || isFocused || !existing.isFocused) {
+                candidates.set(identity, { slot, value: normalizeSpace(part.value).trim(), isFocused });
+            }
+        });
+
+        gaps.forEach((text, gap) => {
+            const normalized = normalizeSpace(text);
+            if (normalized === normalizeSpace(paragraph.gaps[gap])) return;
+            gapEdits.push({
+                key,
+                gap,
+                edit: normalized === normalizeSpace(paragraph.templateGaps[gap]) ? null : { base: paragraph.templateGaps[gap], text: normalized },
+            });
+        });
+    });
+
+    const fieldEdits = [...candidates.values()].map(({ slot, value }) => ({
+        field: slot.field, sectionType: slot.sectionType, sectionId: slot.sectionId, value,
+    }));
+    return { fieldEdits, gapEdits };
+};
+
+// Applies reconcilePreviewEdits' result. Sections are found by id, so edits still land on the
+// right section if it was moved while the Preview had focus.
+const applyPreviewEdits = (data, { fieldEdits, gapEdits }) => {
+    let next = data;
+    fieldEdits.forEach(({ field, sectionType, sectionId, value }) => {
+        if (sectionType) {
+            const listKey = SECTION_LIST_KEYS[sectionType];
+            next = { ...next, [listKey]: next[listKey].map(section => section.id === sectionId ? { ...section, [field]: value } : section) };
+        } else {
+            next = { ...next, [field]: value };
+        }
+    });
+    if (gapEdits.length > 0) {
+        const overrides = { ...next.paragraphOverrides };
+        gapEdits.forEach(({ key, gap, edit }) => {
+            const paragraph = { ...overrides[key] };
+            if (edit) paragraph[gap] = edit;
+            else delete paragraph[gap];
+            if (Object.keys(paragraph).length > 0) overrides[key] = paragraph;
+            else delete overrides[key];
+        });
+        next = { ...next, paragraphOverrides: overrides };
+    }
+    return next;
+};
+
+// --- EXPORT ---
+// Renders the same narrative as the Preview to plain text. Unfilled fields either keep their
+// "(placeholder)" text or are dropped entirely, depending on `keepPlaceholders`.
+const buildPlainNarrative = (data, { keepPlaceholders, template, variant }) => {
+    const tidy = (str) => str.replace(/ {2,}/g, ' ').replace(/ ([.,])/g, '$1').trim();
+    const sections = buildNarrative(data, {
+        text: (str) => str,
+        slot: ({ value, placeholder, blank }) => {
+            if (value?.trim()) return value.trim();
+            return keepPlaceholders ? (blank ?? `(${placeholder})`) : '';
+        },
+    }, template, variant);
+    return sections.map(({ heading, paragraphs }) => ({ heading, paragraphs: paragraphs.map(tidy) }));
+};
+
+const exportTitle = (data, { language, audience = 'staff' }: NarrativeVariant = {}) =>
+    `${narrativeLanguage(language).titles[audience]}${data.studentName?.trim() ? ` - ${data.studentName.trim()}` : ''}`;
+
+// e.g. "Ana-Lopez-PLAAFP.docx", "Ana-Lopez-Parent-Summary-es.docx"
+const exportFileName = (data, extension, { language = 'en', audience = 'staff' } = {}) => {
+    const base = (data.studentName?.trim() || 'Student').replace(/[^a-z0-9-_ ]/gi, '').replace(/\s+/g, '-');
+    return `${base}-${audience === 'parent' ? 'Parent-Summary' : 'PLAAFP'}${language === 'en' ? '' : `-${language}`}.${extension}`;
+};
+
+const downloadBlob = (blob, fileName) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+const exportAsText = (data, options) => {
+    const sections = buildPlainNarrative(data, options);
+    const body = sections.map(({ heading, paragraphs }) => [heading.toUpperCase(), ...paragraphs].join('\n\n')).join('\n\n\n');
+    downloadBlob(new Blob([`${exportTitle(data, options.variant)}\n\n\n${body}\n`], { type: 'text/plain;charset=utf-8' }), exportFileName(data, 'txt', options.variant));
+};
+
+const exportAsMarkdown = (data, options) => {
+    const sections = buildPlainNarrative(data, options);
+    const body = sections.map(({ heading, paragraphs }) => [`## ${heading}`, ...paragraphs].join('\n\n')).join('\n\n');
+    downloadBlob(new Blob([`# ${exportTitle(data, options.variant)}\n\n${body}\n`], { type: 'text/markdown;charset=utf-8' }), exportFileName(data, 'md', options.variant));
+};
+
+const exportAsDocx = async (data, options) => {
+    const sections = buildPlainNarrative(data, options);
+    const children = [new Paragraph({ text: exportTitle(data, options.variant), heading: HeadingLevel.TITLE })];
+    sections.forEach(({ heading, paragraphs }) => {
+        children.push(new Paragraph({ text: heading, heading: HeadingLevel.HEADING_2, spacing: { before: 240, after: 120 } }));
+        paragraphs.forEach(paragraph => children.push(new Paragraph({ text: paragraph, spacing: { after: 200 } })));
+    });
+
+    const doc = new Document({
+        styles: { default: { document: { run: { font: 'Times New Roman', size: 24 } } } },
+        sections: [{ children }],
+    });
+    downloadBlob(await Packer.toBlob(doc), exportFileName(data, 'docx', options.variant));
+};
+
+const exportAsPdf = (data, options) => {
+    const sections = buildPlainNarrative(data, options);
+    const doc = new jsPDF({ unit: 'pt', format: 'letter' });
+    const margin = 72;
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const textWidth = doc.internal.pageSize.getWidth() - margin * 2;
+    let y = margin;
+
+    // The standard PDF fonts have no ballot-box glyph, so the unchecked deficit-type boxes become brackets.
+    const write = (text, { size = 12, bold = false, after = 12 } = {}) => {
+        const lineHeight = size * 1.4;
+        doc.setFont('times', bold ? 'bold' : 'normal');
+        doc.setFontSize(size);
+        doc.splitTextToSize(text.replace(/☐/g, '[ ]'), textWidth).forEach(line => {
+            if (y + lineHeight > pageHeight - margin) {
+                doc.addPage();
+                y = margin;
+            }
+            doc.text(line, margin, y);
+            y += lineHeight;
+        });
+        y += after;
+    };
+
+    write(exportTitle(data, options.variant), { size: 16, bold: true, after: 18 });
+    sections.forEach(({ heading, paragraphs }) => {
+        write(heading, { bold: true, after: 4 });
+        paragraphs.forEach(paragraph => write(paragraph));
+    });
+    doc.save(exportFileName(data, 'pdf', options.variant));
+};
+
+const EXPORT_FORMATS = [
+    { id: 'docx', label: 'Word (.docx)', run: exportAsDocx },
+    { id: 'pdf', label: 'PDF', run: exportAsPdf },
+    { id: 'txt', label: 'Plain Text', run: exportAsText },
+    { id: 'md', label: 'Markdown', run: exportAsMarkdown },
+];
+
+// --- REACT COMPONENTS ---
+const FOCUSABLE_SELECTOR = 'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), summary, [contenteditable="true"], [tabindex]:not([tabindex="-1"])';
+
+const focusableElements = (container: HTMLElement) => Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR))
+  .filter(element => element.getClientRects().length > 0);
+
+// Dialog behaviour shared by every modal: while open, focus moves into the dialog (its first
+// control, else the dialog itself) and Tab cycles inside it; Escape closes it when `onClose` is
+// given; on closing, focus returns to whatever had it before. Spread `dialogProps` on the
+// `.modal-content` element and put `titleId` on its heading.
+const useDialog = (onClose = undefined, isOpen = true) => {
+  const ref = useRef<HTMLDivElement>(null);
+  const titleId = useId();
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const previous = document.activeElement as HTMLElement | null;
+    const dialog = ref.current;
+    if (dialog && !dialog.contains(document.activeElement)) {
+      const body = dialog.querySelector<HTMLElement>('.modal-body');
+      (body && focusableElements(body)[0] || dialog).focus();
+    }
+    return () => {
+      if (previous?.isConnected) previous.focus();
+    };
+  }, [isOpen]);
+
+  const handleKeyDown = (e) => {
+    if (e.key === 'Escape' && onClose) {
+      e.stopPropagation();
+      onClose();
+      return;
+    }
+    if (e.key !== 'Tab') return;
+    const elements = focusableElements(ref.current);
+    if (elements.length === 0) {
+      e.preventDefault();
+      return;
+    }
+    const first = elements[0];
+    const last = elements[elements.length - 1];
+    if (e.shiftKey && (document.activeElement === first || document.activeElement === ref.current)) {
+      e.preventDefault();
+      last.focus();
+    } else if (!e.shiftKey && document.activeElement === last) {
+      e.preventDefault();
+      first.focus();
+    }
+  };
+
+  return {
+    titleId,
+    dialogProps: { ref, role: 'dialog', 'aria-modal': true, 'aria-labelledby': titleId, tabIndex: -1, onKeyDown: handleKeyDown },
+  };
+};
+
+const AiSettingsModal = ({ settings, onSave, onClose = undefined, onViewLog = undefined }) => {
+  const { titleId, dialogProps } = useDialog(onClose);
+  const [draft, setDraft] = useState({ ...initialAiSettings, ...settings });
+  const definition = AI_PROVIDERS[draft.provider];
+
+  const handleChange = (e) => {
+    const { name, value } = e.target;
+    setDraft(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleToggle = (e) => {
+    const { name, checked } = e.target;
+    setDraft(prev => ({ ...prev, [name]: checked }));
+  };
+
+  const handleProviderChange = (e) => {
+    const provider = e.target.value;
+    setDraft(prev => ({
+      ...prev,
+      provider,
+      model: AI_PROVIDERS[provider].defaultModel,
+      baseUrl: AI_PROVIDERS[provider].defaultBaseUrl || '',
+    }));
+  };
+
+  const handleSave = () => {
+    const normalized = { ...draft, model: draft.model.trim() || definition.defaultModel, baseUrl: draft.baseUrl.trim(), apiKey: draft.apiKey.trim() };
+    const error = validateAiSettings(normalized);
+    if (error) {
+      alert(error);
+      return;
+    }
+    onSave(normalized);
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content api-key-modal" {...dialogProps}>
+        <div className="modal-header">
+          <h3 id={titleId}>{onClose ? 'AI Settings' : 'Welcome to the PLAAFP AI Assistant'}</h3>
+          {onClose && <button className="modal-close-btn" onClick={onClose} aria-label="Close">&times;</button>}
+        </div>
+        <div className="modal-body ai-settings">
+          <p>Choose where AI suggestions and screenshot extraction are processed.</p>
+          <div className="form-group">
+            <label htmlFor="ai-provider">Provider</label>
+            <select id="ai-provider" name="provider" value={draft.provider} onChange={handleProviderChange}>
+              {Object.entries(AI_PROVIDERS).map(([key, provider]) => (
+                <option key={key} value={key}>{provider.label}</option>
+              ))}
+            </select>
+          </div>
+          <div className="form-group">
+            <label htmlFor="ai-model">Model</label>
+            <input type="text" id="ai-model" name="model" value={draft.model} onChange={handleChange} placeholder={definition.defaultModel} />
+          </div>
+          {definition.usesBaseUrl && (
+            <div className="form-group">
+              <label htmlFor="ai-base-url">Server URL</label>
+              <input type="text" id="ai-base-url" name="baseUrl" value={draft.baseUrl} onChange={handleChange} placeholder={definition.defaultBaseUrl} />
+            </div>
+          )}
+          {draft.provider !== 'mock' && (
+            <div className="form-group">
+              <label htmlFor="ai-api-key">API Key{definition.requiresApiKey ? '' : ' (optional)'}</label>
+              <input type="password" id="ai-api-key" className="api-key-input" name="apiKey" value={draft.apiKey} onChange={handleChange} placeholder="Enter your API key" />
+            </div>
+          )}
+          {draft.provider === 'gemini' && (
+            <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noopener noreferrer">
+              Get your Google AI API Key here
+            </a>
+          )}
+          <fieldset className="privacy-options">
+            <legend>Privacy</legend>
+            <label className="checkbox-option">
+              <input type="checkbox" name="redactPii" checked={draft.redactPii} onChange={handleToggle} />
+              Replace student/parent names, IDs and dates with tokens before sending
+            </label>
+            <label className="checkbox-option">
+              <input type="checkbox" name="previewRequests" checked={draft.previewRequests} onChange={handleToggle} />
+              Show me exactly what will be sent before every request
+            </label>
+            <label className="checkbox-option">
+              <input type="checkbox" name="reviewImages" checked={draft.reviewImages} onChange={handleToggle} />
+              Let me black out names on screenshots before they are sent
+            </label>
+            {onViewLog && <button className="section-control-btn" onClick={onViewLog}>View request log</button>}
+          </fieldset>
+          <button className="api-key-save-btn" onClick={handleSave}>
+            Save and Continue
+          </button>
+          <p className="api-key-note">
+            <strong>Privacy Note:</strong> These settings are encrypted with your passphrase in your browser's local storage. With a local server, student data stays on your network.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Lets the teacher drag rectangles over a screenshot; masks are kept in natural image pixels.
+const ImageRedactor = ({ image, masks, onChange }) => {
+  const imageRef = useRef(null);
+  const [draft, setDraft] = useState(null);
+
+  const toImagePoint = (e) => {
+    const rect = imageRef.current.getBoundingClientRect();
+    const scale = imageRef.current.naturalWidth / rect.width;
+    return { x: (e.clientX - rect.left) * scale, y: (e.clientY - rect.top) * scale };
+  };
+
+  const handleMouseDown = (e) => {
+    e.preventDefault();
+    const start = toImagePoint(e);
+    setDraft({ start, end: start });
+  };
+
+  const handleMouseMove = (e) => {
+    if (draft) setDraft(prev => ({ ...prev, end: toImagePoint(e) }));
+  };
+
+  const handleMouseUp = () => {
+    if (!draft) return;
+    const mask = {
+      x: Math.min(draft.start.x, draft.end.x),
+      y: Math.min(draft.start.y, draft.end.y),
+      width: Math.abs(draft.end.x - draft.start.x),
+      height: Math.abs(draft.end.y - draft.start.y),
+    };
+    setDraft(null);
+    if (mask.width > 3 && mask.height > 3) onChange([...masks, mask]);
+  };
+
+  const toPercent = ({ x, y, width, height }) => {
+    const natural = imageRef.current ? { width: imageRef.current.naturalWidth, height: imageRef.current.naturalHeight } : null;
+    if (!natural?.width) return { display: 'none' };
+    return {
+      left: `${(x / natural.width) * 100}%`,
+      top: `${(y / natural.height) * 100}%`,
+      width: `${(width / natural.width) * 100}%`,
+      height: `${(height / natural.height) * 100}%`,
+    };
+  };
+
+  const draftMask = draft && {
+    x: Math.min(draft.start.x, draft.end.x),
+    y: Math.min(draft.start.y, draft.end.y),
+    width: Math.abs(draft.end.x - draft.start.x),
+    height: Math.abs(draft.end.y - draft.start.y),
+  };
+
+  return (
+    <div className="image-redactor" onMouseDown={handleMouseDown} onMouseMove={handleMouseMove} onMouseUp={handleMouseUp} onMouseLeave={handleMouseUp}>
+      <img ref={imageRef} src={`data:${image.mimeType};base64,${image.data}`} alt="Screenshot to be sent" draggable={false} />
+      {masks.map((mask, index) => <div key={index} className="image-mask" style={toPercent(mask)} />)}
+      {draftMask && <div className="image-mask draft" style={toPercent(draftMask)} />}
+    </div>
+  );
+};
+
+const TransmissionPreviewModal = ({ request, providerLabel, onSend, onCancel }) => {
+  const { titleId, dialogProps } = useDialog(onCancel);
+  // Masks per attachment index; only image attachments can be masked.
+  const [masks, setMasks] = useState({});
+  const [isWorking, setIsWorking] = useState(false);
+  const canMask = (attachment) => attachment.mimeType.startsWith('image/');
+
+  const handleSend = async () => {
+    setIsWorking(true);
+    try {
+      const attachments = await Promise.all(request.attachments.map(async (attachment, index) =>
+        masks[index]?.length ? { ...(await maskImage(attachment, masks[index])), name: attachment.name } : attachment
+      ));
+      onSend({ ...request, attachments });
+    } catch (error) {
+      console.error("Failed to mask image", error);
+      alert('Sorry, the screenshot could not be masked. Nothing was sent.');
+      onCancel();
+    }
+  };
+
+  return (
+    <div className="modal-overlay transmission-overlay">
+      <div className="modal-content transmission-modal" {...dialogProps}>
+        <div className="modal-header">
+          <h3 id={titleId}>Review Before Sending</h3>
+          <button className="modal-close-btn" onClick={onCancel} aria-label="Cancel">&times;</button>
+        </div>
+        <div className="modal-body">
+          <p>This is exactly what will be sent to <strong>{providerLabel}</strong>. Tokens in [BRACKETS] are restored in the response on your device.</p>
+          <pre className="transmission-prompt">{request.prompt}</pre>
+          {request.attachments.map((attachment, index) => (
+            <div key={index} className="transmission-attachment">
+              {canMask(attachment) ? (
+                <>
+                  <p>Drag over any names or IDs in {attachment.name ? `"${attachment.name}"` : 'the screenshot'} to black them out.</p>
+                  <ImageRedactor image={attachment} masks={masks[index] || []} onChange={(next) => setMasks(prev => ({ ...prev, [index]: next }))} />
+                  {masks[index]?.length > 0 && <button className="section-control-btn" onClick={() => setMasks(prev => ({ ...prev, [index]: [] }))}>Clear masks</button>}
+                </>
+              ) : (
+                <p>The attached {attachment.name ? `"${attachment.name}" ` : ''}({attachment.mimeType}) will be sent as-is and cannot be masked here.</p>
+              )}
+            </div>
+          ))}
+        </div>
+        <div className="modal-footer">
+          <button className="section-control-btn" onClick={onCancel}>Cancel</button>
+          <button className="doc-save-btn" onClick={handleSend} disabled={isWorking}>Send</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Lists every field's suggestion prompt. Fields without their own prompt show the general one;
+// editing it there gives that field its own wording.
+const PromptLibraryModal = ({ overrides, initialKey, onSave, onClose }) => {
+  const { titleId, dialogProps } = useDialog(onClose);
+  const [draft, setDraft] = useState(overrides);
+  const [selectedKey, setSelectedKey] = useState(initialKey);
+  const entry = suggestionPromptFor(selectedKey, draft);
+  const isCustomized = draft[selectedKey] !== undefined;
+  const source = isCustomized
+    ? 'Your wording.'
+    : DEFAULT_SUGGESTION_PROMPTS[selectedKey] ? 'Built-in prompt for this field.' : 'Uses the general prompt until you change it here.';
+
+  const option = (key, label) => (
+    <option key={key} value={key}>{label}{draft[key] !== undefined ? ' (customized)' : ''}</option>
+  );
+
+  const handleReset = () => setDraft(prev => {
+    const next = { ...prev };
+    delete next[selectedKey];
+    return next;
+  });
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content transmission-modal template-modal" {...dialogProps}>
+        <div className="modal-header">
+          <h3 id={titleId}>Suggestion Prompts</h3>
+          <button className="modal-close-btn" onClick={onClose} aria-label="Close">&times;</button>
+        </div>
+        <div className="modal-body">
+          <div className="template-toolbar">
+            <select value={selectedKey} onChange={(e) => setSelectedKey(e.target.value)} aria-label="Field">
+              {option(GENERAL_PROMPT_KEY, 'General prompt (fields without their own)')}
+              <optgroup label="Document">
+                {Object.entries(PLAAFP_FIELD_LABELS).map(([field, label]) => option(field, label))}
+              </optgroup>
+              <optgroup label="Academic sections">
+                {Object.entries(ACADEMIC_FIELD_LABELS).map(([field, label]) => option(promptKey(field, 'academic'), label))}
+              </optgroup>
+              <optgroup label="Summary of Performance">
+                {Object.entries(SUMMARY_FIELD_LABELS).map(([field, label]) => option(promptKey(field, 'summary'), label))}
+              </optgroup>
+            </select>
+            <button className="section-control-btn" onClick={handleReset} disabled={!isCustomized}>Reset to built-in</button>
+          </div>
+          <p>{source}</p>
+          <textarea
+            className="template-editor"
+            aria-label={`Prompt: ${entry.title}`}
+            value={entry.prompt}
+            onChange={(e) => setDraft(prev => ({ ...prev, [selectedKey]: e.target.value }))}
+            rows={12}
+          />
+          <details className="template-help">
+            <summary>Placeholders</summary>
+            <pre>{`{{label}}   the field's label
+{{value}}   what the field holds now
+{{name}}    any field of the same section, then of the document, e.g. {{criticalNeeds}}
+
+Names, IDs and dates are still replaced with tokens before sending when that
+option is on in AI Settings.`}</pre>
+          </details>
+        </div>
+        <div className="modal-footer">
+          <button className="section-control-btn" onClick={onClose}>Cancel</button>
+          <button className="doc-save-btn" onClick={() => onSave(draft)}>Save</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const AiLogModal = ({ log, onClear, onClose }) => {
+  const { titleId, dialogProps } = useDialog(onClose);
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content transmission-modal" onClick={e => e.stopPropagation()} {...dialogProps}>
+        <div className="modal-header">
+          <h3 id={titleId}>AI Request Log</h3>
+          <button className="modal-close-btn" onClick={onClose} aria-label="Close">&times;</button>
+        </div>
+        <div className="modal-body">
+          <p>Every request sent to an AI provider from this browser (most recent first, up to {AI_LOG_LIMIT}). The log is stored encrypted on this device only.</p>
+          {log.length === 0 ? (
+            <div className="doc-item-empty">No requests have been sent yet.</div>
+          ) : (
+            [...log].reverse().map(entry => (
+              <details key={entry.id} className="ai-log-entry">
+                <summary>
+                  {new Date(entry.timestamp).toLocaleString()} - {AI_PROVIDERS[entry.provider]?.label || entry.provider} ({entry.model})
+                  {entry.attachments?.length ? ` - ${entry.attachments.length} attachment(s)` : ''}
+                </summary>
+                {entry.endpoint && <p><strong>Endpoint:</strong> {entry.endpoint}</p>}
+                {entry.redactions.length > 0 && <p><strong>Redacted:</strong> {entry.redactions.join(', ')}</p>}
+                {entry.attachments?.map((attachment, index) => (
+                  <p key={index}><strong>Attachment:</strong> {attachment.name || attachment.mimeType} ({attachment.mimeType}, {Math.round(attachment.size * 0.75 / 1024)} KB)</p>
+                ))}
+                <pre className="transmission-prompt">{entry.prompt}</pre>
+              </details>
+            ))
+          )}
+        </div>
+        <div className="modal-footer">
+          <button className="section-control-btn" onClick={onClear} disabled={log.length === 0}>Clear log</button>
+          <button className="doc-save-btn" onClick={onClose}>Close</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const RecoveryPrompt = ({ draft, onRestore, onDiscard }) => {
+  const { titleId, dialogProps } = useDialog();
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content api-key-modal" {...dialogProps}>
+        <div className="modal-header">
+          <h3 id={titleId}>Recover Unsaved Work?</h3>
+        </div>
+        <div className="modal-body">
+          <p>
+            Unsaved changes{draft.data.studentName ? ` to ${draft.data.studentName}'s PLAAFP` : ''} were autosaved on {new Date(draft.savedAt).toLocaleString()} but never saved.
+          </p>
+          <p>Restore them to keep working, or discard them to open your last saved document.</p>
+        </div>
+        <div className="modal-footer">
+          <button className="section-control-btn" onClick={onDiscard}>Discard</button>
+          <button className="doc-save-btn" onClick={onRestore}>Restore</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const TemplateEditorModal = ({ templateSets, activeIds, initialId, onSave, onClose }) => {
+  const { titleId, dialogProps } = useDialog(onClose);
+  const [sets, setSets] = useState(templateSets);
+  const [selectedId, setSelectedId] = useState(initialId);
+  const fileInputRef = useRef(null);
+  const allSets = [...BUILT_IN_TEMPLATE_SETS, ...sets];
+  const selected = allSets.find(set => set.id === selectedId) || DEFAULT_TEMPLATE_SET;
+  const isInUse = (set) => resolveTemplateSet(allSets, activeIds, set).id === set.id;
+
+  let syntaxError = '';
+  try {
+    parseTemplate(selected.body);
+  } catch (error) {
+    syntaxError = error.message;
+  }
+
+  const updateSelected = (patch) => setSets(prev => prev.map(set => set.id === selected.id ? { ...set, ...patch } : set));
+
+  const handleDuplicate = () => {
+    const copy = {
+      id: createId(),
+      name: `${selected.name.replace(/ - built-in$/, '')} (copy)`,
+      body: selected.body,
+      language: selected.language || 'en',
+      audience: selected.audience || 'staff',
+    };
+    setSets(prev => [...prev, copy]);
+    setSelectedId(copy.id);
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm(`Delete the template "${selected.name}"?`)) return;
+    setSets(prev => prev.filter(set => set.id !== selected.id));
+    setSelectedId(DEFAULT_TEMPLATE_SET.id);
+  };
+
+  const handleImport = async (e) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseTemplateSetFile(await file.text(), allSets);
+      setSets(prev => [...prev, ...imported]);
+      if (imported.length > 0) setSelectedId(imported[0].id);
+    } catch (error) {
+      console.error("Failed to import templates", error);
+      alert(`Could not import templates: ${error.message}`);
+    }
+  };
+
+  const handleSave = (useSelected) => {
+    const broken = sets.find(set => {
+      try {
+        parseTemplate(set.body);
+        return false;
+      } catch (error) {
+        return true;
+      }
+    });
+    if (broken) {
+      setSelectedId(broken.id);
+      alert(`Fix the errors in "${broken.name}" before saving.`);
+      return;
+    }
+    const nextActive = useSelected ? { ...activeIds, [variantKey(selected)]: selected.id } : activeIds;
+    onSave(sets, nextActive, useSelected ? selected : null);
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content transmission-modal template-modal" {...dialogProps}>
+        <div className="modal-header">
+          <h3 id={titleId}>Narrative Templates</h3>
+          <button className="modal-close-btn" onClick={onClose} aria-label="Close">&times;</button>
+        </div>
+        <div className="modal-body">
+          <div className="template-toolbar">
+            <select value={selected.id} onChange={(e) => setSelectedId(e.target.value)} aria-label="Template set">
+              {allSets.map(set => (
+                <option key={set.id} value={set.id}>{set.name}{isInUse(set) ? ' (in use)' : ''}</option>
+              ))}
+            </select>
+            <button className="section-control-btn" onClick={handleDuplicate}>Duplicate</button>
+            {!selected.builtIn && <button className="section-control-btn" onClick={handleDelete}>Delete</button>}
+            <button className="section-control-btn" onClick={() => fileInputRef.current?.click()}>Import...</button>
+            <button className="section-control-btn" onClick={() => exportTemplateSets([selected])}>Export</button>
+            <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleImport} hidden />
+          </div>
+          {selected.builtIn ? (
+            <p>Built-in templates can't be changed. Duplicate one to make your own version.</p>
+          ) : (
+            <div className="template-variant">
+              <div className="form-group">
+                <label htmlFor="template-name">Name</label>
+                <input type="text" id="template-name" value={selected.name} onChange={(e) => updateSelected({ name: e.target.value })} />
+              </div>
+              <div className="form-group">
+                <label htmlFor="template-language">Language</label>
+                <select id="template-language" value={selected.language || 'en'} onChange={(e) => updateSelected({ language: e.target.value })}>
+                  {Object.entries(NARRATIVE_LANGUAGES).map(([id, language]) => <option key={id} value={id}>{language.label}</option>)}
+                </select>
+              </div>
+              <div className="form-group">
+                <label htmlFor="template-audience">Written for</label>
+                <select id="template-audience" value={selected.audience || 'staff'} onChange={(e) => updateSelected({ audience: e.target.value })}>
+                  {Object.entries(NARRATIVE_AUDIENCES).map(([id, label]) => <option key={id} value={id}>{label}</option>)}
+                </select>
+              </div>
+            </div>
+          )}
+          <textarea
+            className="template-editor"
+            aria-label={`Wording of ${selected.name}`}
+            value={selected.body}
+            onChange={(e) => updateSelected({ body: e.target.value })}
+            readOnly={selected.builtIn}
+            rows={20}
+            spellCheck={false}
+          />
+          {syntaxError && <p className="unlock-error">{syntaxError}</p>}
+          <details className="template-help">
+            <summary>Template syntax</summary>
+            <pre>{`{{field}} or {{field|placeholder}}   a form field, e.g. {{grade|grade}}
+{{student}}  {{student:possessive}}  the student's name
+{{pronoun:subject}}  {{Pronoun:possessive}}  (subject, object, possessive, reflexive)
+{{verb:has/have}}   agrees with the student's pronouns
+{{#if field}} ... {{else}} ... {{/if}}
+{{#if field == "value"}}  {{#if field != "value"}}  {{#if !field}}
+{{#each academicSections}} ... {{@number}} ... {{/each}}
+{{#each performanceSummarySections}} ... {{/each}}
+{{#each goals}} ... {{goalArea}} ... {{/each}}
+{{progressSummary}}  {{peerComparisonSummary}}  sentences built from an academic section's data points
+{{! a comment }}
+## Heading line        (a blank line starts a new paragraph)
+
+Pronouns, lists and fixed answers follow the template's language. Each language
+and audience (staff or parent summary) uses its own template.`}</pre>
+          </details>
+        </div>
+        <div className="modal-footer">
+          <button className="section-control-btn" onClick={onClose}>Cancel</button>
+          <button className="section-control-btn" onClick={() => handleSave(false)}>Save</button>
+          <button className="doc-save-btn" onClick={() => handleSave(true)} disabled={!!syntaxError}>Save &amp; Use This Template</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Compares any two saved revisions of a document, its unsaved edits, or the same student's PLAAFP from another year.
+const VersionHistoryModal = ({ documentId, savedPlaafps, revisions, current, onRestore, onClose }) => {
+  const { titleId, dialogProps } = useDialog(onClose);
+  const doc = savedPlaafps[documentId];
+  const documentRevisions = [...(revisions[documentId] || [])].reverse();
+  const otherYears = Object.entries<PlaafpDocument>(savedPlaafps)
+    .filter(([id, other]) => id !== documentId && isSameStudent(doc, other))
+    .sort(([, a], [, b]) => (b.schoolYear || '').localeCompare(a.schoolYear || ''));
+
+  const options: { value: string, label: string, data: PlaafpDocument, revision?: Revision }[] = [
+    ...(current ? [{ value: 'current', label: 'Current edits (unsaved)', data: current }] : []),
+    ...documentRevisions.map((revision, index) => ({
+      value: `revision:${revision.id}`,
+      label: `Saved ${new Date(revision.savedAt).toLocaleString()}${index === 0 ? ' (latest)' : ''}`,
+      data: revision.data,
+      revision,
+    })),
+    ...otherYears.map(([id, other]) => ({ value: `document:${id}`, label: `${documentLabel(other)} (other year)`, data: other })),
+  ];
+  if (documentRevisions.length === 0) options.push({ value: 'saved', label: 'Saved version', data: doc });
+
+  const priorYear = findPriorYearDocument(savedPlaafps, doc, documentId);
+  const [rightValue, setRightValue] = useState(options[0].value);
+  const [leftValue, setLeftValue] = useState(() => (options[1] || options[0]).value);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const left = options.find(option => option.value === leftValue) || options[0];
+  const right = options.find(option => option.value === rightValue) || options[0];
+  const rows = diffDocuments(migrateDocument(left.data), migrateDocument(right.data));
+  const visibleRows = showUnchanged ? rows : rows.filter(row => row.changed);
+  const changedCount = rows.filter(row => row.changed).length;
+
+  const renderSelect = (value, onChange) => (
+    <select value={value} onChange={(e) => onChange(e.target.value)}>
+      {options.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content transmission-modal version-modal" {...dialogProps}>
+        <div className="modal-header">
+          <h3 id={titleId}>History: {doc.studentName || 'Unnamed student'}, {documentLabel(doc)}</h3>
+          <button className="modal-close-btn" onClick={onClose} aria-label="Close">&times;</button>
+        </div>
+        <div className="modal-body">
+          <div className="version-toolbar">
+            <label>Compare {renderSelect(leftValue, setLeftValue)}</label>
+            <label>with {renderSelect(rightValue, setRightValue)}</label>
+            {priorYear && (
+              <button className="section-control-btn" onClick={() => { setLeftValue(`document:${priorYear[0]}`); setRightValue(options[0].value); }}>
+                Compare with prior year
+              </button>
+            )}
+            <label className="version-unchanged-toggle">
+              <input type="checkbox" checked={showUnchanged} onChange={(e) => setShowUnchanged(e.target.checked)} /> Show unchanged fields
+            </label>
+          </div>
+          <p className="version-summary">{changedCount === 0 ? 'No differences.' : `${changedCount} field(s) differ.`}</p>
+          {visibleRows.length > 0 && (
+            <table className="version-diff">
+              <thead>
+                <tr><th>Field</th><th>{left.label}</th><th>{right.label}</th></tr>
+              </thead>
+              <tbody>
+                {visibleRows.map((row, index) => (
+                  <React.Fragment key={`${row.group}-${row.label}-${index}`}>
+                    {(index === 0 || visibleRows[index - 1].group !== row.group) && (
+                      <tr className="version-group"><th colSpan={3}>{row.group}</th></tr>
+                    )}
+                    <tr className={row.changed ? 'changed' : ''}>
+                      <th scope="row">{row.label}</th>
+                      <td>{row.left || <span className="version-empty">(blank)</span>}</td>
+                      <td>{row.right || <span className="version-empty">(blank)</span>}</td>
+                    </tr>
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+        <div className="modal-footer">
+          {onRestore && left.revision && (
+            <button className="section-control-btn" onClick={() => onRestore(left.revision)} title="Replace the open document with this revision. Undo reverses it.">
+              Restore &ldquo;{left.label}&rdquo;
+            </button>
+          )}
+          <button className="doc-save-btn" onClick={onClose}>Close</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const ExportBundleModal = ({ savedPlaafps, roster, currentId, onExport, onClose }) => {
+  const { titleId, dialogProps } = useDialog(onClose);
+  const [selected, setSelected] = useState(() => new Set(currentId && savedPlaafps[currentId] ? [currentId] : Object.keys(savedPlaafps)));
+  const groups = groupDocumentsByStudent(savedPlaafps, roster);
+
+  const toggle = (ids, checked) => setSelected(prev => {
+    const next = new Set(prev);
+    ids.forEach(id => checked ? next.add(id) : next.delete(id));
+    return next;
+  });
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content transmission-modal" {...dialogProps}>
+        <div className="modal-header">
+          <h3 id={titleId}>Export Documents</h3>
+          <button className="modal-close-btn" onClick={onClose} aria-label="Close">&times;</button>
+        </div>
+        <div className="modal-body">
+          <p>The file includes each document's saved revisions and roster details. It is <strong>not encrypted</strong>; store and share it the way you would a printed PLAAFP.</p>
+          <label className="bundle-select-all">
+            <input type="checkbox" checked={selected.size === Object.keys(savedPlaafps).length} onChange={(e) => toggle(Object.keys(savedPlaafps), e.target.checked)} /> All documents
+          </label>
+          {groups.map(group => (
+            <fieldset key={group.key} className="bundle-group">
+              <legend>
+                <label>
+                  <input type="checkbox" checked={group.documents.every(([id]) => selected.has(id))} onChange={(e) => toggle(group.documents.map(([id]) => id), e.target.checked)} /> {group.label}
+                </label>
+              </legend>
+              {group.documents.map(([id, doc]) => (
+                <label key={id} className="bundle-document">
+                  <input type="checkbox" checked={selected.has(id)} onChange={(e) => toggle([id], e.target.checked)} /> {documentLabel(doc)}
+                </label>
+              ))}
+            </fieldset>
+          ))}
+        </div>
+        <div className="modal-footer">
+          <button className="section-control-btn" onClick={onClose}>Cancel</button>
+          <button className="doc-save-btn" onClick={() => onExport([...selected])} disabled={selected.size === 0}>
+            Export {selected.size} Document{selected.size === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const IMPORT_RESOLUTION_LABELS = {
+  merge: 'Merge - fill in from the file, keep fields it leaves blank',
+  replace: 'Replace with the file\'s version',
+  'keep-both': 'Keep both as separate documents',
+  skip: 'Skip',
+};
+
+// Previews a bundle before anything is saved: what's new, what collides and which fields each choice changes.
+const ImportBundleModal = ({ savedPlaafps, onImport, onClose }) => {
+  const { titleId, dialogProps } = useDialog(onClose);
+  const [parsed, setParsed] = useState(null);
+  const [resolutions, setResolutions] = useState({});
+  const [error, setError] = useState('');
+  const fileInputRef = useRef(null);
+
+  const handleFile = async (e) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const result = parseBundleFile(await file.text());
+      setParsed({ ...result, fileName: file.name });
+      setResolutions(Object.fromEntries(Object.keys(result.bundle.documents).map(id => [id, savedPlaafps[id] ? 'merge' : 'replace'])));
+      setError('');
+    } catch (err) {
+      console.error("Failed to read document bundle", err);
+      setParsed(null);
+      setError(err.message);
+    }
+  };
+
+  const entries = parsed ? planBundleImport(parsed.bundle, savedPlaafps) : [];
+  const importCount = entries.filter(entry => resolutions[entry.id] !== 'skip').length;
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content transmission-modal bundle-modal" {...dialogProps}>
+        <div className="modal-header">
+          <h3 id={titleId}>Import Documents</h3>
+          <button className="modal-close-btn" onClick={onClose} aria-label="Close">&times;</button>
+        </div>
+        <div className="modal-body">
+          <div className="template-toolbar">
+            <button className="section-control-btn" onClick={() => fileInputRef.current?.click()}>Choose File...</button>
+            <span>{parsed ? parsed.fileName : 'A .json file exported from this app'}</span>
+            <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleFile} hidden />
+          </div>
+          {error && <p className="unlock-error">{error}</p>}
+          {parsed && (
+            <>
+              {parsed.bundle.exportedAt && <p className="version-summary">Exported {new Date(parsed.bundle.exportedAt).toLocaleString()}.</p>}
+              {entries.length === 0 && <p>This file has no documents that can be imported.</p>}
+              {entries.map(entry => {
+                const resolution = resolutions[entry.id];
+                const result = resolveImportedDocument(entry, resolution);
+                const changes = entry.existing && result && resolution !== 'keep-both'
+                  ? diffDocuments(entry.existing, result).filter(row => row.changed)
+                  : [];
+                return (
+                  <div key={entry.id} className={`bundle-entry ${entry.existing ? 'collision' : ''}`}>
+                    <div className="bundle-entry-header">
+                      <strong>{entry.incoming.studentName}</strong> {documentLabel(entry.incoming)}
+                      <span className="bundle-entry-status">{entry.existing ? 'Already here' : 'New'}</span>
+                    </div>
+                    <select value={resolution} onChange={(e) => setResolutions(prev => ({ ...prev, [entry.id]: e.target.value }))} aria-label={`Import ${entry.incoming.studentName} ${documentLabel(entry.incoming)}`}>
+                      {(entry.existing ? ['merge', 'replace', 'keep-both', 'skip'] : ['replace', 'skip']).map(option => (
+                        <option key={option} value={option}>{!entry.existing && option === 'replace' ? 'Import' : IMPORT_RESOLUTION_LABELS[option]}</option>
+                      ))}
+                    </select>
+                    {entry.existing && result && resolution !== 'keep-both' && (
+                      changes.length === 0 ? <p className="version-summary">No fields change.</p> : (
+                        <details>
+                          <summary>{changes.length} field(s) will change</summary>
+                          <table className="version-diff">
+                            <thead><tr><th>Field</th><th>Here now</th><th>After import</th></tr></thead>
+                            <tbody>
+                              {changes.map((row, index) => (
+                                <tr key={index} className="changed">
+                                  <th scope="row">{row.group} - {row.label}</th>
+                                  <td>{row.left || <span className="version-empty">(blank)</span>}</td>
+                                  <td>{row.right || <span className="version-empty">(blank)</span>}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </details>
+                      )
+                    )}
+                  </div>
+                );
+              })}
+              {parsed.rejected.length > 0 && (
+                <div className="bundle-rejected">
+                  <strong>{parsed.rejected.length} document(s) can't be imported:</strong>
+                  <ul>
+                    {parsed.rejected.map(doc => <li key={doc.id}>{doc.name}: {doc.errors.join('; ')}</li>)}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+        <div className="modal-footer">
+          <button className="section-control-btn" onClick={onClose}>Cancel</button>
+          <button className="doc-save-btn" onClick={() => onImport(parsed.bundle, resolutions)} disabled={!parsed || importCount === 0}>
+            Import {importCount} Document{importCount === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const DraftFromSourcesModal = ({ onGenerate, onApply, onClose }) => {
+  const { titleId, dialogProps } = useDialog(onClose);
+  const [sources, setSources] = useState([{ id: createId(), type: DRAFT_SOURCE_TYPES[0], name: '', text: '', attachment: null }]);
+  const [changes, setChanges] = useState(null);
+  const [accepted, setAccepted] = useState({});
+  const [error, setError] = useState('');
+  const fileInputRef = useRef(null);
+
+  const updateSource = (id, updates) => setSources(prev => prev.map(source => source.id === id ? { ...source, ...updates } : source));
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    try {
+      const added = await Promise.all(files.map(async file => {
+        const isText = file.type.startsWith('text/') || /\.(txt|md|csv)$/i.test(file.name);
+        if (isText) {
+          return { id: createId(), type: 'Other', name: file.name, text: await readFileAsText(file), attachment: null };
+        }
+        const dataUrl = await readFileAsDataUrl(file);
+        return { id: createId(), type: 'Other', name: file.name, text: '', attachment: { data: dataUrl.split(',')[1], mimeType: file.type || 'application/octet-stream', name: file.name } };
+      }));
+      setSources(prev => [...prev.filter(source => source.text || source.attachment), ...added]);
+    } catch (err) {
+      console.error("Failed to read source files", err);
+      setError('One of the files could not be read.');
+    }
+  };
+
+  const handleGenerate = async () => {
+    const usable = sources.filter(source => source.text.trim() || source.attachment);
+    if (usable.length === 0) {
+      setError('Paste some notes or upload at least one report first.');
+      return;
+    }
+    setError('');
+    const result = await onGenerate(usable);
+    if (!result) return;
+    if (result.length === 0) {
+      setError('The AI did not find anything new to add from these sources.');
+      return;
+    }
+    setChanges(result);
+    setAccepted(Object.fromEntries(result.map(change => [change.id, true])));
+  };
+
+  const groups: Record<string, any[]> = (changes || []).reduce((acc, change) => {
+    (acc[change.group] = acc[change.group] || []).push(change);
+    return acc;
+  }, {});
+  const acceptedChanges = (changes || []).filter(change => accepted[change.id]);
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content draft-modal" {...dialogProps}>
+        <div className="modal-header">
+          <h3 id={titleId}>{changes ? 'Review Drafted Changes' : 'Draft from Sources'}</h3>
+          <button className="modal-close-btn" onClick={onClose} aria-label="Close">&times;</button>
+        </div>
+        <div className="modal-body">
+          {!changes ? (
+            <>
+              <p>Paste or upload evaluation reports (FIE), progress reports and notes. The AI drafts the whole PLAAFP, and you choose which changes to keep.</p>
+              {sources.map(source => (
+                <div key={source.id} className="draft-source">
+                  <div className="draft-source-header">
+                    <select value={source.type} onChange={(e) => updateSource(source.id, { type: e.target.value })} aria-label="Source type">
+                      {DRAFT_SOURCE_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                    </select>
+                    {source.name && <span className="draft-source-name">{source.name}</span>}
+                    <button className="section-control-btn section-remove-btn" onClick={() => setSources(prev => prev.filter(item => item.id !== source.id))}>Remove</button>
+                  </div>
+                  {source.attachment ? (
+                    <p className="api-key-note">Attached {source.attachment.mimeType} file.</p>
+                  ) : (
+                    <textarea value={source.text} onChange={(e) => updateSource(source.id, { text: e.target.value })} rows={6} placeholder="Paste report text or notes here..." aria-label={`${source.type} text`} />
+                  )}
+                </div>
+              ))}
+              <div className="roster-actions">
+                <button className="section-control-btn" onClick={() => setSources(prev => [...prev, { id: createId(), type: 'Teacher notes', name: '', text: '', attachment: null }])}>+ Paste another source</button>
+                <button className="section-control-btn" onClick={() => fileInputRef.current?.click()}>Upload files</button>
+                <input ref={fileInputRef} type="file" multiple accept=".txt,.md,.csv,.pdf,text/*,image/*,application/pdf" onChange={handleFiles} hidden />
+              </div>
+            </>
+          ) : (
+            <>
+              <p>Uncheck anything you don't want. Nothing changes until you apply.</p>
+              <div className="roster-actions">
+                <button className="section-control-btn" onClick={() => setAccepted(Object.fromEntries(changes.map(change => [change.id, true])))}>Accept all</button>
+                <button className="section-control-btn" onClick={() => setAccepted({})}>Reject all</button>
+              </div>
+              {Object.entries(groups).map(([group, groupChanges]) => (
+                <div key={group} className="draft-group">
+                  <h4>{group}</h4>
+                  {groupChanges.map(change => (
+                    <label key={change.id} className={`draft-change ${accepted[change.id] ? 'accepted' : 'rejected'}`}>
+                      <input type="checkbox" checked={!!accepted[change.id]} onChange={(e) => setAccepted(prev => ({ ...prev, [change.id]: e.target.checked }))} />
+                      <div className="draft-change-body">
+                        <strong>{change.label}</strong>
+                        <div className="draft-diff">
+                          <div className="draft-current">{formatFieldValue(change.current) || <em>(empty)</em>}</div>
+                          <div className="draft-proposed">{formatFieldValue(change.proposed)}</div>
+                        </div>
+                      </div>
+                    </label>
+                  ))}
+                </div>
+              ))}
+            </>
+          )}
+          {error && <p className="unlock-error">{error}</p>}
+        </div>
+        <div className="modal-footer">
+          {changes ? (
+            <>
+              <button className="section-control-btn" onClick={() => setChanges(null)}>Back to sources</button>
+              <button className="doc-save-btn" onClick={() => onApply(acceptedChanges)} disabled={acceptedChanges.length === 0}>
+                Apply {acceptedChanges.length} change(s)
+              </button>
+            </>
+          ) : (
+            <>
+              <button className="section-control-btn" onClick={onClose}>Cancel</button>
+              <button className="doc-save-btn" onClick={handleGenerate}>Draft PLAAFP</button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
 };
 
-// --- HELPER FUNCTIONS ---
-const fill = (value, placeholder) => value?.trim() ? value.trim() : `(${placeholder})`;
-const fillPronoun = (studentName, pronoun) => studentName?.trim() ? pronoun : 'he/she';
-const fillPossessive = (studentName, pronoun) => studentName?.trim() ? `${studentName}'s` : `______'s`;
+const UnlockScreen = ({ isSetup, onUnlocked, onReset }) => {
+  const { titleId, dialogProps } = useDialog();
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
 
-// --- REACT COMPONENTS ---
-const ApiKeyModal = ({ onSave }) => {
-  const [apiKey, setApiKey] = useState('');
+  const handleSubmit = async () => {
+    if (isSetup && passphrase.length < 8) {
+      setError('Please choose a passphrase of at least 8 characters.');
+      return;
+    }
+    if (isSetup && passphrase !== confirmation) {
+      setError('The passphrases do not match.');
+      return;
+    }
+    setIsWorking(true);
+    setError('');
+    try {
+      onUnlocked(isSetup ? await createVault(passphrase) : await unlockVault(passphrase));
+    } catch (err) {
+      console.error("Failed to unlock vault", err);
+      setError(err.message === 'Incorrect passphrase.' ? err.message : 'Could not unlock your data.');
+      setIsWorking(false);
+    }
+  };
 
-  const handleSave = () => {
-    if (apiKey.trim()) {
-      onSave(apiKey.trim());
-    } else {
-      alert('Please enter a valid API key.');
+  const handleReset = () => {
+    if (window.confirm('This permanently erases ALL saved documents, the roster and your API key. Continue?')) {
+      resetVault();
+      onReset();
     }
   };
 
   return (
     <div className="modal-overlay">
-      <div className="modal-content api-key-modal">
+      <div className="modal-content api-key-modal" {...dialogProps}>
         <div className="modal-header">
-          <h3>Welcome to the PLAAFP AI Assistant</h3>
+          <h3 id={titleId}>{isSetup ? 'Protect Student Records' : 'Unlock PLAAFP AI Assistant'}</h3>
         </div>
         <div className="modal-body">
-          <p>To enable AI-powered features, this application requires a Google AI API key.</p>
-          <p>You can get a free key from Google AI Studio. Please copy your key and paste it below.</p>
-          <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noopener noreferrer">
-            Get your Google AI API Key here
-          </a>
+          <p>
+            {isSetup
+              ? 'Student documents, the roster and your API key are encrypted in this browser. Choose a passphrase to protect them. Any existing data will be encrypted now.'
+              : 'Enter your passphrase to unlock your student records.'}
+          </p>
           <input
             type="password"
             className="api-key-input"
-            placeholder="Enter your API key"
-            value={apiKey}
-            onChange={(e) => setApiKey(e.target.value)}
+            placeholder="Passphrase"
+            aria-label="Passphrase"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && !isSetup && handleSubmit()}
+            autoFocus
           />
-          <button className="api-key-save-btn" onClick={handleSave}>
-            Save and Continue
+          {isSetup && (
+            <input
+              type="password"
+              className="api-key-input"
+              placeholder="Confirm passphrase"
+              aria-label="Confirm passphrase"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+            />
+          )}
+          {error && <p className="unlock-error">{error}</p>}
+          <button className="api-key-save-btn" onClick={handleSubmit} disabled={isWorking}>
+            {isWorking ? 'Working...' : isSetup ? 'Encrypt and Continue' : 'Unlock'}
           </button>
           <p className="api-key-note">
-            <strong>Privacy Note:</strong> Your API key is saved securely in your browser's local storage and is never sent anywhere else.
+            <strong>Important:</strong> The passphrase cannot be recovered. The app locks itself after {AUTO_LOCK_MINUTES} minutes of inactivity.
           </p>
+          {!isSetup && (
+            <button className="unlock-reset-btn" onClick={handleReset}>Forgot passphrase? Erase all data</button>
+          )}
         </div>
       </div>
     </div>
   );
 };
 
-const DocumentManager = ({ savedPlaafps, currentId, onSave, onLoad, onNew, onDelete }) => {
+const documentLabel = (doc) => [
+    doc.schoolYear || 'Untagged',
+    doc.grade ? `Grade ${doc.grade}` : null,
+    doc.ardDate ? `ARD ${doc.ardDate}` : null,
+].filter(Boolean).join(' · ');
+
+const DocumentManager = ({ savedPlaafps, roster, currentId, onSave, onLoad, onNew, onDelete, onShowHistory, onStartNextYear, onExport, onImport }) => {
     const currentDocName = currentId && savedPlaafps[currentId] ? savedPlaafps[currentId].studentName : "New Document";
     const [isOpen, setIsOpen] = useState(false);
-    const dropdownRef = useRef(null);
+    const dropdownRef = useRef<HTMLDivElement>(null);
+    const toggleRef = useRef<HTMLButtonElement>(null);
+    const menuRef = useRef<HTMLDivElement>(null);
+    const menuId = useId();
 
     useEffect(() => {
         const handleClickOutside = (event) => {
@@ -104,38 +4798,99 @@ const DocumentManager = ({ savedPlaafps, currentId, onSave, onLoad, onNew, onDel
         };
     }, [dropdownRef]);
 
+    const menuItems = () => Array.from(menuRef.current?.querySelectorAll<HTMLElement>('[role="menuitem"]') || []);
+
+    useEffect(() => {
+        if (isOpen) menuItems()[0]?.focus();
+    }, [isOpen]);
+
+    const closeMenu = () => {
+        setIsOpen(false);
+        toggleRef.current?.focus();
+    };
+
+    const handleToggleKeyDown = (e) => {
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+            e.preventDefault();
+            setIsOpen(true);
+        }
+    };
+
+    // Arrow keys, Home and End move between items; Escape closes the menu and Tab leaves it.
+    const handleMenuKeyDown = (e) => {
+        const items = menuItems();
+        const index = items.indexOf(document.activeElement as HTMLElement);
+        const moves = { ArrowDown: index + 1, ArrowUp: index - 1, Home: 0, End: items.length - 1 };
+        if (e.key in moves) {
+            e.preventDefault();
+            items[(moves[e.key] + items.length) % items.length]?.focus();
+        } else if (e.key === 'Escape') {
+            e.preventDefault();
+            closeMenu();
+        } else if (e.key === 'Tab') {
+            setIsOpen(false);
+        }
+    };
+
     const handleSelect = (id) => {
         onLoad(id);
-        setIsOpen(false);
+        closeMenu();
     }
 
     const handleNew = () => {
         onNew();
-        setIsOpen(false);
+        closeMenu();
+    }
+
+    const handleAction = (action, id = undefined) => {
+        action(id);
+        closeMenu();
     }
 
     return (
         <div className="doc-manager">
-            <button className="doc-save-btn" onClick={onSave}>Save</button>
+            <button className="doc-save-btn" onClick={onSave} title="Save (Ctrl+S)" aria-keyshortcuts="Control+S">Save</button>
             <div className="doc-dropdown-container" ref={dropdownRef}>
-                <button className="doc-current" onClick={() => setIsOpen(!isOpen)}>
-                    {currentDocName} <span className="arrow">{isOpen ? '▲' : '▼'}</span>
+                <button
+                    ref={toggleRef}
+                    className="doc-current"
+                    onClick={() => setIsOpen(!isOpen)}
+                    onKeyDown={handleToggleKeyDown}
+                    aria-haspopup="menu"
+                    aria-expanded={isOpen}
+                    aria-controls={isOpen ? menuId : undefined}
+                    aria-label={`Documents: ${currentDocName}`}
+                >
+                    {currentDocName} <span className="arrow" aria-hidden="true">{isOpen ? '▲' : '▼'}</span>
                 </button>
                 {isOpen && (
-                    <div className="doc-dropdown-menu">
-                        <button className="doc-item doc-new" onClick={handleNew}>+ New Document</button>
-                        <hr/>
+                    <div className="doc-dropdown-menu" id={menuId} ref={menuRef} role="menu" aria-label="Documents" onKeyDown={handleMenuKeyDown}>
+                        <button className="doc-item doc-new" role="menuitem" tabIndex={-1} onClick={handleNew}>+ New Document</button>
+                        <button className="doc-item" role="menuitem" tabIndex={-1} onClick={() => handleAction(onImport)}>Import Documents...</button>
+                        {Object.keys(savedPlaafps).length > 0 && (
+                            <button className="doc-item" role="menuitem" tabIndex={-1} onClick={() => handleAction(onExport)}>Export Documents...</button>
+                        )}
+                        <hr role="separator" />
                         {Object.keys(savedPlaafps).length > 0 ? (
-                            Object.entries(savedPlaafps).map(([id, doc]) => (
-                                <div key={id} className="doc-item-container">
-                                    <button className="doc-item" onClick={() => handleSelect(id)} title={doc.studentName || `Document ${id}`}>
-                                        {doc.studentName || `Document ${id}`}
-                                    </button>
-                                    <button className="doc-delete-btn" onClick={() => onDelete(id)} title={`Delete ${doc.studentName}`}>×</button>
+                            groupDocumentsByStudent(savedPlaafps, roster).map((group, groupIndex) => (
+                                <div key={group.key} className="doc-group" role="group" aria-labelledby={`${menuId}-group-${groupIndex}`}>
+                                    <div className="doc-group-label" id={`${menuId}-group-${groupIndex}`}>
+                                        {group.label}{!group.linked && <span className="doc-group-note"> (not on roster)</span>}
+                                    </div>
+                                    {group.documents.map(([id, doc]) => (
+                                        <div key={id} className="doc-item-container" role="none">
+                                            <button className="doc-item" role="menuitem" tabIndex={-1} onClick={() => handleSelect(id)} title={doc.studentName || `Document ${id}`}>
+                                                {documentLabel(doc)}
+                                            </button>
+                                            <button className="doc-action-btn" role="menuitem" tabIndex={-1} onClick={() => handleAction(onShowHistory, id)} title="Compare saved revisions" aria-label={`History: ${group.label}, ${documentLabel(doc)}`}>History</button>
+                                            <button className="doc-action-btn" role="menuitem" tabIndex={-1} onClick={() => handleAction(onStartNextYear, id)} title="Start next year's PLAAFP from this one, with academic data cleared" aria-label={`Start next year from ${group.label}, ${documentLabel(doc)}`}>Next year</button>
+                                            <button className="doc-delete-btn" role="menuitem" tabIndex={-1} onClick={() => onDelete(id)} title={`Delete ${doc.studentName}`} aria-label={`Delete ${group.label}, ${documentLabel(doc)}`}>×</button>
+                                        </div>
+                                    ))}
                                 </div>
                             ))
                         ) : (
-                            <div className="doc-item-empty">No saved documents</div>
+                            <div className="doc-item-empty" role="none">No saved documents</div>
                         )}
                     </div>
                 )}
@@ -146,30 +4901,116 @@ const DocumentManager = ({ savedPlaafps, currentId, onSave, onLoad, onNew, onDel
 
 
 const App = () => {
-  const [apiKey, setApiKey] = useState(null);
-  const [data, setData] = useState(initialPlaafpData);
+  const [aiSettings, setAiSettings] = useState(null);
+  const [isAiSettingsOpen, setIsAiSettingsOpen] = useState(false);
+  const [pendingTransmission, setPendingTransmission] = useState(null);
+  const [aiLog, setAiLog] = useState(null);
+  const [isDraftOpen, setIsDraftOpen] = useState(false);
+  const [templateSets, setTemplateSets] = useState(loadTemplateSets);
+  const [activeTemplateIds, setActiveTemplateIds] = useState(loadActiveTemplateIds);
+  const [isTemplatesOpen, setIsTemplatesOpen] = useState(false);
+  const [previewVariant, setPreviewVariant] = useState(() => {
+    const language = localStorage.getItem('plaafp-preview-language');
+    return { language: Object.keys(NARRATIVE_LANGUAGES).includes(language) ? language : 'en', audience: 'staff' };
+  });
+  const [fieldConfidence, setFieldConfidence] = useState({});
+  const [lastExtraction, setLastExtraction] = useState(null);
+  const [focusRequest, setFocusRequest] = useState(null);
+  const [history, dispatchHistory] = useReducer(historyReducer, initialHistoryState);
+  const data = history.data;
+  // Replaces the open document and starts a fresh history (loading, New, vault reset, recovery).
+  const setData = (doc) => dispatchHistory({ type: 'load', data: doc });
+  // Every edit goes through here so it can be undone. Returns the command's timestamp.
+  const updateDocument = (label, updater, coalesceKey = undefined) => {
+    const at = Date.now();
+    dispatchHistory({ type: 'execute', label, updater, coalesceKey, at });
+    return at;
+  };
   const [currentStep, setCurrentStep] = useState(0);
   const [loadingMessage, setLoadingMessage] = useState(null);
+  // Read out by screen readers, together with loadingMessage, through the status region.
+  const [announcement, setAnnouncement] = useState('');
   const [activeField, setActiveField] = useState(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [modalContent, setModalContent] = useState({ title: '', content: '' });
+  // { target: { field, label, sectionType, sectionId }, title, text, status: 'streaming' | 'done' | 'stopped' | 'error' }
+  const [suggestion, setSuggestion] = useState(null);
+  const suggestionAbortRef = useRef(null);
+  const [aiClient] = useState(createAiClient);
+  const [promptOverrides, setPromptOverrides] = useState(loadPromptOverrides);
+  const [promptLibraryKey, setPromptLibraryKey] = useState(null);
   const [savedPlaafps, setSavedPlaafps] = useState({});
+  const [revisions, setRevisions] = useState({});
+  const [historyDocumentId, setHistoryDocumentId] = useState(null);
+  const [bundleDialog, setBundleDialog] = useState(null);
   const [currentPlaafpId, setCurrentPlaafpId] = useState(null);
+  // { message, at } of the last section action; its Undo bar shows while that's still the latest command.
+  const [sectionNotice, setSectionNotice] = useState(null);
+  const [isDocumentLoaded, setIsDocumentLoaded] = useState(false);
+  const [recoveryDraft, setRecoveryDraft] = useState(null);
+  const [lastAutosave, setLastAutosave] = useState(null);
+  const [roster, setRoster] = useState({});
+  const [isRosterOpen, setIsRosterOpen] = useState(false);
+  const [vaultStatus, setVaultStatus] = useState(() => hasVault() ? 'locked' : 'setup');
+  const [hasUnlocked, setHasUnlocked] = useState(false);
+  // The decrypted vault key is kept out of state so it never ends up in React dev tooling or re-renders.
+  const vaultKeyRef = useRef(null);
 
   useEffect(() => {
-    const savedKey = localStorage.getItem('gemini-api-key');
-    if (savedKey) {
-      setApiKey(savedKey);
-    }
-  }, []);
+    if (!hasUnlocked) return;
+    loadAiSettings().catch(error => console.error("Failed to read AI settings", error));
+  }, [hasUnlocked]);
+
+  // Auto-lock: any keyboard, mouse or touch activity restarts the inactivity timer.
+  useEffect(() => {
+    if (vaultStatus !== 'unlocked') return;
+    let timer;
+    const resetTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(handleLock, AUTO_LOCK_MINUTES * 60 * 1000);
+    };
+    const events = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'scroll'];
+    events.forEach(event => window.addEventListener(event, resetTimer, { passive: true }));
+    resetTimer();
+    return () => {
+      clearTimeout(timer);
+      events.forEach(event => window.removeEventListener(event, resetTimer));
+    };
+  }, [vaultStatus]);
+
+  const isAiConfigured = aiSettings !== null;
 
   useEffect(() => {
-    if (!apiKey) return; // Don't load docs until API key is confirmed
+    if (!isAiConfigured) return; // Don't load docs until AI settings are confirmed
+    loadStoredData();
+  }, [isAiConfigured]);
+
+  // Older versions stored only a Gemini key under `gemini-api-key`; fold it into the settings record.
+  const loadAiSettings = async () => {
+    const settingsRaw = await readSecure(vaultKeyRef.current, 'plaafp-ai-settings');
+    if (settingsRaw) {
+      setAiSettings({ ...initialAiSettings, ...JSON.parse(settingsRaw) });
+      return;
+    }
+    const legacyKey = await readSecure(vaultKeyRef.current, 'gemini-api-key');
+    if (legacyKey) {
+      await handleSaveAiSettings({ ...initialAiSettings, apiKey: legacyKey });
+      localStorage.removeItem('gemini-api-key');
+    }
+  };
+
+  const loadStoredData = async () => {
     try {
-      const allDocsRaw = localStorage.getItem('plaafp-documents');
-      const docs = allDocsRaw ? JSON.parse(allDocsRaw) : {};
+      const allDocsRaw = await readSecure(vaultKeyRef.current, 'plaafp-documents');
+      const docs = migrateAllDocuments(allDocsRaw ? JSON.parse(allDocsRaw) : {});
       setSavedPlaafps(docs);
 
+      const revisionsRaw = await readSecure(vaultKeyRef.current, 'plaafp-revisions');
+      setRevisions(revisionsRaw ? JSON.parse(revisionsRaw) : {});
+
+      const rosterRaw = await readSecure(vaultKeyRef.current, 'plaafp-roster');
+      setRoster(rosterRaw ? JSON.parse(rosterRaw) : {});
+
       const currentId = localStorage.getItem('plaafp-current-id');
       if (currentId && typeof currentId === 'string' && docs[currentId]) {
         setCurrentPlaafpId(currentId);
@@ -179,74 +5020,235 @@ const App = () => {
         setCurrentPlaafpId(null);
         localStorage.removeItem('plaafp-current-id');
       }
+
+      const draftRaw = await readSecure(vaultKeyRef.current, 'plaafp-draft');
+      const draft = draftRaw ? JSON.parse(draftRaw) : null;
+      if (draft?.data) setRecoveryDraft(draft);
     } catch (error) {
       console.error("Failed to load data from localStorage", error);
       setData(initialPlaafpData);
       setSavedPlaafps({});
+      setRevisions({});
+      setRoster({});
       setCurrentPlaafpId(null);
     }
-  }, [apiKey]);
+    setIsDocumentLoaded(true);
+  };
+
+  const handleRestoreDraft = () => {
+    const documentId = recoveryDraft.documentId && savedPlaafps[recoveryDraft.documentId] ? recoveryDraft.documentId : null;
+    openDocument(migrateDocument(recoveryDraft.data), documentId);
+    setRecoveryDraft(null);
+  };
+
+  const handleDiscardDraft = () => {
+    localStorage.removeItem('plaafp-draft');
+    setRecoveryDraft(null);
+  };
+
+  const handleUnlocked = (key) => {
+    vaultKeyRef.current = key;
+    setVaultStatus('unlocked');
+    setHasUnlocked(true);
+  };
+
+  // Locking drops the key and covers the app; unsaved form data stays in memory for after unlock.
+  const handleLock = () => {
+    vaultKeyRef.current = null;
+    setVaultStatus('locked');
+  };
+
+  const handleVaultReset = () => {
+    setAiSettings(null);
+    setSavedPlaafps({});
+    setRevisions({});
+    setRoster({});
+    setData(initialPlaafpData);
+    setCurrentPlaafpId(null);
+    setHasUnlocked(false);
+    setVaultStatus('setup');
+  };
+
+  const persistDocuments = (docs) => writeSecure(vaultKeyRef.current, 'plaafp-documents', JSON.stringify(docs));
+  const persistRevisions = (revs) => writeSecure(vaultKeyRef.current, 'plaafp-revisions', JSON.stringify(revs));
 
-  const handleSaveApiKey = (key) => {
-    localStorage.setItem('gemini-api-key', key);
-    setApiKey(key);
+  const handleSaveAiSettings = async (settings) => {
+    try {
+      await writeSecure(vaultKeyRef.current, 'plaafp-ai-settings', JSON.stringify(settings));
+    } catch (error) {
+      console.error("Failed to save AI settings", error);
+    }
+    setAiSettings(settings);
+    setIsAiSettingsOpen(false);
   };
 
   const handleClearAll = () => {
-    if (window.confirm('Are you sure you want to delete ALL saved documents? This cannot be undone.')) {
+    if (window.confirm('Are you sure you want to delete ALL saved documents and the student roster? This cannot be undone.')) {
       setSavedPlaafps({});
+      setRevisions({});
+      setRoster({});
       localStorage.removeItem('plaafp-documents');
-      handleNew();
+      localStorage.removeItem('plaafp-revisions');
+      localStorage.removeItem('plaafp-roster');
+      resetDocument();
     }
   };
 
   const handleChange = (e) => {
     const { name, value } = e.target;
-    setData(prev => ({ ...prev, [name]: value }));
+    updateDocument(`Edit ${PLAAFP_FIELD_LABELS[name] || name}`, prev => ({ ...prev, [name]: value }), name);
+  };
+
+  // Editing a field means the teacher has reviewed it, so its extraction confidence no longer applies.
+  const clearConfidence = (key) => {
+    setFieldConfidence(prev => {
+      if (!(key in prev)) return prev;
+      const next = { ...prev };
+      delete next[key];
+      return next;
+    });
   };
 
   const handleAcademicChange = (index, e) => {
     const { name, value } = e.target;
-    const newSections = [...data.academicSections];
-    newSections[index] = { ...newSections[index], [name]: value };
-    setData(prev => ({ ...prev, academicSections: newSections }));
+    clearConfidence(fieldKey(name, index, undefined));
+    const sectionId = data.academicSections[index].id;
+    updateDocument(`Edit ${ACADEMIC_FIELD_LABELS[name]}`, prev => ({
+      ...prev,
+      academicSections: prev.academicSections.map(section => section.id === sectionId ? { ...section, [name]: value } : section),
+    }), `academic:${sectionId}:${name}`);
   };
   
+  const handleDataPointsChange = (index, label, updater, coalesceKey) => {
+    const sectionId = data.academicSections[index].id;
+    updateDocument(label, prev => ({
+      ...prev,
+      academicSections: prev.academicSections.map(section => section.id === sectionId ? { ...section, dataPoints: updater(section.dataPoints) } : section),
+    }), coalesceKey && `academic:${sectionId}:${coalesceKey}`);
+  };
+
+  const handleGoalChange = (index, field, value) => {
+    const goalId = data.goals[index].id;
+    // The Area select picks an academic section or the functional area.
+    const patch = field !== 'area' ? { [field]: value }
+      : value === 'functional' ? { area: 'functional', sectionId: '' }
+      : { area: 'academic', sectionId: value };
+    updateDocument(`Edit goal ${GOAL_FIELD_LABELS[field]?.toLowerCase() || 'area'}`, prev => ({
+      ...prev,
+      goals: prev.goals.map(goal => goal.id === goalId ? { ...goal, ...patch } : goal),
+    }), `goal:${goalId}:${field}`);
+  };
+
+  const handleProposeGoals = () => {
+    const proposed = proposeGoals(data);
+    if (proposed.length === 0) {
+      alert('Every academic section and the functional area already has a goal. Add a goal to write another.');
+      return;
+    }
+    updateDocument('Propose goals', prev => ({ ...prev, goals: [...prev.goals, ...proposed] }));
+  };
+
+  const handleAddGoal = () => {
+    updateDocument('Add goal', prev => ({
+      ...prev,
+      goals: [...prev.goals, { id: createId(), ...initialGoal, sectionId: prev.academicSections[0]?.id || '', timeframe: goalTimeframe(prev) }],
+    }));
+  };
+
   const handleAddAcademicSection = () => {
-    setData(prev => ({
+    updateDocument('Add academic section', prev => ({
       ...prev,
-      academicSections: [...prev.academicSections, { id: Date.now().toString(), ...initialAcademicSection }]
+      academicSections: [...prev.academicSections, { id: createId(), ...initialAcademicSection }]
     }));
   };
 
   const handlePerformanceSummaryChange = (index, e) => {
     const { name, value } = e.target;
-    const newSections = [...data.performanceSummarySections];
-    newSections[index] = { ...newSections[index], [name]: value };
-    setData(prev => ({ ...prev, performanceSummarySections: newSections }));
+    clearConfidence(fieldKey(name, undefined, index));
+    const sectionId = data.performanceSummarySections[index].id;
+    updateDocument(`Edit ${SUMMARY_FIELD_LABELS[name]}`, prev => ({
+      ...prev,
+      performanceSummarySections: prev.performanceSummarySections.map(section => section.id === sectionId ? { ...section, [name]: value } : section),
+    }), `summary:${sectionId}:${name}`);
   };
   
   const handleAddPerformanceSummarySection = () => {
-    setData(prev => ({
+    updateDocument('Add summary subject', prev => ({
       ...prev,
-      performanceSummarySections: [...prev.performanceSummarySections, { id: Date.now().toString(), ...initialPerformanceSummarySection }]
+      performanceSummarySections: [...prev.performanceSummarySections, { id: createId(), ...initialPerformanceSummarySection }]
     }));
   };
 
-  const handleSave = () => {
+  const persistRoster = async (newRoster) => {
+    setRoster(newRoster);
+    try {
+      await writeSecure(vaultKeyRef.current, 'plaafp-roster', JSON.stringify(newRoster));
+    } catch (error) {
+      console.error("Failed to save roster to localStorage", error);
+      alert('Error saving roster.');
+    }
+  };
+
+  const handleSaveRosterStudent = (student) => {
+    const id = student.id || createId();
+    persistRoster({ ...roster, [id]: { ...initialRosterStudent, ...student, id } });
+  };
+
+  const handleImportRoster = (students) => {
+    persistRoster(mergeRosterImport(roster, students));
+  };
+
+  // Links the document to a roster student and prefills what the roster knows about them.
+  const handleSelectRosterStudent = (id) => {
+    const student = roster[id];
+    if (!student) {
+      updateDocument('Clear student', prev => ({ ...prev, rosterStudentId: '', studentName: '' }));
+      return;
+    }
+    updateDocument('Select student', prev => ({
+      ...prev,
+      rosterStudentId: student.id,
+      studentName: student.name,
+      pronouns: student.pronouns || prev.pronouns,
+      grade: student.grade || prev.grade,
+      disabilities: student.disabilities || prev.disabilities,
+      parentName: student.parentName || prev.parentName,
+    }));
+  };
+
+  const handleSectionAction = (listKey, index, action) => {
+    const sections = data[listKey];
+    const newSections = applySectionAction(sections, index, action);
+    if (newSections === sections) return;
+    const at = updateDocument(SECTION_ACTION_MESSAGES[action].replace(/\.$/, ''), prev => ({ ...prev, [listKey]: newSections }));
+    setSectionNotice({ message: SECTION_ACTION_MESSAGES[action], at });
+    setActiveField(null);
+    setFieldConfidence({});
+    setLastExtraction(null);
+  };
+
+  const handleSave = async () => {
     if (!data.studentName.trim()) {
       alert("Please enter a student name before saving.");
       return;
     }
     
-    const idToSave = currentPlaafpId || Date.now().toString();
-    const newSavedPlaafps = { ...savedPlaafps, [idToSave]: data };
+    // Untagged documents are filed under the current school year so they can be compared across years.
+    const schoolYear = data.schoolYear || schoolYearFor(new Date());
+    if (schoolYear !== data.schoolYear) updateDocument('Set school year', prev => ({ ...prev, schoolYear }));
+
+    const idToSave = currentPlaafpId || createId();
+    const savedDocument = { ...data, schoolYear, schemaVersion: SCHEMA_VERSION };
+    const newSavedPlaafps = { ...savedPlaafps, [idToSave]: savedDocument };
+    const newRevisions = addRevision(revisions, idToSave, savedDocument, new Date().toISOString());
 
     setSavedPlaafps(newSavedPlaafps);
+    setRevisions(newRevisions);
     setCurrentPlaafpId(idToSave);
     
     try {
-      localStorage.setItem('plaafp-documents', JSON.stringify(newSavedPlaafps));
+      await persistDocuments(newSavedPlaafps);
+      await persistRevisions(newRevisions);
       localStorage.setItem('plaafp-current-id', idToSave);
       alert('Document saved!');
     } catch (error) {
@@ -255,93 +5257,287 @@ const App = () => {
     }
   };
 
+  // Documents only persist on Save, so switching away from unsaved work asks first. The autosaved
+  // draft follows the open document and would be overwritten.
+  const confirmDiscardChanges = () => !isDirty || window.confirm('This document has unsaved changes. Discard them?');
+
   const handleNew = () => {
-    setData(initialPlaafpData);
-    setCurrentPlaafpId(null);
-    localStorage.removeItem('plaafp-current-id');
+    if (!confirmDiscardChanges()) return;
+    resetDocument();
+  };
+
+  const openDocument = (doc, id) => {
+    setData(doc);
+    setCurrentPlaafpId(id);
+    if (id) localStorage.setItem('plaafp-current-id', id);
+    else localStorage.removeItem('plaafp-current-id');
     setActiveField(null);
+    setSectionNotice(null);
+    setFieldConfidence({});
+    setLastExtraction(null);
     setCurrentStep(0);
   };
+
+  const resetDocument = () => openDocument(initialPlaafpData, null);
   
   const handleLoad = (id) => {
-    if (savedPlaafps[id]) {
-        setData(savedPlaafps[id]);
-        setCurrentPlaafpId(id);
-        localStorage.setItem('plaafp-current-id', id);
-        setActiveField(null);
-        setCurrentStep(0);
+    if (savedPlaafps[id] && (id === currentPlaafpId || confirmDiscardChanges())) {
+        openDocument(migrateDocument(savedPlaafps[id]), id);
+    }
+  };
+
+  // Opens next year's PLAAFP as a new unsaved document; the prior year's stays untouched.
+  const handleStartFromLastYear = (id) => {
+    if (savedPlaafps[id] && confirmDiscardChanges()) {
+        openDocument(carryForwardDocument(savedPlaafps[id]), null);
     }
   };
 
-  const handleDelete = (id) => {
+  const handleExportDocuments = (ids) => {
+    exportBundle(createBundle(ids, savedPlaafps, revisions, roster));
+    setBundleDialog(null);
+  };
+
+  const handleImportDocuments = async (bundle, resolutions) => {
+    const result = applyBundleImport({ bundle, savedPlaafps, revisions, roster, resolutions, importedAt: new Date().toISOString() });
+    setSavedPlaafps(result.documents);
+    setRevisions(result.revisions);
+    setBundleDialog(null);
+    try {
+      await persistDocuments(result.documents);
+      await persistRevisions(result.revisions);
+    } catch (error) {
+      console.error("Failed to save imported documents", error);
+      alert('Error saving imported documents.');
+      return;
+    }
+    if (Object.keys(result.roster).length !== Object.keys(roster).length) await persistRoster(result.roster);
+    // The open document follows an import into it unless it has unsaved edits of its own.
+    if (currentPlaafpId && Object.values(result.importedIds).includes(currentPlaafpId) && !isDirty) {
+      openDocument(result.documents[currentPlaafpId], currentPlaafpId);
+    }
+    alert(`Imported ${Object.keys(result.importedIds).length} document(s).`);
+  };
+
+  const handleRestoreRevision = (revision) => {
+    updateDocument(`Restore revision from ${new Date(revision.savedAt).toLocaleString()}`, () => migrateDocument(revision.data));
+    setHistoryDocumentId(null);
+  };
+
+  const handleDelete = async (id) => {
     if (!window.confirm(`Are you sure you want to delete the document for "${savedPlaafps[id].studentName}"? This cannot be undone.`)) {
         return;
     }
     const newSavedPlaafps = { ...savedPlaafps };
     delete newSavedPlaafps[id];
+    const newRevisions = { ...revisions };
+    delete newRevisions[id];
     setSavedPlaafps(newSavedPlaafps);
-    localStorage.setItem('plaafp-documents', JSON.stringify(newSavedPlaafps));
+    setRevisions(newRevisions);
+    try {
+      await persistDocuments(newSavedPlaafps);
+      await persistRevisions(newRevisions);
+    } catch (error) {
+      console.error("Failed to save data to localStorage", error);
+      alert('Error deleting document.');
+    }
 
     if (currentPlaafpId === id) {
-        handleNew();
+        resetDocument();
     }
   };
 
+  // Shows the exact outbound request and resolves with the (possibly masked) request, or null if cancelled.
+  const confirmTransmission = (request) => new Promise(resolve => setPendingTransmission({ request, resolve }));
 
-  const getSuggestion = async (field, label) => {
-    if (!apiKey) return;
-    setLoadingMessage(`Getting suggestion for ${label}...`);
+  const appendAiLog = async (entry) => {
     try {
-        const ai = new GoogleGenAI({ apiKey });
-        let prompt = '';
-        let modalTitle = `Suggestion for ${label}`;
-
-        if (field === 'disabilityImpact') {
-            if (!data.cognitiveDeficits && !data.academicDeficits) {
-                setModalContent({ title: 'Missing Information', content: "Please fill in the 'Cognitive Deficits' and/or 'Academic Deficits' fields first to get a tailored impact statement." });
-                setIsModalOpen(true);
-                setLoadingMessage(null);
-                return;
-            }
-            prompt = `Based on a student's cognitive deficits in "${data.cognitiveDeficits || 'none specified'}" and academic deficits in "${data.academicDeficits || 'none specified'}", write a concise, 1-2 sentence impact statement for a PLAAFP document. This statement should describe how these deficits affect the student's ability to access and progress in the general education curriculum. The statement should be ready to be copied directly into the document. For example: "difficulty processing auditory information and challenges with reading fluency affect the student's ability to keep pace with classroom discussions and independently complete grade-level reading assignments."`;
-            modalTitle = `Generated Impact Statement`;
-        } else {
-            prompt = `You are an AI assistant for special education teachers writing a PLAAFP document. For the field labelled "${label}", provide a helpful suggestion, example text, or a list of things to include. Also, briefly suggest where a teacher might find this information (e.g., student's cumulative folder, FIE report, parent interview). Format the response clearly using markdown for bolding and lists.`;
-        }
+      const logRaw = await readSecure(vaultKeyRef.current, 'plaafp-ai-log');
+      const log = [...(logRaw ? JSON.parse(logRaw) : []), entry].slice(-AI_LOG_LIMIT);
+      await writeSecure(vaultKeyRef.current, 'plaafp-ai-log', JSON.stringify(log));
+    } catch (error) {
+      console.error("Failed to write AI request log", error);
+    }
+  };
 
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-        });
+  const handleViewAiLog = async () => {
+    try {
+      const logRaw = await readSecure(vaultKeyRef.current, 'plaafp-ai-log');
+      setAiLog(logRaw ? JSON.parse(logRaw) : []);
+    } catch (error) {
+      console.error("Failed to read AI request log", error);
+      setAiLog([]);
+    }
+  };
 
-        setModalContent({ title: modalTitle, content: response.text });
-        setIsModalOpen(true);
+  const handleClearAiLog = () => {
+    localStorage.removeItem('plaafp-ai-log');
+    setAiLog([]);
+  };
+
+  // Every AI call goes through here: redact PII, then (for requests the AI client actually sends
+  // rather than answers from its cache) optionally let the teacher review and mask screenshots, and
+  // log what is sent. The caller restores the redacted values in the response.
+  const prepareAiRequest = (prompt, attachments) => {
+    const redaction = aiSettings.redactPii
+      ? redactText(prompt, buildRedactionTerms(data, roster[data.rosterStudentId]))
+      : { text: prompt, tokens: {} };
+
+    const beforeSend = async (outgoing) => {
+      let request = outgoing;
+      if (aiSettings.previewRequests || (attachments.length > 0 && aiSettings.reviewImages)) {
+        request = await confirmTransmission(request);
+        if (!request) throw new AiRequestCancelled();
+      }
+      await appendAiLog({
+        id: createId(),
+        timestamp: new Date().toISOString(),
+        provider: aiSettings.provider,
+        model: aiSettings.model,
+        endpoint: AI_PROVIDERS[aiSettings.provider]?.usesBaseUrl ? aiSettings.baseUrl : '',
+        prompt: request.prompt,
+        attachments: request.attachments.map(({ mimeType, data, name }) => ({ mimeType, name: name || '', size: data.length })),
+        redactions: Object.keys(redaction.tokens),
+      });
+      return request;
+    };
+    return { request: { prompt: redaction.text, attachments }, tokens: redaction.tokens, beforeSend };
+  };
+
+  // Rejects with an AiRequestError (see describeAiError) or AiRequestCancelled.
+  const sendToAi = async (prompt, { attachments = [], json = false, schema = undefined } = {}) => {
+    const { request, tokens, beforeSend } = prepareAiRequest(prompt, attachments);
+    const response = await aiClient.generateText(aiSettings, request, { json, schema, beforeSend });
+    return restoreText(response, tokens);
+  };
+
+  // Like sendToAi, but passes the response so far to `onText` as it arrives. Rejects with an
+  // AbortError once `signal` is aborted. `fresh` asks the model again instead of using a cached answer.
+  const streamFromAi = async (prompt, { signal, onText, fresh = false }) => {
+    const { request, tokens, beforeSend } = prepareAiRequest(prompt, []);
+    let text = '';
+    for await (const chunk of aiClient.streamText(aiSettings, request, { signal, fresh, beforeSend })) {
+      text += chunk;
+      onText(restoreText(text, tokens));
+    }
+    return restoreText(text, tokens);
+  };
 
+  // Returns the proposed changes for review, or null when the request failed or was cancelled.
+  const handleDraftFromSources = async (sources) => {
+    setLoadingMessage('Drafting PLAAFP from your sources...');
+    try {
+      const prompt = buildDraftPrompt(sources, data);
+      const attachments = sources.filter(source => source.attachment).map(source => source.attachment);
+      const response = await sendToAi(prompt, { attachments, json: true });
+      return buildDraftChanges(data, sanitizeDraft(parseJsonResponse(response)));
     } catch (error) {
-        console.error("Gemini API error:", error);
-        setModalContent({ title: 'Error', content: "Sorry, I couldn't get a suggestion at this time. Please ensure your API key is correct and has access." });
-        setIsModalOpen(true);
+      if (error instanceof AiRequestCancelled) return null;
+      console.error("AI drafting error:", error);
+      setModalContent({ title: 'Error', content: error instanceof SyntaxError
+        ? "The AI's response could not be read as a PLAAFP draft. Please try again."
+        : `Sorry, I couldn't draft the document. ${describeAiError(error)}` });
+      setIsModalOpen(true);
+      return null;
     } finally {
-        setLoadingMessage(null);
+      setLoadingMessage(null);
     }
   };
-  
+
+  const handleApplyDraft = (changes) => {
+    updateDocument('Apply draft', prev => applyDraftChanges(prev, changes));
+    setIsDraftOpen(false);
+  };
+
+  const getSuggestion = (field, label, { academicIndex, summaryIndex }: { academicIndex?: number, summaryIndex?: number } = {}) => {
+    if (!aiSettings) return;
+    const sectionType = academicIndex !== undefined ? 'academic' : summaryIndex !== undefined ? 'summary' : undefined;
+    const section = sectionType && data[SECTION_LIST_KEYS[sectionType]][sectionType === 'academic' ? academicIndex : summaryIndex];
+    requestSuggestion({ field, label, sectionType, sectionId: section?.id });
+  };
+
+  // Streams a suggestion into the modal. Starting another one, or closing the modal, cancels this one.
+  // Asking again for the same field and facts shows the cached answer unless `fresh` is set.
+  const requestSuggestion = async (target, { fresh = false } = {}) => {
+    const section = target.sectionType ? data[SECTION_LIST_KEYS[target.sectionType]].find(item => item.id === target.sectionId) : undefined;
+    const entry = suggestionPromptFor(promptKey(target.field, target.sectionType), promptOverrides);
+    const context = { label: target.label, value: (section || data)[target.field], section, data };
+
+    if (entry.requiresAny?.every(name => isBlank(resolvePromptField(name, context)))) {
+      const fields = entry.requiresAny.map(name => `'${promptFieldLabel(name, target.sectionType)}'`).join(' and/or ');
+      setModalContent({ title: 'Missing Information', content: `Please fill in the ${fields} field${entry.requiresAny.length > 1 ? 's' : ''} first to get a tailored suggestion.` });
+      setIsModalOpen(true);
+      return;
+    }
+
+    suggestionAbortRef.current?.abort();
+    const controller = new AbortController();
+    suggestionAbortRef.current = controller;
+    const update = (patch) => {
+      if (suggestionAbortRef.current === controller) setSuggestion(prev => prev && { ...prev, ...patch });
+    };
+
+    setSuggestion({ target, title: fillPrompt(entry.title, context), text: '', status: 'streaming' });
+    try {
+      const text = await streamFromAi(fillPrompt(entry.prompt, context), { signal: controller.signal, fresh, onText: (text) => update({ text }) });
+      update({ text, status: 'done' });
+    } catch (error) {
+      if (error instanceof AiRequestCancelled) {
+        if (suggestionAbortRef.current === controller) setSuggestion(null);
+        return;
+      }
+      if (controller.signal.aborted) {
+        update({ status: 'stopped' });
+        return;
+      }
+      console.error("AI provider error:", error);
+      update({ status: 'error', error: describeAiError(error) });
+    }
+  };
+
+  const handleStopSuggestion = () => {
+    suggestionAbortRef.current?.abort();
+    setSuggestion(prev => prev && { ...prev, status: 'stopped' });
+  };
+
+  const handleCloseSuggestion = () => {
+    suggestionAbortRef.current?.abort();
+    suggestionAbortRef.current = null;
+    setSuggestion(null);
+  };
+
+  // 'insert' replaces the field's text; 'append' adds the suggestion after it.
+  const handleApplySuggestion = (mode) => {
+    const { target, text } = suggestion;
+    const value = suggestionToFieldText(text);
+    updateDocument(`${mode === 'append' ? 'Append' : 'Insert'} suggestion for ${target.label}`, prev => updateDocumentField(prev, target, current =>
+      mode === 'append' && String(current ?? '').trim() ? `${String(current).trim()} ${value}` : value
+    ));
+    handleCloseSuggestion();
+  };
+
+  const handleSavePrompts = (overrides) => {
+    localStorage.setItem('plaafp-prompts', JSON.stringify(overrides));
+    setPromptOverrides(overrides);
+    setPromptLibraryKey(null);
+  };
+
   const extractFromImage = async (base64Image, mimeType) => {
-    if (!apiKey) return;
+    if (!aiSettings) return;
     if (!activeField) {
-      setModalContent({ title: 'No Field Selected', content: "Please click on a text field before pasting an image." });
+      setModalContent({ title: 'No Field Selected', content: "Please click on a text field before adding a screenshot or PDF." });
       setIsModalOpen(true);
       return;
     }
     setLoadingMessage(`Analyzing image for "${activeField.label}"...`);
     try {
-      const ai = new GoogleGenAI({ apiKey });
       let prompt = `I've pasted a screenshot. I am trying to fill out the "${activeField.label}" field in a student's PLAAFP document. Please extract only the specific information relevant to this field from the image. Respond with only the extracted text, ready to be placed in the document. If the information is not present, respond with "Information not found in image."`;
 
+      const course = activeField.academicIndex !== undefined ? teksCourseFor(data.academicSections[activeField.academicIndex]?.subject, data.grade) : null;
       if (activeField.field === 'staarProficient') {
-          prompt = `I've pasted a screenshot of a student's STAAR test results. Please analyze the image and identify the two areas where the student showed the highest proficiency. Respond with only the names of these two areas, separated by a comma. For example: "Reading Comprehension, Algebraic Reasoning". If you cannot determine this from the image, respond with "Information not found in image."`;
+          prompt = `I've pasted a screenshot of a student's STAAR test results. Please analyze the image and identify the two areas where the student showed the highest proficiency. Respond with only the names of these two areas, separated by a comma. ${course ? staarAreaInstruction(course) : 'For example: "Reading Comprehension, Algebraic Reasoning".'} If you cannot determine this from the image, respond with "Information not found in image."`;
       } else if (activeField.field === 'staarDeficits') {
-          prompt = `I've pasted a screenshot of a student's STAAR test results. Please analyze the image and identify the two areas where the student showed the biggest deficit or lowest performance. Respond with only the names of these two areas, separated by a comma. For example: "Editing and Revising, Data Analysis". If you cannot determine this from the image, respond with "Information not found in image."`;
+          prompt = `I've pasted a screenshot of a student's STAAR test results. Please analyze the image and identify the two areas where the student showed the biggest deficit or lowest performance. Respond with only the names of these two areas, separated by a comma. ${course ? staarAreaInstruction(course) : 'For example: "Editing and Revising, Data Analysis".'} If you cannot determine this from the image, respond with "Information not found in image."`;
       } else if (activeField.summaryIndex !== undefined && ['taksScore', 'rawScore', 'percentCorrect'].includes(activeField.field)) {
           const subject = data.performanceSummarySections[activeField.summaryIndex].subject || 'the relevant subject';
           let scoreType = '';
@@ -352,98 +5548,240 @@ const App = () => {
           prompt = `I've pasted a screenshot of a student's test results. For the subject "${subject}", please find the most recent test score and extract only the ${scoreType}. Respond with only the number or percentage. For example, if the scale score is '1452', respond with '1452'. If the raw score is '35/52', respond with '35/52'. If the percent correct is '67%', respond with '67%'. If you cannot find this information, respond with "Information not found in image."`;
       }
       
-      const imagePart = { inlineData: { data: base64Image, mimeType } };
-      const textPart = { text: prompt };
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: { parts: [textPart, imagePart] },
-      });
+      const response = await sendToAi(prompt, { attachments: [{ data: base64Image, mimeType }] });
 
-      const extractedText = response.text.trim();
+      const extractedText = response.trim();
       if (extractedText && !extractedText.toLowerCase().includes("information not found")) {
-         if (activeField.academicIndex !== undefined) {
-            const newSections = [...data.academicSections];
-            newSections[activeField.academicIndex][activeField.field] = extractedText;
-            setData(prev => ({ ...prev, academicSections: newSections }));
-         } else if (activeField.summaryIndex !== undefined) {
-            const newSections = [...data.performanceSummarySections];
-            newSections[activeField.summaryIndex][activeField.field] = extractedText;
-            setData(prev => ({ ...prev, performanceSummarySections: newSections }));
-         } else {
-            setData(prev => ({ ...prev, [activeField.field]: extractedText }));
-         }
+         const { field, academicIndex, summaryIndex } = activeField;
+         const setSectionField = (sections, index) => sections.map((section, i) => i === index ? { ...section, [field]: extractedText } : section);
+         updateDocument(`Fill ${activeField.label} from file`, prev => {
+            if (academicIndex !== undefined) return { ...prev, academicSections: setSectionField(prev.academicSections, academicIndex) };
+            if (summaryIndex !== undefined) return { ...prev, performanceSummarySections: setSectionField(prev.performanceSummarySections, summaryIndex) };
+            return { ...prev, [field]: extractedText };
+         });
       } else {
         setModalContent({ title: 'Image Analysis', content: "Could not find relevant information for that field in the image." });
         setIsModalOpen(true);
       }
-    } catch (error) {
-      console.error("Gemini API image extraction error:", error);
-      setModalContent({ title: 'Error', content: "Sorry, I couldn't analyze the image at this time. Please ensure your API key is correct and has access." });
-      setIsModalOpen(true);
-    } finally {
-      setLoadingMessage(null);
-    }
+    } catch (error) {
+      if (error instanceof AiRequestCancelled) return;
+      console.error("AI provider image extraction error:", error);
+      setModalContent({ title: 'Error', content: `Sorry, I couldn't analyze the image. ${describeAiError(error)}` });
+      setIsModalOpen(true);
+    } finally {
+      setLoadingMessage(null);
+    }
+  };
+  
+  // `target` is "academic:<index>" or "summary:<index>", as listed by sectionTargets.
+  const extractSectionFromFile = async (attachment, target) => {
+    const [sectionType, indexStr] = target.split(':');
+    const index = parseInt(indexStr, 10);
+    const { listKey } = SECTION_EXTRACTION_FIELDS[sectionType];
+    const section = data[listKey][index];
+    if (!section) return;
+    const sectionLabel = sectionTargets.find(option => option.value === target)?.label || 'section';
+
+    setLoadingMessage(`Reading report for ${sectionLabel}...`);
+    try {
+      const course = sectionType === 'academic' ? teksCourseFor(section.subject, data.grade) : null;
+      const prompt = buildSectionExtractionPrompt(sectionType, section.subject, course);
+      const schema = buildSectionExtractionSchema(Object.keys(SECTION_EXTRACTION_FIELDS[sectionType].fields));
+      const response = await sendToAi(prompt, { attachments: [attachment], schema });
+      const results = flagUnrecognizedStaarAreas(parseSectionExtraction(sectionType, parseJsonResponse(response)), course);
+
+      if (results.length === 0) {
+        setModalContent({ title: 'Report Analysis', content: "Could not find any values for this section in the report." });
+        setIsModalOpen(true);
+        return;
+      }
+      updateDocument(`Fill ${sectionLabel} from report`, prev => ({
+        ...prev,
+        [listKey]: prev[listKey].map((item, i) => i === index
+          ? { ...item, ...Object.fromEntries(results.map(result => [result.field, result.value])) }
+          : item),
+      }));
+      setFieldConfidence(prev => ({
+        ...prev,
+        ...Object.fromEntries(results.map(result => [
+          fieldKey(result.field, sectionType === 'academic' ? index : undefined, sectionType === 'summary' ? index : undefined),
+          result.confidence,
+        ])),
+      }));
+      setLastExtraction({ sectionLabel, results });
+    } catch (error) {
+      if (error instanceof AiRequestCancelled) return;
+      console.error("AI provider section extraction error:", error);
+      setModalContent({ title: 'Error', content: error instanceof SyntaxError
+        ? "The AI's response could not be read as report values. Please try again."
+        : `Sorry, I couldn't read that report. ${describeAiError(error)}` });
+      setIsModalOpen(true);
+    } finally {
+      setLoadingMessage(null);
+    }
+  };
+
+  const handleExtract = (attachment, sectionTarget) => {
+    if (sectionTarget) {
+      extractSectionFromFile(attachment, sectionTarget);
+    } else {
+      extractFromImage(attachment.data, attachment.mimeType);
+    }
+  };
+
+  const sectionTargets = [
+    ...data.academicSections.map((section, index) => ({ value: `academic:${index}`, label: `Academics: ${section.subject || `Section ${index + 1}`}` })),
+    ...data.performanceSummarySections.map((section, index) => ({ value: `summary:${index}`, label: `Summary: ${section.subject || `Subject ${index + 1}`}` })),
+  ];
+  const activeSectionTarget = activeField?.academicIndex !== undefined
+    ? `academic:${activeField.academicIndex}`
+    : activeField?.summaryIndex !== undefined ? `summary:${activeField.summaryIndex}` : '';
+
+  const handlePreviewEdit = useCallback((edits) => {
+    updateDocument('Edit in preview', currentData => applyPreviewEdits(currentData, edits));
+  }, []);
+
+  const savedVersion = currentPlaafpId ? savedPlaafps[currentPlaafpId] : initialPlaafpData;
+  const isDirty = !savedVersion || JSON.stringify(data) !== JSON.stringify(savedVersion);
+
+  // Debounced autosave of the open document to a single draft slot; cleared once it matches what's saved.
+  // Waits for the recovery prompt so a startup with an old draft doesn't overwrite it.
+  useEffect(() => {
+    if (vaultStatus !== 'unlocked' || !isDocumentLoaded || recoveryDraft) return;
+    const timer = setTimeout(async () => {
+      if (!isDirty) {
+        localStorage.removeItem('plaafp-draft');
+        return;
+      }
+      try {
+        const savedAt = new Date().toISOString();
+        await writeSecure(vaultKeyRef.current, 'plaafp-draft', JSON.stringify({ data, documentId: currentPlaafpId, savedAt }));
+        setLastAutosave(savedAt);
+      } catch (error) {
+        console.error("Failed to autosave draft", error);
+      }
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [data, currentPlaafpId, isDirty, vaultStatus, isDocumentLoaded, recoveryDraft]);
+
+  // Ctrl+Z / Ctrl+Y (and Ctrl+Shift+Z). The Preview and dialogs keep the browser's own text undo.
+  useEffect(() => {
+    if (vaultStatus !== 'unlocked') return;
+    const handleKeyDown = (e) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const key = e.key.toLowerCase();
+      const isUndo = key === 'z' && !e.shiftKey;
+      const isRedo = key === 'y' || (key === 'z' && e.shiftKey);
+      if (!isUndo && !isRedo) return;
+      if (e.target.closest?.('.preview-content, .modal-overlay')) return;
+      e.preventDefault();
+      dispatchHistory({ type: isUndo ? 'undo' : 'redo' });
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [vaultStatus]);
+
+  // Alt+Page Down / Alt+Page Up move between steps, Ctrl+S saves and Alt+Shift+S asks for a
+  // suggestion for the field last focused. None of them apply while a dialog is open, or in the
+  // Preview, whose edits reach the document only on blur. The listener reads the current step,
+  // field and handlers through a ref, so it's subscribed once per unlock.
+  const shortcutStateRef = useRef(null);
+  shortcutStateRef.current = { currentStep, activeField, handleSave, getSuggestion };
+  useEffect(() => {
+    if (vaultStatus !== 'unlocked') return;
+    const handleKeyDown = (e) => {
+      if (document.querySelector('.modal-overlay') || e.target.closest?.('.preview-content')) return;
+      const { currentStep, activeField, handleSave, getSuggestion } = shortcutStateRef.current;
+      const key = e.key.toLowerCase();
+      if ((e.ctrlKey || e.metaKey) && !e.altKey && !e.shiftKey && key === 's') {
+        e.preventDefault();
+        handleSave();
+      } else if (e.altKey && !e.ctrlKey && !e.metaKey && (e.key === 'PageDown' || e.key === 'PageUp')) {
+        e.preventDefault();
+        const step = currentStep + (e.key === 'PageDown' ? 1 : -1);
+        if (step < 0 || step >= STEPS.length) return;
+        setCurrentStep(step);
+        setAnnouncement(`${STEPS[step]}, step ${step + 1} of ${STEPS.length}`);
+      } else if (e.altKey && e.shiftKey && !e.ctrlKey && !e.metaKey && e.code === 'KeyS') {
+        e.preventDefault();
+        if (activeField) getSuggestion(activeField.field, activeField.label, activeField);
+        else setAnnouncement('Select a field first, then press Alt+Shift+S for a suggestion.');
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [vaultStatus]);
+
+  const undoCommand = history.past[history.past.length - 1];
+  const redoCommand = history.future[0];
+
+  const allTemplateSets = [...BUILT_IN_TEMPLATE_SETS, ...templateSets];
+  const previewTemplate = resolveTemplateSet(allTemplateSets, activeTemplateIds, previewVariant);
+  // Exports are always the staff document, optionally with the parent summary, in the Preview's language.
+  const staffTemplate = resolveTemplateSet(allTemplateSets, activeTemplateIds, { language: previewVariant.language, audience: 'staff' });
+  const parentTemplate = resolveTemplateSet(allTemplateSets, activeTemplateIds, { language: previewVariant.language, audience: 'parent' });
+
+  const handlePreviewVariantChange = (patch) => {
+    if (patch.language) localStorage.setItem('plaafp-preview-language', patch.language);
+    setPreviewVariant(prev => ({ ...prev, ...patch }));
   };
-  
-  const handlePreviewEdit = useCallback((html) => {
-    const parserDiv = document.createElement('div');
-    parserDiv.innerHTML = html;
-
-    setData(currentData => {
-        const newData = JSON.parse(JSON.stringify(currentData));
-        const fields = parserDiv.querySelectorAll('.editable-field[data-field]');
-        let changed = false;
-
-        fields.forEach(fieldElement => {
-            const field = fieldElement.dataset.field;
-            const indexStr = fieldElement.dataset.index;
-            const sectionType = fieldElement.dataset.sectionType;
-            const value = fieldElement.innerText;
-
-            if (!field) return;
-
-            if (indexStr !== undefined) {
-                const index = parseInt(indexStr, 10);
-                if (sectionType === 'academic' && newData.academicSections[index] && newData.academicSections[index][field] !== value) {
-                    newData.academicSections[index][field] = value;
-                    changed = true;
-                } else if (sectionType === 'summary' && newData.performanceSummarySections[index] && newData.performanceSummarySections[index][field] !== value) {
-                    newData.performanceSummarySections[index][field] = value;
-                    changed = true;
-                }
-            } else {
-                if (newData[field] !== value) {
-                    newData[field] = value;
-                    changed = true;
-                }
-            }
-        });
 
-        return changed ? newData : currentData;
-    });
-  }, []);
+  // `shown` is the set just put in use, if any; the Preview switches to it so the change is visible.
+  const handleSaveTemplates = (sets, activeIds, shown) => {
+    saveTemplateSets(sets, activeIds);
+    setTemplateSets(sets);
+    setActiveTemplateIds(activeIds);
+    if (shown) handlePreviewVariantChange({ language: shown.language || 'en', audience: shown.audience || 'staff' });
+    setIsTemplatesOpen(false);
+  };
+
+  const complianceIssues = runComplianceChecks(data);
+  const issueCountsByStep = STEPS.map((_, step) => complianceIssues.filter(item => item.step === step && item.severity === 'error').length);
+
+  const handleSelectIssue = (item) => {
+    setCurrentStep(item.step);
+    if (item.field) setFocusRequest({ id: item.goalIndex !== undefined ? goalDomId(item.goalIndex, item.field) : fieldDomId(item.field, item.academicIndex, item.summaryIndex) });
+  };
+
+  // Runs after the step switch has rendered, so the target input exists.
+  useEffect(() => {
+    if (!focusRequest) return;
+    const element = document.getElementById(focusRequest.id);
+    if (element) {
+      element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      element.focus({ preventScroll: true });
+    }
+    setFocusRequest(null);
+  }, [focusRequest, currentStep]);
 
   const renderStepContent = () => {
     const commonProps = { data, handleChange, getSuggestion, setActiveField, activeField };
-    const academicProps = { ...commonProps, handleAcademicChange, handleAddAcademicSection };
-    const summaryProps = { ...commonProps, handlePerformanceSummaryChange, handleAddPerformanceSummarySection };
+    const introProps = { ...commonProps, roster, onSelectStudent: handleSelectRosterStudent, onManageRoster: () => setIsRosterOpen(true) };
+    const academicProps = { ...commonProps, handleAcademicChange, handleDataPointsChange, handleAddAcademicSection, onSectionAction: (index, action) => handleSectionAction('academicSections', index, action) };
+    const summaryProps = { ...commonProps, handlePerformanceSummaryChange, handleAddPerformanceSummarySection, onSectionAction: (index, action) => handleSectionAction('performanceSummarySections', index, action) };
 
     switch (currentStep) {
-      case 0: return <IntroStep {...commonProps} />;
+      case 0: return <IntroStep {...introProps} />;
       case 1: return <AcademicsStep {...academicProps} />;
       case 2: return <FunctionalStep {...commonProps} />;
       case 3: return <TransitionStep {...commonProps} />;
       case 4: return <PerformanceSummaryStep {...summaryProps} />;
+      case 5: return <GoalsStep data={data} onGoalChange={handleGoalChange} onProposeGoals={handleProposeGoals} onAddGoal={handleAddGoal} onSectionAction={(index, action) => handleSectionAction('goals', index, action)} />;
       default: return null;
     }
   };
 
-  if (!apiKey) {
-    return <ApiKeyModal onSave={handleSaveApiKey} />;
+  if (vaultStatus !== 'unlocked') {
+    return <UnlockScreen isSetup={vaultStatus === 'setup'} onUnlocked={handleUnlocked} onReset={handleVaultReset} />;
+  }
+
+  if (!aiSettings) {
+    return <AiSettingsModal settings={initialAiSettings} onSave={handleSaveAiSettings} />;
   }
 
   return (
     <>
+      <div className="visually-hidden" role="status">{loadingMessage || announcement}</div>
       {loadingMessage && <LoadingOverlay message={loadingMessage} />}
       <SuggestionModal 
         isOpen={isModalOpen} 
@@ -451,104 +5789,556 @@ const App = () => {
         title={modalContent.title}
         content={modalContent.content}
       />
+      {suggestion && (
+        <SuggestionModal
+          isOpen
+          onClose={handleCloseSuggestion}
+          title={suggestion.title}
+          content={suggestion.status === 'error' ? `Sorry, I couldn't get a suggestion. ${suggestion.error}` : suggestion.text}
+          status={suggestion.status}
+          onStop={handleStopSuggestion}
+          onInsert={() => handleApplySuggestion('insert')}
+          onAppend={() => handleApplySuggestion('append')}
+          onRegenerate={() => requestSuggestion(suggestion.target, { fresh: true })}
+          onEditPrompt={() => setPromptLibraryKey(promptKey(suggestion.target.field, suggestion.target.sectionType))}
+        />
+      )}
+      {promptLibraryKey && (
+        <PromptLibraryModal overrides={promptOverrides} initialKey={promptLibraryKey} onSave={handleSavePrompts} onClose={() => setPromptLibraryKey(null)} />
+      )}
+      {isAiSettingsOpen && (
+        <AiSettingsModal settings={aiSettings} onSave={handleSaveAiSettings} onClose={() => setIsAiSettingsOpen(false)} onViewLog={handleViewAiLog} />
+      )}
+      {recoveryDraft && <RecoveryPrompt draft={recoveryDraft} onRestore={handleRestoreDraft} onDiscard={handleDiscardDraft} />}
+      {isTemplatesOpen && (
+        <TemplateEditorModal templateSets={templateSets} activeIds={activeTemplateIds} initialId={previewTemplate.id} onSave={handleSaveTemplates} onClose={() => setIsTemplatesOpen(false)} />
+      )}
+      {historyDocumentId && (
+        <VersionHistoryModal
+          documentId={historyDocumentId}
+          savedPlaafps={savedPlaafps}
+          revisions={revisions}
+          current={historyDocumentId === currentPlaafpId ? data : null}
+          onRestore={historyDocumentId === currentPlaafpId ? handleRestoreRevision : null}
+          onClose={() => setHistoryDocumentId(null)}
+        />
+      )}
+      {bundleDialog === 'export' && (
+        <ExportBundleModal savedPlaafps={savedPlaafps} roster={roster} currentId={currentPlaafpId} onExport={handleExportDocuments} onClose={() => setBundleDialog(null)} />
+      )}
+      {bundleDialog === 'import' && (
+        <ImportBundleModal savedPlaafps={savedPlaafps} onImport={handleImportDocuments} onClose={() => setBundleDialog(null)} />
+      )}
+      {isDraftOpen && <DraftFromSourcesModal onGenerate={handleDraftFromSources} onApply={handleApplyDraft} onClose={() => setIsDraftOpen(false)} />}
+      {aiLog && <AiLogModal log={aiLog} onClear={handleClearAiLog} onClose={() => setAiLog(null)} />}
+      {pendingTransmission && (
+        <TransmissionPreviewModal
+          request={pendingTransmission.request}
+          providerLabel={AI_PROVIDERS[aiSettings.provider]?.label}
+          onSend={(request) => { pendingTransmission.resolve(request); setPendingTransmission(null); }}
+          onCancel={() => { pendingTransmission.resolve(null); setPendingTransmission(null); }}
+        />
+      )}
+      {isRosterOpen && (
+        <RosterModal
+          roster={roster}
+          onSaveStudent={handleSaveRosterStudent}
+          onImport={handleImportRoster}
+          onClose={() => setIsRosterOpen(false)}
+        />
+      )}
       <header className="app-header">
         <h1>PLAAFP AI Assistant</h1>
         <DocumentManager
             savedPlaafps={savedPlaafps}
+            roster={roster}
             currentId={currentPlaafpId}
             onSave={handleSave}
             onLoad={handleLoad}
             onNew={handleNew}
             onDelete={handleDelete}
+            onShowHistory={setHistoryDocumentId}
+            onStartNextYear={handleStartFromLastYear}
+            onExport={() => setBundleDialog('export')}
+            onImport={() => setBundleDialog('import')}
         />
-        <button className="clear-btn" onClick={handleClearAll} title="Deletes all saved student documents">Delete All Data</button>
+        <div className="header-actions">
+          <button className="lock-btn" onClick={() => setIsTemplatesOpen(true)} title="Edit the wording used in the preview and exports">Templates</button>
+          <button className="lock-btn" onClick={() => setPromptLibraryKey(GENERAL_PROMPT_KEY)} title="View and reword the prompts behind the ✨ suggestions">Prompts</button>
+          <button className="lock-btn" onClick={() => setIsAiSettingsOpen(true)} title="Choose the AI provider, model and server">AI Settings</button>
+          <button className="lock-btn" onClick={handleLock} title="Lock the app until the passphrase is entered again">Lock</button>
+          <button className="clear-btn" onClick={handleClearAll} title="Deletes all saved student documents and the roster">Delete All Data</button>
+        </div>
       </header>
       <main className="main-content">
         <div className="form-container">
-          <nav className="stepper">
+          <div className="form-toolbar">
+            <button className="section-control-btn" onClick={() => dispatchHistory({ type: 'undo' })} disabled={!undoCommand} title={undoCommand ? `Undo: ${undoCommand.label} (Ctrl+Z)` : 'Nothing to undo'}>↶ Undo</button>
+            <button className="section-control-btn" onClick={() => dispatchHistory({ type: 'redo' })} disabled={!redoCommand} title={redoCommand ? `Redo: ${redoCommand.label} (Ctrl+Y)` : 'Nothing to redo'}>↷ Redo</button>
+            <span className="autosave-status">
+              {!isDirty ? 'All changes saved' : lastAutosave ? `Draft autosaved ${new Date(lastAutosave).toLocaleTimeString()}` : 'Unsaved changes'}
+            </span>
+            <button className="draft-btn" onClick={() => setIsDraftOpen(true)}>✨ Draft from Sources</button>
+          </div>
+          <nav className="stepper" aria-label="PLAAFP steps">
+            <p className="visually-hidden">Alt+Page Down and Alt+Page Up move to the next and previous step.</p>
             {STEPS.map((step, index) => (
-              <button key={step} className={`step ${currentStep === index ? 'active' : ''}`} onClick={() => setCurrentStep(index)}>
+              <button key={step} className={`step ${currentStep === index ? 'active' : ''}`} onClick={() => setCurrentStep(index)} aria-current={currentStep === index ? 'step' : undefined}>
                 {step}
+                {issueCountsByStep[index] > 0 && (
+                  <span className="step-badge" title={`${issueCountsByStep[index]} required item(s) missing`}>
+                    <span aria-hidden="true">{issueCountsByStep[index]}</span>
+                    <span className="visually-hidden">, {issueCountsByStep[index]} required item(s) missing</span>
+                  </span>
+                )}
               </button>
             ))}
           </nav>
-          {renderStepContent()}
-          <ImageExtractor onImagePaste={extractFromImage} isActive={!!activeField} />
+          <ComplianceChecklist issues={complianceIssues} onSelect={handleSelectIssue} />
+          <FieldConfidenceContext.Provider value={fieldConfidence}>
+            {renderStepContent()}
+          </FieldConfidenceContext.Provider>
+          {sectionNotice && undoCommand?.at === sectionNotice.at && (
+            <UndoBar key={sectionNotice.at} message={sectionNotice.message} onUndo={() => dispatchHistory({ type: 'undo' })} onDismiss={() => setSectionNotice(null)} />
+          )}
+          <ImageExtractor
+            onExtract={handleExtract}
+            isActive={!!activeField}
+            sectionTargets={sectionTargets}
+            defaultTarget={activeSectionTarget}
+            lastExtraction={lastExtraction}
+          />
         </div>
         <div className="preview-container">
-          <Preview data={data} onEdit={handlePreviewEdit} />
+          <NarrativeVariantToolbar variant={previewVariant} onChange={handlePreviewVariantChange} />
+          <ExportToolbar data={data} templateSet={staffTemplate} parentTemplateSet={parentTemplate} showingParentSummary={previewVariant.audience === 'parent'} />
+          <Preview data={data} templateSet={previewTemplate} onEdit={handlePreviewEdit} />
         </div>
       </main>
     </>
   );
 };
 
-const SuggestionModal = ({ isOpen, onClose, title, content }) => {
+const MarkdownInline = ({ tokens }) => tokens.map((token, i) => {
+  switch (token.type) {
+    case 'break': return <br key={i} />;
+    case 'code': return <code key={i}>{token.text}</code>;
+    case 'strong': return <strong key={i}><MarkdownInline tokens={token.children} /></strong>;
+    case 'em': return <em key={i}><MarkdownInline tokens={token.children} /></em>;
+    case 'link': return <a key={i} href={token.href} target="_blank" rel="noopener noreferrer"><MarkdownInline tokens={token.children} /></a>;
+    default: return <React.Fragment key={i}>{token.text}</React.Fragment>;
+  }
+});
+
+// Headings start below the modal's own title so the page outline stays in order.
+const MarkdownBlocks = ({ blocks }) => blocks.map((block, i) => {
+  switch (block.type) {
+    case 'heading': {
+      const Heading = `h${Math.min(block.level + 3, 6)}` as 'h4' | 'h5' | 'h6';
+      return <Heading key={i}><MarkdownInline tokens={block.children} /></Heading>;
+    }
+    case 'list': {
+      const List = block.ordered ? 'ol' : 'ul';
+      return (
+        <List key={i} start={block.ordered && block.start !== 1 ? block.start : undefined}>
+          {block.items.map((item, j) => (
+            <li key={j}>
+              <MarkdownInline tokens={item.children} />
+              <MarkdownBlocks blocks={item.blocks} />
+            </li>
+          ))}
+        </List>
+      );
+    }
+    case 'table':
+      return (
+        <div key={i} className="markdown-table">
+          <table>
+            <thead>
+              <tr>{block.header.map((cell, j) => <th key={j} style={{ textAlign: block.align[j] || undefined }}><MarkdownInline tokens={cell} /></th>)}</tr>
+            </thead>
+            <tbody>
+              {block.rows.map((row, r) => (
+                <tr key={r}>{row.map((cell, j) => <td key={j} style={{ textAlign: block.align[j] || undefined }}><MarkdownInline tokens={cell} /></td>)}</tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    case 'code': return <pre key={i}><code>{block.text}</code></pre>;
+    case 'quote': return <blockquote key={i}><MarkdownBlocks blocks={block.blocks} /></blockquote>;
+    case 'rule': return <hr key={i} />;
+    default: return <p key={i}><MarkdownInline tokens={block.children} /></p>;
+  }
+});
+
+// Renders Markdown from a model as React elements; see `parseMarkdown` for what is kept.
+const Markdown = ({ text }) => <div className="markdown"><MarkdownBlocks blocks={parseMarkdown(text)} /></div>;
+
+// Shows a message, or an AI suggestion as it streams in (when `status` is set). A suggestion can be
+// stopped while it is being written, then inserted into its field, appended to it or written again.
+const SuggestionModal = ({ isOpen, onClose, title, content, status = undefined, onStop = undefined, onInsert = undefined, onAppend = undefined, onRegenerate = undefined, onEditPrompt = undefined }) => {
+  const { titleId, dialogProps } = useDialog(onClose, isOpen);
   if (!isOpen) return null;
 
-  const formattedContent = content.split('\n').map((line, i) => {
-    line = line.replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>');
-    return <p key={i} dangerouslySetInnerHTML={{ __html: line || '&nbsp;' }} />;
-  });
+  const isStreaming = status === 'streaming';
+  const canApply = (status === 'done' || status === 'stopped') && !!content.trim();
 
   return (
     <div className="modal-overlay" onClick={onClose}>
-      <div className="modal-content" onClick={e => e.stopPropagation()}>
+      <div className="modal-content" onClick={e => e.stopPropagation()} {...dialogProps}>
         <div className="modal-header">
-          <h3>{title}</h3>
-          <button className="modal-close-btn" onClick={onClose}>&times;</button>
+          <h3 id={titleId}>{title}</h3>
+          <button className="modal-close-btn" onClick={onClose} aria-label="Close">&times;</button>
         </div>
-        <div className="modal-body">
-          {formattedContent}
+        <div className="modal-body" aria-live="polite" aria-busy={isStreaming}>
+          {content && <Markdown text={content} />}
+          {isStreaming && <p className="suggestion-status">{content ? 'Writing...' : 'Waiting for the AI...'}</p>}
+          {status === 'stopped' && <p className="suggestion-status">Stopped. You can still use what was written so far.</p>}
         </div>
+        {status && (
+          <div className="modal-footer">
+            {onEditPrompt && <button className="section-control-btn suggestion-prompt-btn" onClick={onEditPrompt}>Edit prompt</button>}
+            {isStreaming
+              ? <button className="section-control-btn" onClick={onStop}>Stop</button>
+              : <button className="section-control-btn" onClick={onRegenerate}>Regenerate</button>}
+            <button className="section-control-btn" onClick={onAppend} disabled={!canApply} title="Add this after the field's current text">Append</button>
+            <button className="doc-save-btn" onClick={onInsert} disabled={!canApply} title="Replace the field's text with this">Insert</button>
+          </div>
+        )}
       </div>
     </div>
   );
 };
 
-const FormInput = ({ name, label, value, onChange, onFocus, getSuggestion, type = 'text', rows = 3, academicIndex, summaryIndex, placeholder }) => (
-  <div className="form-group">
-    <label htmlFor={name}>{label}</label>
+const ComplianceChecklist = ({ issues, onSelect }) => {
+  const errors = issues.filter(item => item.severity === 'error').length;
+  const warnings = issues.length - errors;
+
+  return (
+    <details className={`compliance-panel ${errors > 0 ? 'has-errors' : ''}`}>
+      <summary>
+        {issues.length === 0
+          ? '✓ Compliance checklist: no issues found'
+          : `Compliance checklist: ${errors} required item${errors === 1 ? '' : 's'} missing, ${warnings} warning${warnings === 1 ? '' : 's'}`}
+      </summary>
+      {issues.length > 0 && (
+        <ul className="compliance-list">
+          {issues.map(item => (
+            <li key={item.id}>
+              <button className={`compliance-issue ${item.severity}`} onClick={() => onSelect(item)}>
+                <span className="compliance-step">{STEPS[item.step]}</span>
+                {item.message}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </details>
+  );
+};
+
+// How sure the model was of a field it filled from a screenshot; undefined once the teacher edits it.
+const useFieldConfidence = (name, academicIndex, summaryIndex) => {
+  const confidence = useContext(FieldConfidenceContext)[fieldKey(name, academicIndex, summaryIndex)];
+  return { confidence, isLowConfidence: confidence !== undefined && confidence < LOW_CONFIDENCE_THRESHOLD };
+};
+
+const ConfidenceBadge = ({ confidence, isLowConfidence }) => confidence === undefined ? null : (
+  <span className={`confidence-badge ${isLowConfidence ? 'low' : ''}`} title="AI extraction confidence">
+    {isLowConfidence ? 'Review: ' : ''}{Math.round(confidence * 100)}%
+  </span>
+);
+
+const FormInput = ({ name, label, value, onChange, onFocus, getSuggestion, type = 'text', rows = 3, academicIndex = undefined, summaryIndex = undefined, placeholder = undefined }) => {
+  const { confidence, isLowConfidence } = useFieldConfidence(name, academicIndex, summaryIndex);
+  const id = fieldDomId(name, academicIndex, summaryIndex);
+
+  return (
+  <div className={`form-group ${isLowConfidence ? 'low-confidence' : ''}`}>
+    <label htmlFor={id}>
+      {label}
+      <ConfidenceBadge confidence={confidence} isLowConfidence={isLowConfidence} />
+    </label>
     <div className="input-wrapper">
       {type === 'textarea' ? (
-        <textarea id={name} name={name} value={value} onChange={onChange} onFocus={() => onFocus({ field: name, label, academicIndex, summaryIndex })} rows={rows} placeholder={placeholder} />
+        <textarea id={id} name={name} value={value} onChange={onChange} onFocus={() => onFocus({ field: name, label, academicIndex, summaryIndex })} rows={rows} placeholder={placeholder} />
       ) : (
-        <input type={type} id={name} name={name} value={value} onChange={onChange} onFocus={() => onFocus({ field: name, label, academicIndex, summaryIndex })} placeholder={placeholder} />
+        <input type={type} id={id} name={name} value={value} onChange={onChange} onFocus={() => onFocus({ field: name, label, academicIndex, summaryIndex })} placeholder={placeholder} />
       )}
-      <button className="suggestion-btn" title="Get AI Suggestion" onClick={() => getSuggestion(name, label)}>✨</button>
+      <button className="suggestion-btn" title="Get AI Suggestion (Alt+Shift+S)" aria-label={`Get AI suggestion for ${label}`} aria-keyshortcuts="Alt+Shift+S" onClick={() => getSuggestion(name, label, { academicIndex, summaryIndex })}>✨</button>
+    </div>
+  </div>
+  );
+};
+
+// A fixed-choice field. `options` are { value, label } pairs, offered after an empty "Select..." choice.
+const FormSelect = ({ name, label, value, options, onChange, onFocus, academicIndex = undefined, summaryIndex = undefined }) => {
+  const { confidence, isLowConfidence } = useFieldConfidence(name, academicIndex, summaryIndex);
+  const id = fieldDomId(name, academicIndex, summaryIndex);
+
+  return (
+    <div className={`form-group ${isLowConfidence ? 'low-confidence' : ''}`}>
+      <label htmlFor={id}>
+        {label}
+        <ConfidenceBadge confidence={confidence} isLowConfidence={isLowConfidence} />
+      </label>
+      <select id={id} name={name} value={value} onChange={onChange} onFocus={() => onFocus({ field: name, label, academicIndex, summaryIndex })}>
+        <option value="">Select...</option>
+        {options.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+      </select>
+    </div>
+  );
+};
+
+// Multi-select for array fields. Reports changes in the same { target: { name, value } } shape
+// as a native input so the step's regular change handler can store the array directly.
+const CheckboxGroup = ({ name, label, options, value = [], onChange }) => {
+  const toggle = (option) => {
+    const next = value.includes(option) ? value.filter(item => item !== option) : [...value, option];
+    onChange({ target: { name, value: options.filter(item => next.includes(item)) } });
+  };
+
+  const labelId = useId();
+
+  return (
+    <div className="form-group">
+      <label id={labelId}>{label}</label>
+      <div className="checkbox-group" role="group" aria-labelledby={labelId}>
+        {options.map(option => (
+          <label key={option} className="checkbox-option">
+            <input type="checkbox" checked={value.includes(option)} onChange={() => toggle(option)} />
+            {option}
+          </label>
+        ))}
+      </div>
     </div>
+  );
+};
+
+const SectionControls = ({ index, count, onAction }) => (
+  <div className="section-controls">
+    <button className="section-control-btn" onClick={() => onAction(index, 'moveUp')} disabled={index === 0} title="Move up" aria-label="Move section up">↑</button>
+    <button className="section-control-btn" onClick={() => onAction(index, 'moveDown')} disabled={index === count - 1} title="Move down" aria-label="Move section down">↓</button>
+    <button className="section-control-btn" onClick={() => onAction(index, 'duplicate')} title="Duplicate section">Duplicate</button>
+    <button className="section-control-btn section-remove-btn" onClick={() => onAction(index, 'remove')} title="Remove section">Remove</button>
   </div>
 );
 
-const IntroStep = ({ data, handleChange, getSuggestion, setActiveField }) => (
+// Rendered with a fresh `key` per action, so the dismiss timer restarts only when a new action happens.
+const UndoBar = ({ message, onUndo, onDismiss }) => {
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, 8000);
+    return () => clearTimeout(timer);
+  }, []);
+
+  return (
+    <div className="undo-bar" role="status">
+      <span>{message}</span>
+      <button className="undo-btn" onClick={onUndo}>Undo</button>
+    </div>
+  );
+};
+
+const RosterModal = ({ roster, onSaveStudent, onImport, onClose }) => {
+  const { titleId, dialogProps } = useDialog(onClose);
+  const [editing, setEditing] = useState(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const fileInputRef = useRef(null);
+  const bodyRef = useRef<HTMLDivElement>(null);
+  const isEditing = editing !== null;
+
+  // Switching between the list and the form removes the focused button, so focus moves to the
+  // first control of the view that replaced it.
+  useEffect(() => {
+    const body = bodyRef.current;
+    if (body && !body.contains(document.activeElement)) focusableElements(body)[0]?.focus();
+  }, [isEditing]);
+
+  const students = sortByName(Object.values<RosterStudent>(roster).filter(student => showArchived || !student.archived));
+
+  const handleEditChange = (e) => {
+    const { name, value } = e.target;
+    setEditing(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = () => {
+    if (!editing.name.trim()) {
+      alert('Please enter the student\'s name.');
+      return;
+    }
+    onSaveStudent({ ...editing, name: editing.name.trim() });
+    setEditing(null);
+  };
+
+  const handleFile = (e) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        const { students: imported, skipped } = parseRosterCsv(String(reader.result));
+        onImport(imported);
+        alert(`Imported ${imported.length} student(s).${skipped ? ` Skipped ${skipped} row(s) without a name.` : ''}`);
+      } catch (error) {
+        console.error("Failed to import roster CSV", error);
+        alert(`Could not import the roster: ${error.message}`);
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const rosterFields = [
+    { name: 'name', label: 'Name' },
+    { name: 'studentId', label: 'Student ID' },
+    { name: 'grade', label: 'Grade' },
+    { name: 'campus', label: 'Campus' },
+    { name: 'caseManager', label: 'Case Manager' },
+    { name: 'disabilities', label: 'Disability(ies)' },
+    { name: 'parentName', label: 'Parent Name(s)' },
+  ];
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content roster-modal" onClick={e => e.stopPropagation()} {...dialogProps}>
+        <div className="modal-header">
+          <h3 id={titleId}>Student Roster</h3>
+          <button className="modal-close-btn" onClick={onClose} aria-label="Close">&times;</button>
+        </div>
+        <div className="modal-body" ref={bodyRef}>
+          {editing ? (
+            <div className="roster-form">
+              {rosterFields.map(field => (
+                <div key={field.name} className="form-group">
+                  <label htmlFor={`roster-${field.name}`}>{field.label}</label>
+                  <input type="text" id={`roster-${field.name}`} name={field.name} value={editing[field.name]} onChange={handleEditChange} />
+                </div>
+              ))}
+              <div className="form-group">
+                <label htmlFor="roster-pronouns">Pronouns</label>
+                <select id="roster-pronouns" name="pronouns" value={editing.pronouns} onChange={handleEditChange}>
+                  <option value="">Select...</option>
+                  {Object.entries(PRONOUN_SETS).map(([key, set]) => (
+                    <option key={key} value={key}>{set.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="roster-actions">
+                <button className="doc-save-btn" onClick={handleSubmit}>Save Student</button>
+                <button className="section-control-btn" onClick={() => setEditing(null)}>Cancel</button>
+              </div>
+            </div>
+          ) : (
+            <>
+              <div className="roster-actions">
+                <button className="doc-save-btn" onClick={() => setEditing({ ...initialRosterStudent })}>+ Add Student</button>
+                <button className="section-control-btn" onClick={() => fileInputRef.current?.click()}>Import CSV</button>
+                <input ref={fileInputRef} type="file" accept=".csv,text/csv" onChange={handleFile} hidden />
+                <label className="checkbox-option">
+                  <input type="checkbox" checked={showArchived} onChange={(e) => setShowArchived(e.target.checked)} />
+                  Show archived
+                </label>
+              </div>
+              <p className="api-key-note">CSV columns: Name, Student ID, Grade, Campus, Case Manager, Pronouns, Disabilities, Parent Name.</p>
+              {students.length > 0 ? (
+                <table className="roster-table">
+                  <thead>
+                    <tr><th>Name</th><th>Student ID</th><th>Grade</th><th>Campus</th><th>Case Manager</th><th></th></tr>
+                  </thead>
+                  <tbody>
+                    {students.map(student => (
+                      <tr key={student.id} className={student.archived ? 'archived' : ''}>
+                        <td>{student.name}</td>
+                        <td>{student.studentId}</td>
+                        <td>{student.grade}</td>
+                        <td>{student.campus}</td>
+                        <td>{student.caseManager}</td>
+                        <td className="roster-row-actions">
+                          <button className="section-control-btn" onClick={() => setEditing({ ...initialRosterStudent, ...student })}>Edit</button>
+                          <button className="section-control-btn" onClick={() => onSaveStudent({ ...student, archived: !student.archived })}>
+                            {student.archived ? 'Restore' : 'Archive'}
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <div className="doc-item-empty">No students yet. Add one or import a caseload CSV.</div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Select value for a document whose studentName is not linked to any roster student.
+const UNLINKED_STUDENT = '__unlinked__';
+
+const IntroStep = ({ data, roster, onSelectStudent, onManageRoster, handleChange, getSuggestion, setActiveField }) => {
+  const students = sortByName(Object.values<RosterStudent>(roster).filter(student => !student.archived || student.id === data.rosterStudentId));
+  const selectValue = data.rosterStudentId || (data.studentName ? UNLINKED_STUDENT : '');
+  const thisYear = schoolYearFor(new Date());
+  const firstYear = Number(thisYear.slice(0, 4));
+  const schoolYears = [...new Set([1, 0, -1, -2, -3].map(offset => `${firstYear + offset}-${firstYear + offset + 1}`).concat(data.schoolYear || []))]
+    .sort((a, b) => b.localeCompare(a));
+
+  return (
   <div className="form-section">
     <h2>Introductory Paragraph</h2>
     <div className="form-group">
       <label htmlFor="studentName">Student Name</label>
-      <div className="input-wrapper">
+      <div className="input-wrapper roster-select">
         <select
           id="studentName"
           name="studentName"
-          value={data.studentName}
-          onChange={handleChange}
+          value={selectValue}
+          onChange={(e) => onSelectStudent(e.target.value)}
           onFocus={() => setActiveField({ field: 'studentName', label: 'Student Name' })}
         >
-          <option value="">Select a student...</option>
-          {FAKE_STUDENT_NAMES.map(name => (
-            <option key={name} value={name}>{name}</option>
+          <option value="">{students.length > 0 ? 'Select a student...' : 'No students on roster yet'}</option>
+          {selectValue === UNLINKED_STUDENT && (
+            <option value={UNLINKED_STUDENT} disabled>{data.studentName} (not on roster)</option>
+          )}
+          {students.map(student => (
+            <option key={student.id} value={student.id}>
+              {student.name}{student.studentId ? ` (${student.studentId})` : ''}{student.archived ? ' - archived' : ''}
+            </option>
           ))}
         </select>
+        <button className="roster-manage-btn" onClick={onManageRoster}>Manage Roster</button>
       </div>
     </div>
+    <div className="form-group">
+        <label htmlFor="pronouns">Student Pronouns</label>
+        <select id="pronouns" name="pronouns" value={data.pronouns} onChange={handleChange} onFocus={() => setActiveField({field: 'pronouns', label: 'Student Pronouns'})}>
+            <option value="">Select...</option>
+            {Object.entries(PRONOUN_SETS).map(([key, set]) => (
+              <option key={key} value={key}>{set.label}</option>
+            ))}
+        </select>
+    </div>
     <FormInput name="grade" label="Grade" value={data.grade} onChange={handleChange} onFocus={setActiveField} getSuggestion={getSuggestion} />
+    <FormInput name="dateOfBirth" label="Date of Birth" value={data.dateOfBirth} onChange={handleChange} onFocus={setActiveField} getSuggestion={getSuggestion} type="date" />
+    <div className="form-group">
+        <label htmlFor="schoolYear">School Year</label>
+        <select id="schoolYear" name="schoolYear" value={data.schoolYear} onChange={handleChange} onFocus={() => setActiveField({field: 'schoolYear', label: 'School Year'})}>
+            <option value="">Set when saved ({thisYear})</option>
+            {schoolYears.map(year => <option key={year} value={year}>{year}</option>)}
+        </select>
+    </div>
+    <FormInput name="ardDate" label="ARD Date" value={data.ardDate} onChange={handleChange} onFocus={setActiveField} getSuggestion={getSuggestion} type="date" />
     <FormInput name="disabilities" label="Disability(ies)" value={data.disabilities} onChange={handleChange} onFocus={setActiveField} getSuggestion={getSuggestion} />
     <FormInput name="subjects" label="Subjects/Courses" value={data.subjects} onChange={handleChange} onFocus={setActiveField} getSuggestion={getSuggestion} />
     <FormInput name="cognitiveDeficits" label="Cognitive Deficits" value={data.cognitiveDeficits} onChange={handleChange} onFocus={setActiveField} getSuggestion={getSuggestion} />
     <FormInput name="academicDeficits" label="Academic Deficits" value={data.academicDeficits} onChange={handleChange} onFocus={setActiveField} getSuggestion={getSuggestion} />
     <FormInput name="disabilityImpact" label="Impact of Disability" value={data.disabilityImpact} onChange={handleChange} onFocus={setActiveField} getSuggestion={getSuggestion} type="textarea" />
     <div className="form-group">
-        <label>Deficit Type</label>
-        <select name="deficitType" value={data.deficitType} onChange={handleChange} onFocus={() => setActiveField({field: 'deficitType', label: 'Deficit Type'})}>
+        <label htmlFor="deficitType">Deficit Type</label>
+        <select id="deficitType" name="deficitType" value={data.deficitType} onChange={handleChange} onFocus={() => setActiveField({field: 'deficitType', label: 'Deficit Type'})}>
             <option value="">Select...</option>
             <option value="normative">Normative - compared to same-age peers</option>
             <option value="relative">Relative - compared to student's own abilities</option>
@@ -558,59 +6348,234 @@ const IntroStep = ({ data, handleChange, getSuggestion, setActiveField }) => (
     <FormInput name="relatedServices" label="Related Services" value={data.relatedServices} onChange={handleChange} onFocus={setActiveField} getSuggestion={getSuggestion} />
     <FormInput name="accommodations" label="Accommodations" value={data.accommodations} onChange={handleChange} onFocus={setActiveField} getSuggestion={getSuggestion} />
   </div>
-);
+  );
+};
+
+// Browses the offline TEKS catalog for the section's course and toggles codes in a STAAR field.
+const TeksPicker = ({ course, name, value, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [categoryId, setCategoryId] = useState(0);
+  const items = splitStaarAreas(value);
+  const selectedCodes = parseTeksCodes(value);
+  const unrecognized = course ? unrecognizedStaarAreas(value, course) : [];
+
+  if (!course) {
+    return <p className="field-hint">Enter a math or reading subject and the student's grade to browse the TEKS catalog.</p>;
+  }
+
+  const toggle = (code) => {
+    const next = selectedCodes.includes(code)
+      ? items.filter(item => !parseTeksCodes(item).includes(code))
+      : [...items, code];
+    onChange({ target: { name, value: next.join(', ') } });
+  };
+
+  return (
+    <div className="teks-picker">
+      <div className="teks-chips">
+        {items.map(item => {
+          const expectation = findExpectation(course, parseTeksCodes(item)[0]);
+          return (
+            <span key={item} className={`teks-chip ${unrecognized.includes(item) ? 'unrecognized' : ''}`} title={expectation ? expectation.description : unrecognized.includes(item) ? `Not a ${course.name} reporting category or TEKS code` : parseTeksCodes(item).length > 0 ? 'TEKS student expectation' : 'Reporting category'}>
+              {item}
+            </span>
+          );
+        })}
+        <button className="section-control-btn" onClick={() => setIsOpen(!isOpen)}>{isOpen ? 'Close TEKS' : `Browse ${course.name} TEKS`}</button>
+      </div>
+      {isOpen && (
+        <div className="teks-panel">
+          <div className="teks-filters">
+            <input type="search" value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Search by code or words, e.g. fractions" aria-label="Search TEKS" />
+            <select value={categoryId} onChange={(e) => setCategoryId(Number(e.target.value))} aria-label="Reporting category">
+              <option value={0}>All reporting categories</option>
+              {course.categories.map(category => <option key={category.id} value={category.id}>{category.id}. {category.name}</option>)}
+            </select>
+          </div>
+          <ul className="teks-results">
+            {searchTeks(course, query, categoryId).map(expectation => (
+              <li key={expectation.code}>
+                <label>
+                  <input type="checkbox" checked={selectedCodes.includes(expectation.code)} onChange={() => toggle(expectation.code)} />
+                  <strong>{expectation.code}</strong> {expectation.description}
+                </label>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const CHART_WIDTH = 480;
+const CHART_HEIGHT = 180;
+const CHART_PADDING = { top: 12, right: 16, bottom: 28, left: 44 };
+
+// Scores over time for one measure, with the least-squares trend dashed.
+const ProgressChart = ({ summary }) => {
+  const { points, trend } = summary;
+  const days = points.map(point => parseIsoDate(point.date).getTime() / DAY_MS);
+  const scores = points.map(point => parseNumber(point.score));
+  const trendEnds = trend ? [trend.at(days[0]), trend.at(days[days.length - 1])] : [];
+  const low = Math.min(...scores, ...trendEnds);
+  const high = Math.max(...scores, ...trendEnds);
+  const margin = (high - low) * 0.1 || Math.abs(high) * 0.1 || 1;
+  const [minY, maxY] = [low - margin, high + margin];
+  const [minX, maxX] = [days[0], days[days.length - 1]];
+  const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+  const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+  const x = (day) => CHART_PADDING.left + (maxX === minX ? plotWidth / 2 : (day - minX) / (maxX - minX) * plotWidth);
+  const y = (score) => CHART_PADDING.top + (maxY - score) / (maxY - minY) * plotHeight;
+  const bottom = CHART_HEIGHT - CHART_PADDING.bottom;
+
+  return (
+    <svg className="progress-chart" viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} role="img" aria-label={`${summary.measure}: ${describeMeasure(summary)}`}>
+      <line className="axis" x1={CHART_PADDING.left} y1={CHART_PADDING.top} x2={CHART_PADDING.left} y2={bottom} />
+      <line className="axis" x1={CHART_PADDING.left} y1={bottom} x2={CHART_WIDTH - CHART_PADDING.right} y2={bottom} />
+      <text className="axis-label" x={CHART_PADDING.left - 6} y={y(high) + 4} textAnchor="end">{formatNumber(high)}</text>
+      <text className="axis-label" x={CHART_PADDING.left - 6} y={y(low) + 4} textAnchor="end">{formatNumber(low)}</text>
+      <text className="axis-label" x={x(minX)} y={CHART_HEIGHT - 8} textAnchor={maxX === minX ? 'middle' : 'start'}>{formatShortDate(points[0].date)}</text>
+      {maxX !== minX && <text className="axis-label" x={x(maxX)} y={CHART_HEIGHT - 8} textAnchor="end">{formatShortDate(points[points.length - 1].date)}</text>}
+      {trend && <line className="trend-line" x1={x(minX)} y1={y(trendEnds[0])} x2={x(maxX)} y2={y(trendEnds[1])} />}
+      <polyline className="score-line" points={days.map((day, i) => `${x(day)},${y(scores[i])}`).join(' ')} />
+      {points.map((point, i) => (
+        <circle key={point.id} className="score-point" cx={x(days[i])} cy={y(scores[i])} r={4}>
+          <title>{`${formatShortDate(point.date)}: ${point.score}${point.percentile ? ` (${point.percentile} percentile)` : ''}${point.source ? ` - ${point.source}` : ''}`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+const DataPointsEditor = ({ section, index, onChange }) => {
+  const summaries = summarizeProgress(section);
+  const measures = [...new Set<string>(section.dataPoints.map(point => point.measure.trim()).filter(Boolean))];
+  const listId = `measures-${section.id}`;
+
+  const updatePoint = (pointId, field, value) => onChange(
+    index,
+    'Edit data point',
+    points => points.map(point => point.id === pointId ? { ...point, [field]: value } : point),
+    `dataPoints:${pointId}:${field}`
+  );
+  const addPoint = () => {
+    const last = section.dataPoints[section.dataPoints.length - 1];
+    // A new row usually continues the last measure, so carry its measure and source.
+    const point = { id: createId(), ...initialDataPoint, date: new Date().toISOString().slice(0, 10), measure: last?.measure || '', source: last?.source || '' };
+    onChange(index, 'Add data point', points => [...points, point]);
+  };
+  const removePoint = (pointId) => onChange(index, 'Remove data point', points => points.filter(point => point.id !== pointId));
+
+  return (
+    <div className="form-group data-points">
+      <label>Progress Data Points</label>
+      <p className="field-hint">When scores are recorded here, the narrative's current-data and peer-comparison sentences are written from them instead of the text fields below.</p>
+      {section.dataPoints.length > 0 && (
+        <table className="data-points-table">
+          <thead>
+            <tr><th>Date</th><th>Measure</th><th>Score</th><th>Percentile</th><th>Source</th><th></th></tr>
+          </thead>
+          <tbody>
+            {section.dataPoints.map(point => (
+              <tr key={point.id}>
+                <td><input type="date" aria-label="Date" value={point.date} onChange={(e) => updatePoint(point.id, 'date', e.target.value)} /></td>
+                <td><input type="text" aria-label="Measure" list={listId} value={point.measure} placeholder="e.g., ORF (WCPM)" onChange={(e) => updatePoint(point.id, 'measure', e.target.value)} /></td>
+                <td><input type="text" aria-label="Score" inputMode="decimal" value={point.score} onChange={(e) => updatePoint(point.id, 'score', e.target.value)} /></td>
+                <td><input type="text" aria-label="Percentile" inputMode="decimal" value={point.percentile} onChange={(e) => updatePoint(point.id, 'percentile', e.target.value)} /></td>
+                <td><input type="text" aria-label="Source" value={point.source} placeholder="e.g., MAP, CBM" onChange={(e) => updatePoint(point.id, 'source', e.target.value)} /></td>
+                <td><button className="doc-delete-btn" onClick={() => removePoint(point.id)} title="Remove this data point" aria-label="Remove this data point">×</button></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      <datalist id={listId}>
+        {measures.map(measure => <option key={measure} value={measure} />)}
+      </datalist>
+      <button className="section-control-btn" onClick={addPoint}>+ Add Data Point</button>
+      {summaries.map(summary => (
+        <div key={summary.measure} className="progress-summary">
+          <h4>{summary.measure}</h4>
+          <ProgressChart summary={summary} />
+          <dl className="progress-stats">
+            <div><dt>Latest</dt><dd>{summary.latest.score}</dd></div>
+            <div><dt>Change</dt><dd>{summary.change > 0 ? '+' : ''}{formatNumber(summary.change)}</dd></div>
+            <div><dt>Trend</dt><dd>{summary.trend ? `${summary.trend.perWeek >= 0 ? '+' : ''}${formatNumber(summary.trend.perWeek)}/week` : 'Needs 2+ dates'}</dd></div>
+            <div><dt>Percentile</dt><dd>{summary.percentile ?? '—'}</dd></div>
+            <div><dt>Gap to peers</dt><dd>{summary.gap === null ? '—' : `${formatNumber(summary.gap)} pts (peers at ${summary.peerPercentile})`}</dd></div>
+          </dl>
+        </div>
+      ))}
+    </div>
+  );
+};
 
-const AcademicsStep = ({ data, handleAcademicChange, handleAddAcademicSection, getSuggestion, setActiveField }) => (
+const AcademicsStep = ({ data, handleAcademicChange, handleDataPointsChange, handleAddAcademicSection, onSectionAction, getSuggestion, setActiveField }) => (
   <div className="form-section">
     <h2>Academics</h2>
-    {data.academicSections.map((section, index) => (
+    {data.academicSections.map((section, index) => {
+      const course = teksCourseFor(section.subject, data.grade);
+      return (
       <div key={section.id} className="academic-section">
-        <h3>Academic Section {index + 1}</h3>
+        <div className="section-header">
+          <h3>Academic Section {index + 1}</h3>
+          <SectionControls index={index} count={data.academicSections.length} onAction={onSectionAction} />
+        </div>
         <FormInput name="subject" label="Subject/Course" value={section.subject} onChange={(e) => handleAcademicChange(index, e)} onFocus={setActiveField} getSuggestion={getSuggestion} academicIndex={index} />
         <FormInput name="staarProficient" label="STAAR Proficient Areas (TEKS)" value={section.staarProficient} onChange={(e) => handleAcademicChange(index, e)} onFocus={setActiveField} getSuggestion={getSuggestion} academicIndex={index} />
+        <TeksPicker course={course} name="staarProficient" value={section.staarProficient} onChange={(e) => handleAcademicChange(index, e)} />
         <FormInput name="staarDeficits" label="STAAR Deficit Areas (TEKS)" value={section.staarDeficits} onChange={(e) => handleAcademicChange(index, e)} onFocus={setActiveField} getSuggestion={getSuggestion} academicIndex={index} />
+        <TeksPicker course={course} name="staarDeficits" value={section.staarDeficits} onChange={(e) => handleAcademicChange(index, e)} />
+        <CheckboxGroup name="progressDataSources" label="Progress Data Sources" options={PROGRESS_DATA_SOURCES} value={section.progressDataSources} onChange={(e) => handleAcademicChange(index, e)} />
+        <FormSelect name="performanceComparison" label="Progress Since Last ARD" value={section.performanceComparison} options={PROGRESS_OUTCOMES.map(outcome => ({ value: outcome, label: outcome.charAt(0).toUpperCase() + outcome.slice(1) }))} onChange={(e) => handleAcademicChange(index, e)} onFocus={setActiveField} academicIndex={index} />
+        <DataPointsEditor section={section} index={index} onChange={handleDataPointsChange} />
+        <FormInput name="currentData" label="Current Data" value={section.currentData} onChange={(e) => handleAcademicChange(index, e)} onFocus={setActiveField} getSuggestion={getSuggestion} academicIndex={index} type="textarea" />
+        {section.performanceComparison && section.performanceComparison !== 'has made progress' && (
+          <FormInput name="noProgressReason" label="Reason for Limited Progress" value={section.noProgressReason} onChange={(e) => handleAcademicChange(index, e)} onFocus={setActiveField} getSuggestion={getSuggestion} academicIndex={index} type="textarea" />
+        )}
         <FormInput name="readingFluency" label="Reading Fluency (Score/Percentile)" value={section.readingFluency} onChange={(e) => handleAcademicChange(index, e)} onFocus={setActiveField} getSuggestion={getSuggestion} academicIndex={index} />
         <FormInput name="readingComprehension" label="Reading Comprehension (Score/Percentile)" value={section.readingComprehension} onChange={(e) => handleAcademicChange(index, e)} onFocus={setActiveField} getSuggestion={getSuggestion} academicIndex={index} />
         <FormInput name="mathProblemSolving" label="Math Problem-Solving (Score/Percentile)" value={section.mathProblemSolving} onChange={(e) => handleAcademicChange(index, e)} onFocus={setActiveField} getSuggestion={getSuggestion} academicIndex={index} />
+        <FormInput name="peerComparisonGradeLevel" label="Grade-Level Peer Expectation" value={section.peerComparisonGradeLevel} onChange={(e) => handleAcademicChange(index, e)} onFocus={setActiveField} getSuggestion={getSuggestion} academicIndex={index} placeholder="e.g., read 120 words correct per minute" />
+        <FormInput name="peerComparisonStudent" label="Student Performance Compared to Peers" value={section.peerComparisonStudent} onChange={(e) => handleAcademicChange(index, e)} onFocus={setActiveField} getSuggestion={getSuggestion} academicIndex={index} placeholder="e.g., reads 72 words correct per minute" />
+        <FormInput name="benchmarkPercentile" label="Student Benchmark Percentile" value={section.benchmarkPercentile} onChange={(e) => handleAcademicChange(index, e)} onFocus={setActiveField} getSuggestion={getSuggestion} academicIndex={index} />
+        <FormInput name="peerBenchmarkPercentile" label="Peer Benchmark Percentile" value={section.peerBenchmarkPercentile} onChange={(e) => handleAcademicChange(index, e)} onFocus={setActiveField} getSuggestion={getSuggestion} academicIndex={index} />
+        <FormInput name="supportsPerformance" label="Supports Provided" value={section.supportsPerformance} onChange={(e) => handleAcademicChange(index, e)} onFocus={setActiveField} getSuggestion={getSuggestion} academicIndex={index} placeholder="e.g., small group instruction, chunked assignments" />
+        <FormInput name="withSupports" label="Performance With Supports" value={section.withSupports} onChange={(e) => handleAcademicChange(index, e)} onFocus={setActiveField} getSuggestion={getSuggestion} academicIndex={index} type="textarea" />
+        <FormInput name="withoutSupports" label="Performance Without Supports" value={section.withoutSupports} onChange={(e) => handleAcademicChange(index, e)} onFocus={setActiveField} getSuggestion={getSuggestion} academicIndex={index} type="textarea" />
         <FormInput name="classroomStrengths" label="Classroom Strengths" value={section.classroomStrengths} onChange={(e) => handleAcademicChange(index, e)} onFocus={setActiveField} getSuggestion={getSuggestion} academicIndex={index} type="textarea" />
         <FormInput name="classroomDeficits" label="Classroom Deficits" value={section.classroomDeficits} onChange={(e) => handleAcademicChange(index, e)} onFocus={setActiveField} getSuggestion={getSuggestion} academicIndex={index} type="textarea" />
         <FormInput name="deficitsEvidence" label="Evidence of Deficits" value={section.deficitsEvidence} onChange={(e) => handleAcademicChange(index, e)} onFocus={setActiveField} getSuggestion={getSuggestion} academicIndex={index} type="textarea" />
+        <FormInput name="strengthsDespiteDeficits" label="Strengths Despite Deficits" value={section.strengthsDespiteDeficits} onChange={(e) => handleAcademicChange(index, e)} onFocus={setActiveField} getSuggestion={getSuggestion} academicIndex={index} type="textarea" />
         <FormInput name="criticalNeeds" label="Critical Areas of Need" value={section.criticalNeeds} onChange={(e) => handleAcademicChange(index, e)} onFocus={setActiveField} getSuggestion={getSuggestion} academicIndex={index} type="textarea" />
+        <FormInput name="independentAccessImpact" label="Impact on Independent Access" value={section.independentAccessImpact} onChange={(e) => handleAcademicChange(index, e)} onFocus={setActiveField} getSuggestion={getSuggestion} academicIndex={index} type="textarea" />
       </div>
-    ))}
+      );
+    })}
     <button className="add-section-btn" onClick={handleAddAcademicSection}>+ Add Academic Section</button>
   </div>
 );
 
-const PerformanceSummaryStep = ({ data, handlePerformanceSummaryChange, handleAddPerformanceSummarySection, getSuggestion, setActiveField }) => (
+const PerformanceSummaryStep = ({ data, handlePerformanceSummaryChange, handleAddPerformanceSummarySection, onSectionAction, getSuggestion, setActiveField }) => (
     <div className="form-section">
       <h2>Summary of Performance</h2>
       {data.performanceSummarySections.map((section, index) => (
         <div key={section.id} className="academic-section">
-          <h3>Summary for Subject {index + 1}</h3>
-          <FormInput name="subject" label="Subject" value={section.subject} onChange={(e) => handlePerformanceSummaryChange(index, e)} onFocus={setActiveField} getSuggestion={getSuggestion} summaryIndex={index} />
-          <div className="form-group">
-              <label>State Assessment Outcome</label>
-              <select name="passedStateAssessment" value={section.passedStateAssessment} onChange={(e) => handlePerformanceSummaryChange(index, e)} onFocus={() => setActiveField({field: 'passedStateAssessment', label: 'State Assessment Outcome', summaryIndex: index})}>
-                  <option value="">Select...</option>
-                  <option value="passed">Passed</option>
-                  <option value="did not pass">Did not pass</option>
-              </select>
+          <div className="section-header">
+            <h3>Summary for Subject {index + 1}</h3>
+            <SectionControls index={index} count={data.performanceSummarySections.length} onAction={onSectionAction} />
           </div>
+          <FormInput name="subject" label="Subject" value={section.subject} onChange={(e) => handlePerformanceSummaryChange(index, e)} onFocus={setActiveField} getSuggestion={getSuggestion} summaryIndex={index} />
+          <FormSelect name="passedStateAssessment" label="State Assessment Outcome" value={section.passedStateAssessment} options={[{ value: 'passed', label: 'Passed' }, { value: 'did not pass', label: 'Did not pass' }]} onChange={(e) => handlePerformanceSummaryChange(index, e)} onFocus={setActiveField} summaryIndex={index} />
           <FormInput name="taksScore" label="TAKS/STAAR Scale Score" value={section.taksScore} onChange={(e) => handlePerformanceSummaryChange(index, e)} onFocus={setActiveField} getSuggestion={getSuggestion} summaryIndex={index} />
           <FormInput name="rawScore" label="Raw Score" value={section.rawScore} onChange={(e) => handlePerformanceSummaryChange(index, e)} onFocus={setActiveField} getSuggestion={getSuggestion} summaryIndex={index} />
           <FormInput name="percentCorrect" label="Percent Correct" value={section.percentCorrect} onChange={(e) => handlePerformanceSummaryChange(index, e)} onFocus={setActiveField} getSuggestion={getSuggestion} summaryIndex={index} />
           <FormInput name="gradeInSubject" label="Grade in Subject" value={section.gradeInSubject} onChange={(e) => handlePerformanceSummaryChange(index, e)} onFocus={setActiveField} getSuggestion={getSuggestion} summaryIndex={index} />
           <FormInput name="accommodations" label="Accommodations / Modifications / Assistive Technology" value={section.accommodations} onChange={(e) => handlePerformanceSummaryChange(index, e)} onFocus={setActiveField} getSuggestion={getSuggestion} summaryIndex={index} type="textarea" />
           <FormInput name="needs" label="Needs due to disability" value={section.needs} onChange={(e) => handlePerformanceSummaryChange(index, e)} onFocus={setActiveField} getSuggestion={getSuggestion} summaryIndex={index} type="textarea" />
-          <div className="form-group">
-              <label>Receives Special Education Support</label>
-              <select name="receivesSpecialEdSupport" value={section.receivesSpecialEdSupport} onChange={(e) => handlePerformanceSummaryChange(index, e)} onFocus={() => setActiveField({field: 'receivesSpecialEdSupport', label: 'Receives Special Education Support', summaryIndex: index})}>
-                  <option value="">Select...</option>
-                  <option value="receives">Receives</option>
-                  <option value="does not receive">Does not receive</option>
-              </select>
-          </div>
+          <FormSelect name="receivesSpecialEdSupport" label="Receives Special Education Support" value={section.receivesSpecialEdSupport} options={[{ value: 'receives', label: 'Receives' }, { value: 'does not receive', label: 'Does not receive' }]} onChange={(e) => handlePerformanceSummaryChange(index, e)} onFocus={setActiveField} summaryIndex={index} />
           <FormInput name="strengths" label="PLAAFP Strengths for Subject" value={section.strengths} onChange={(e) => handlePerformanceSummaryChange(index, e)} onFocus={setActiveField} getSuggestion={getSuggestion} summaryIndex={index} type="textarea" />
         </div>
       ))}
@@ -635,6 +6600,8 @@ const TransitionStep = ({ data, handleChange, getSuggestion, setActiveField }) =
       <FormInput name="transitionSupportNeeds" label="Support Needs" value={data.transitionSupportNeeds} onChange={handleChange} onFocus={setActiveField} getSuggestion={getSuggestion} />
       <FormInput name="transitionIndependentLiving" label="Independent Living Skills" value={data.transitionIndependentLiving} onChange={handleChange} onFocus={setActiveField} getSuggestion={getSuggestion} />
       <FormInput name="transitionSchedules" label="Follows Schedules (visual/verbal)" value={data.transitionSchedules} onChange={handleChange} onFocus={setActiveField} getSuggestion={getSuggestion} />
+      <FormInput name="transitionResponsibility" label="Responsibility" value={data.transitionResponsibility} onChange={handleChange} onFocus={setActiveField} getSuggestion={getSuggestion} placeholder="e.g., completes chores, manages materials, self-advocates" />
+      <FormInput name="transitionParticipation" label="Participation" value={data.transitionParticipation} onChange={handleChange} onFocus={setActiveField} getSuggestion={getSuggestion} placeholder="e.g., clubs, community activities, transition planning" />
       <FormInput name="transitionEmploymentGoal" label="Post-High School Employment Goal" value={data.transitionEmploymentGoal} onChange={handleChange} onFocus={setActiveField} getSuggestion={getSuggestion} />
       <FormInput name="parentName" label="Parent Name(s)" value={data.parentName} onChange={handleChange} onFocus={setActiveField} getSuggestion={getSuggestion} />
       <FormInput name="parentEmploymentPlan" label="Parent's Employment Plan (full/part-time)" value={data.parentEmploymentPlan} onChange={handleChange} onFocus={setActiveField} getSuggestion={getSuggestion} />
@@ -643,31 +6610,115 @@ const TransitionStep = ({ data, handleChange, getSuggestion, setActiveField }) =
     </div>
 );
 
+// Edited as text and committed on blur, so typing a comma doesn't get tidied away mid-entry.
+const TeksListInput = ({ id, value, onChange }) => {
+  const [text, setText] = useState(value.join(', '));
+  useEffect(() => setText(value.join(', ')), [value.join('|')]);
+  const commit = () => onChange(text.split(/[,;]/).map(code => code.trim()).filter(Boolean));
+  return <input type="text" id={id} value={text} onChange={(e) => setText(e.target.value)} onBlur={commit} placeholder="e.g., 5.6(F), 5.7(C)" />;
+};
+
+const GoalsStep = ({ data, onGoalChange, onProposeGoals, onAddGoal, onSectionAction }) => (
+  <div className="form-section">
+    <h2>Annual Goals</h2>
+    <p className="field-hint">Proposed goals are built from each academic section's deficits and baseline data and from the functional deficits. Edit them until every part is specific and measurable.</p>
+    <div className="goal-actions">
+      <button className="draft-btn" onClick={onProposeGoals}>✨ Propose Goals from PLAAFP</button>
+    </div>
+    {data.goals.map((goal, index) => {
+      const problems = validateGoal(goal, data);
+      const areaValue = goal.area === 'functional' ? 'functional' : goal.sectionId;
+      const field = (name, label, placeholder, type = 'text') => (
+        <div className="form-group">
+            <label htmlFor={goalDomId(index, name)}>{label}</label>
+            {type === 'textarea' ? (
+              <textarea id={goalDomId(index, name)} value={goal[name]} rows={2} placeholder={placeholder} onChange={(e) => onGoalChange(index, name, e.target.value)} />
+            ) : (
+              <input type="text" id={goalDomId(index, name)} value={goal[name]} placeholder={placeholder} onChange={(e) => onGoalChange(index, name, e.target.value)} />
+            )}
+        </div>
+      );
+      return (
+        <div key={goal.id} className="academic-section goal-card">
+          <div className="section-header">
+            <h3>Goal {index + 1}: {goalAreaName(goal, data)}</h3>
+            <SectionControls index={index} count={data.goals.length} onAction={onSectionAction} />
+          </div>
+          <div className="form-group">
+              <label htmlFor={goalDomId(index, 'sectionId')}>Area</label>
+              <select id={goalDomId(index, 'sectionId')} value={areaValue} onChange={(e) => onGoalChange(index, 'area', e.target.value)}>
+                  <option value="">Select...</option>
+                  {data.academicSections.map((section, i) => (
+                    <option key={section.id} value={section.id}>Academic: {section.subject.trim() || `Section ${i + 1}`}</option>
+                  ))}
+                  <option value="functional">Functional</option>
+              </select>
+          </div>
+          {field('timeframe', 'Timeframe', 'e.g., By May 2027')}
+          {field('condition', 'Condition', 'e.g., given a grade-level passage')}
+          {field('behavior', 'Behavior', 'e.g., read aloud')}
+          {field('criterion', 'Criterion', 'e.g., at 95 words correct per minute on 3 consecutive probes', 'textarea')}
+          {field('baseline', 'Baseline', 'Present level the goal starts from', 'textarea')}
+          {goal.area === 'academic' && (
+            <div className="form-group">
+                <label htmlFor={goalDomId(index, 'teks')}>Linked TEKS</label>
+                <TeksListInput id={goalDomId(index, 'teks')} value={goal.teks} onChange={(teks) => onGoalChange(index, 'teks', teks)} />
+            </div>
+          )}
+          <p className="goal-statement">
+            {goal.timeframe || '(timeframe)'}, {goal.condition || '(condition)'}, {data.studentName || 'the student'} will {goal.behavior || '(behavior)'} {goal.criterion || '(criterion)'}.
+          </p>
+          {problems.length > 0 && (
+            <ul className="goal-problems">
+              {problems.map(problem => <li key={problem.field + problem.message} className={problem.severity}>{problem.message}</li>)}
+            </ul>
+          )}
+        </div>
+      );
+    })}
+    <button className="add-section-btn" onClick={onAddGoal}>+ Add Goal</button>
+  </div>
+);
+
+// Announced through the App's status region rather than here, since a live region has to exist
+// before its text changes to be read out.
 const LoadingOverlay = ({ message }) => (
   <div className="loading-overlay">
-    <div className="spinner"></div>
+    <div className="spinner" aria-hidden="true"></div>
     <span>{message}</span>
   </div>
 );
 
-const ImageExtractor = ({ onImagePaste, isActive }) => {
+// Accepts screenshots and PDFs by paste, drag-and-drop or file picker. In "field" mode the file
+// fills the focused field; in "section" mode it fills every relevant field of one section.
+const ImageExtractor = ({ onExtract, isActive, sectionTargets, defaultTarget, lastExtraction }) => {
+  const [mode, setMode] = useState('field');
+  const [target, setTarget] = useState('');
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef(null);
+  const selectedTarget = sectionTargets.some(option => option.value === target) ? target : (defaultTarget || sectionTargets[0]?.value || '');
+
+  const handleFile = useCallback((file) => {
+    if (!file || !(file.type.startsWith('image/') || file.type === 'application/pdf')) return false;
+    // Without a section there is nothing to fill; the hint asks the teacher to add one.
+    if (mode === 'section' && !selectedTarget) return false;
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      if (e.target?.result && typeof e.target.result === 'string') {
+        const base64 = (e.target.result).split(',')[1];
+        onExtract({ data: base64, mimeType: file.type, name: file.name }, mode === 'section' ? selectedTarget : null);
+      }
+    };
+    reader.readAsDataURL(file);
+    return true;
+  }, [onExtract, mode, selectedTarget]);
+
   const handlePaste = useCallback((event) => {
     const items = event.clipboardData?.files;
-    if (items && items.length > 0) {
-      const file = items[0];
-      if (file.type.startsWith('image/')) {
-        event.preventDefault();
-        const reader = new FileReader();
-        reader.onload = (e) => {
-          if (e.target?.result && typeof e.target.result === 'string') {
-            const base64 = (e.target.result).split(',')[1];
-            onImagePaste(base64, file.type);
-          }
-        };
-        reader.readAsDataURL(file);
-      }
+    if (items && items.length > 0 && handleFile(items[0])) {
+      event.preventDefault();
     }
-  }, [onImagePaste]);
+  }, [handleFile]);
 
   useEffect(() => {
     window.addEventListener('paste', handlePaste);
@@ -676,91 +6727,245 @@ const ImageExtractor = ({ onImagePaste, isActive }) => {
     };
   }, [handlePaste]);
 
+  const handleDrop = (e) => {
+    e.preventDefault();
+    setIsDragging(false);
+    handleFile(e.dataTransfer.files?.[0]);
+  };
+
+  const isReady = mode === 'section' ? !!selectedTarget : isActive;
+  const hint = mode === 'section'
+    ? (selectedTarget ? 'Ready! Paste, drop or choose a STAAR/benchmark report (image or PDF).' : 'Add an academic or summary section first.')
+    : (isActive ? 'Ready! Paste, drop or choose a screenshot or PDF.' : 'First, click into a text field you want to fill.');
+
   return (
-    <div className={`image-extractor ${isActive ? 'active' : ''}`}>
-      <h3>🖼️ Screenshot Extractor</h3>
-      <p>{isActive ? "Ready! Paste your screenshot anywhere on the page." : "First, click into a text field you want to fill."}</p>
+    <div
+      className={`image-extractor ${isReady ? 'active' : ''} ${isDragging ? 'dragging' : ''}`}
+      onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+    >
+      <h3><span aria-hidden="true">🖼️</span> Screenshot Extractor</h3>
+      <div className="extractor-modes">
+        <label className="checkbox-option">
+          <input type="radio" name="extractor-mode" checked={mode === 'field'} onChange={() => setMode('field')} />
+          Fill one field
+        </label>
+        <label className="checkbox-option">
+          <input type="radio" name="extractor-mode" checked={mode === 'section'} onChange={() => setMode('section')} />
+          Fill a whole section
+        </label>
+        {mode === 'section' && sectionTargets.length > 0 && (
+          <select value={selectedTarget} onChange={(e) => setTarget(e.target.value)} aria-label="Section to fill">
+            {sectionTargets.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+          </select>
+        )}
+      </div>
+      <p>{hint}</p>
+      <button className="section-control-btn" onClick={() => fileInputRef.current?.click()} disabled={!isReady}>Choose file</button>
+      <input ref={fileInputRef} type="file" accept="image/*,application/pdf" onChange={(e) => { handleFile(e.target.files?.[0]); e.target.value = ''; }} hidden />
+      {lastExtraction && (
+        <div className="extraction-results">
+          <h4>Filled in {lastExtraction.sectionLabel}</h4>
+          {lastExtraction.results.map(result => (
+            <div key={result.field} className={`extraction-result ${result.confidence < LOW_CONFIDENCE_THRESHOLD ? 'low' : ''}`}>
+              <span>{result.label}: <strong>{result.value}</strong></span>
+              <span className="confidence-badge">{Math.round(result.confidence * 100)}%</span>
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
 
+// Switches the Preview between languages, and between the staff document and the parent summary.
+const NarrativeVariantToolbar = ({ variant, onChange }) => (
+    <div className="variant-toolbar">
+        <div className="variant-group" role="group" aria-label="Language">
+            {Object.entries(NARRATIVE_LANGUAGES).map(([id, language]) => (
+                <button key={id} lang={id} className={`variant-btn${variant.language === id ? ' active' : ''}`} aria-pressed={variant.language === id} onClick={() => onChange({ language: id })}>
+                    {language.label}
+                </button>
+            ))}
+        </div>
+        <div className="variant-group" role="group" aria-label="Version">
+            {Object.entries(NARRATIVE_AUDIENCES).map(([id, label]) => (
+                <button key={id} className={`variant-btn${variant.audience === id ? ' active' : ''}`} aria-pressed={variant.audience === id} onClick={() => onChange({ audience: id })}>
+                    {label}
+                </button>
+            ))}
+        </div>
+    </div>
+);
 
-const Preview = ({ data, onEdit }) => {
-    const previewRef = useRef(null);
+// The staff document is always exported; the parent summary goes alongside it when asked for or on screen.
+const ExportToolbar = ({ data, templateSet, parentTemplateSet, showingParentSummary }) => {
+    const [keepPlaceholders, setKeepPlaceholders] = useState(true);
+    const [includeParentSummary, setIncludeParentSummary] = useState(false);
+    const withParentSummary = includeParentSummary || showingParentSummary;
 
-    const generatePreviewHtml = useCallback((data) => {
-        const sanitize = (str) => str.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
-        
-        const editableSpan = (field, value, sectionType = undefined, index = undefined) => {
-            const indexAttr = index !== undefined ? `data-index="${index}"` : '';
-            const sectionAttr = sectionType ? `data-section-type="${sectionType}"` : '';
-            const sanitizedValue = sanitize(value);
-            return `<span class="editable-field" data-field="${field}" ${indexAttr} ${sectionAttr}>${sanitizedValue}</span>`;
-        };
+    const handleExport = async (format) => {
+        const sets = withParentSummary ? [templateSet, parentTemplateSet] : [templateSet];
+        try {
+            for (const set of sets) {
+                await format.run(data, { keepPlaceholders, template: set.body, variant: set });
+            }
+        } catch (error) {
+            console.error(`Failed to export ${format.id}`, error);
+            alert('Sorry, the document could not be exported.');
+        }
+    };
 
-        const studentName = data.studentName || '______ (student name)';
-        const parentName = data.parentName || '______ (parent name)';
-        
-        const htmlParts = [];
-        
-        htmlParts.push(`<strong>Introductory Paragraph</strong>`);
-        htmlParts.push(`<p>${editableSpan('studentName', studentName)} is a ${editableSpan('grade', fill(data.grade, 'grade'))} grade student diagnosed with a ${editableSpan('disabilities', fill(data.disabilities, 'disability(ies)'))} disability(ies). ${sanitize(studentName)} is currently receiving enrolled grade-level instruction in ${editableSpan('subjects', fill(data.subjects, 'subjects/courses'))} in the general education classroom. ${sanitize(fillPossessive(data.studentName, studentName))} full individual evaluation indicates that ${fillPronoun(data.studentName, 'he/she')} has cognitive deficits in ${editableSpan('cognitiveDeficits', fill(data.cognitiveDeficits, 'cognitive areas'))} and academic deficits in ${editableSpan('academicDeficits', fill(data.academicDeficits, 'academic areas'))}.</p>`);
-        htmlParts.push(`<p>The student’s disability affects their ability to ${editableSpan('disabilityImpact', fill(data.disabilityImpact, 'describe impact on access/progress'))}. These deficits are noted as ${data.deficitType ? `${data.deficitType.charAt(0).toUpperCase() + data.deficitType.slice(1)}` : '☐ normative ☐ relative'} according to cognitive and achievement assessments.</p>`);
-        htmlParts.push(`<p>Currently, ${sanitize(studentName)} receives ${editableSpan('specialEdSupport', fill(data.specialEdSupport, 'special education/resource support'))} and ${editableSpan('relatedServices', fill(data.relatedServices, 'related services'))} with accommodations including ${editableSpan('accommodations', fill(data.accommodations, 'list of accommodations'))}.</p>`);
-
-        data.academicSections.forEach((section, index) => {
-            htmlParts.push(`<strong>Academics: ${sanitize(section.subject || `(Subject ${index + 1})`)}</strong>`);
-            htmlParts.push(`<p>On the spring STAAR ${editableSpan('subject', fill(section.subject, 'subject/course'), 'academic', index)} assessment, ${sanitize(studentName)} was relatively proficient in ${editableSpan('staarProficient', fill(section.staarProficient, 'TEKS Student Expectations'), 'academic', index)}. ${sanitize(studentName)} demonstrated deficits in ${editableSpan('staarDeficits', fill(section.staarDeficits, 'Student Essential Outcome or TEKS'), 'academic', index)}.</p>`);
-            htmlParts.push(`<p>Baseline data shows that ${sanitize(studentName)} performs at ${editableSpan('readingFluency', fill(section.readingFluency, 'score/percentile'), 'academic', index)} in reading fluency, ${editableSpan('readingComprehension', fill(section.readingComprehension, 'score/percentile'), 'academic', index)} in reading comprehension, and ${editableSpan('mathProblemSolving', fill(section.mathProblemSolving, 'score/percentile'), 'academic', index)} in math problem-solving.</p>`);
-            htmlParts.push(`<p>In the classroom setting, ${sanitize(studentName)} is able to ${editableSpan('classroomStrengths', fill(section.classroomStrengths, 'strengths'), 'academic', index)}. However, ${fillPronoun(data.studentName, 'he/she')} demonstrates deficits in the classroom in ${editableSpan('classroomDeficits', fill(section.classroomDeficits, 'needs—aligned with STAAR weak areas'), 'academic', index)}, as evidenced by ${editableSpan('deficitsEvidence', fill(section.deficitsEvidence, 'work samples, CBM, rubrics'), 'academic', index)}.</p>`);
-            htmlParts.push(`<p>Critical areas of need remain ${editableSpan('criticalNeeds', fill(section.criticalNeeds, 'area'), 'academic', index)}, which affect independent access to the grade-level curriculum.</p>`);
-        });
+    return (
+        <div className="export-toolbar">
+            <span className="export-label">Export:</span>
+            {EXPORT_FORMATS.map(format => (
+                <button key={format.id} className="export-btn" onClick={() => handleExport(format)}>{format.label}</button>
+            ))}
+            <label className="export-option">
+                <input type="checkbox" checked={withParentSummary} disabled={showingParentSummary} onChange={(e) => setIncludeParentSummary(e.target.checked)} />
+                Also export parent summary
+            </label>
+            <label className="export-option">
+                <input type="checkbox" checked={keepPlaceholders} onChange={(e) => setKeepPlaceholders(e.target.checked)} />
+                Keep placeholders
+            </label>
+        </div>
+    );
+};
 
-        htmlParts.push(`<strong>Functional</strong>`);
-        htmlParts.push(`<p>According to ${editableSpan('functionalDataSource', fill(data.functionalDataSource, 'teacher information, observation, etc.'))}, ${sanitize(studentName)} has strengths in ${editableSpan('functionalStrengths', fill(data.functionalStrengths, 'functional strengths'))}. However, according to the same sources, ${sanitize(studentName)} has deficits in ${editableSpan('functionalDeficits', fill(data.functionalDeficits, 'functional deficits and data'))}. At this time, these functional deficits are negatively impacting ${sanitize(fillPossessive(data.studentName, studentName))} rate of progress by ${editableSpan('functionalImpact', fill(data.functionalImpact, 'describe impact'))}.</p>`);
+// Reads a paragraph back from the page as text and slot parts (see reconcilePreviewEdits).
+const readPreviewParagraph = (element) => {
+    const parts = [];
+    const walk = (node) => node.childNodes.forEach(child => {
+        if (child.nodeType === Node.TEXT_NODE) {
+            parts.push({ type: 'text', text: child.textContent });
+        } else if (child.dataset?.slot !== undefined) {
+            parts.push({ type: 'slot', slot: Number(child.dataset.slot), value: child.textContent });
+        } else {
+            if (child.nodeName === 'BR') parts.push({ type: 'text', text: ' ' });
+            walk(child);
+        }
+    });
+    walk(element);
+    return parts;
+};
 
-        htmlParts.push(`<strong>Transition (Secondary)</strong>`);
-        htmlParts.push(`<p>According to teacher survey and classroom observation, ${sanitize(studentName)} was relatively proficient in ${editableSpan('transitionStrengths', fill(data.transitionStrengths, 'strengths - Life Skills, Community experiences, etc.'))}. In order to progress in independent living, employment, post-secondary educational training, and community experiences ${sanitize(studentName)} will need support in ${editableSpan('transitionSupportNeeds', fill(data.transitionSupportNeeds, 'support areas'))}.</p>`);
-        htmlParts.push(`<p>${sanitize(studentName)} would like to work in the ${editableSpan('transitionEmploymentGoal', fill(data.transitionEmploymentGoal, 'area of employment'))} after high school.</p>`);
-        htmlParts.push(`<p>${editableSpan('parentName', parentName)} plans for him/her to work ${editableSpan('parentEmploymentPlan', fill(data.parentEmploymentPlan, 'full or part'))} time when he/she graduates. ${editableSpan('parentName', parentName)} would like to see ${sanitize(studentName)} work in ${editableSpan('parentEmploymentGoal', fill(data.parentEmploymentGoal, 'employment area'))} industry after their educational career. ${editableSpan('parentName', parentName)} is planning for ${sanitize(studentName)} to live ${editableSpan('parentLivingPlan', fill(data.parentLivingPlan, 'with a friend / independently / at home'))} after educational career.</p>`);
+const escapeAttribute = (str) => sanitize(str).replace(/"/g, '&quot;');
 
-        if (data.performanceSummarySections.length > 0) {
-            htmlParts.push(`<strong>Summary of Performance</strong>`);
-            data.performanceSummarySections.forEach((section, index) => {
-                htmlParts.push(`<p>${sanitize(studentName)} ${editableSpan('passedStateAssessment', fill(section.passedStateAssessment, 'passed/did not pass'), 'summary', index)} the ${editableSpan('subject', fill(section.subject, 'subject'), 'summary', index)} state assessment with a performance of ${editableSpan('taksScore', fill(section.taksScore, 'TAKS score'), 'summary', index)}, obtaining a raw score of ${editableSpan('rawScore', fill(section.rawScore, 'raw score'), 'summary', index)} which was ${editableSpan('percentCorrect', fill(section.percentCorrect, '% correct'), 'summary', index)} correct. ${sanitize(studentName)} is currently making or made a ${editableSpan('gradeInSubject', fill(section.gradeInSubject, 'grade in subject'), 'summary', index)}. ${sanitize(studentName)} requires accommodations/modifications/assistive technology of ${editableSpan('accommodations', fill(section.accommodations, 'accommodations/assist tech'), 'summary', index)} due to his/her disability and ${editableSpan('needs', fill(section.needs, 'needs'), 'summary', index)}. ${sanitize(fillPronoun(data.studentName, 'He/She'))} ${editableSpan('receivesSpecialEdSupport', fill(section.receivesSpecialEdSupport, 'receives/does not receive'), 'summary', index)} special education support in ${editableSpan('subject', section.subject, 'summary', index)}. In ${editableSpan('subject', fill(section.subject, 'subject'), 'summary', index)} ${sanitize(studentName)} exhibits skills of ${editableSpan('strengths', fill(section.strengths, 'PLAAFP strengths for subject'), 'summary', index)}.</p>`);
-            });
-        }
+// Each field is an atomic token: the outer span can't be edited or partly deleted, the inner one
+// holds the value. Text between tokens is editable and saved as a paragraph override.
+const previewSlotHtml = (slot, index) => {
+    const display = sanitize(plainText(slot));
+    const empty = slot.value?.trim() ? '' : ' empty';
+    if (slot.editable === false) {
+        return `<span class="locked-field" contenteditable="false" data-slot="${index}" title="Change this in the form">${display}</span>`;
+    }
+    return `<span class="editable-field${empty}" contenteditable="false" data-slot="${index}" data-field="${slot.field}"><span class="field-value" contenteditable="true">${display}</span></span>`;
+};
+
+const Preview = ({ data, templateSet, onEdit }) => {
+    const previewRef = useRef(null);
+    const focusedRef = useRef(null);
+    const hintId = useId();
 
-        return htmlParts.join('');
-    }, []);
+    const model = buildNarrativeModel(data, templateSet.body, templateSet);
+    const paragraphs = model.flatMap(section => section.paragraphs);
+    const conflicts = paragraphs.flatMap(paragraph => paragraph.conflicts.map(gap => ({ paragraph, gap })));
 
-    const html = generatePreviewHtml(data);
+    const html = model.map(({ heading, paragraphs }) =>
+        `<strong contenteditable="false">${sanitize(heading)}</strong>` + paragraphs.map(paragraph => {
+            const conflict = paragraph.conflicts.length > 0
+                ? ' class="override-conflict" title="The form changed after this wording was edited here. Your wording is kept until you choose."'
+                : '';
+            const body = paragraph.gaps.map((gap, i) => sanitize(gap) + (i < paragraph.slots.length ? previewSlotHtml(paragraph.slots[i], i) : '')).join('');
+            return `<p data-key="${escapeAttribute(paragraph.key)}"${conflict}>${body}</p>`;
+        }).join('')
+    ).join('');
 
     useEffect(() => {
         if (previewRef.current && html !== previewRef.current.innerHTML) {
             previewRef.current.innerHTML = html;
         }
     }, [html]);
-    
+
+    const handleFocus = (e) => {
+        const token = e.target.closest?.('[data-slot]');
+        const paragraph = e.target.closest?.('p[data-key]');
+        focusedRef.current = token && paragraph ? { key: paragraph.dataset.key, slot: Number(token.dataset.slot) } : null;
+        // Typing into an unfilled field replaces its placeholder rather than appending to it.
+        if (token?.classList.contains('empty')) {
+            const range = document.createRange();
+            range.selectNodeContents(e.target);
+            window.getSelection().removeAllRanges();
+            window.getSelection().addRange(range);
+        }
+    };
+
+    // Only reconcile once focus leaves the Preview; moving between a field token and the text
+    // around it is still the same edit.
     const handleBlur = (e) => {
-        if (onEdit && e.currentTarget.innerHTML !== html) {
-            onEdit(e.currentTarget.innerHTML);
+        if (e.currentTarget.contains(e.relatedTarget)) return;
+        const edited = [...e.currentTarget.querySelectorAll('p[data-key]')].map(element => ({ key: element.dataset.key, parts: readPreviewParagraph(element) }));
+        const edits = reconcilePreviewEdits(model, edited, focusedRef.current);
+        if (onEdit && (edits.fieldEdits.length > 0 || edits.gapEdits.length > 0)) {
+            onEdit(edits);
+        } else {
+            // Nothing we can store (e.g. a whole paragraph was deleted), so put the document back.
+            e.currentTarget.innerHTML = html;
         }
     };
 
+    // Paragraphs come from the template, so Enter would only create text we can't place.
+    const handleKeyDown = (e) => {
+        if (e.key === 'Enter') e.preventDefault();
+    };
+
+    const resolveConflicts = (keepMine) => onEdit({
+        fieldEdits: [],
+        gapEdits: [
+            ...conflicts.map(({ paragraph, gap }) => ({
+                key: paragraph.key,
+                gap,
+                edit: keepMine ? { base: paragraph.templateGaps[gap], text: paragraph.gaps[gap] } : null,
+            })),
+            // Orphaned wording is either kept in the last gap above or dropped along with it.
+            ...paragraphs.flatMap(paragraph => paragraph.orphanedGaps.map(gap => ({ key: paragraph.key, gap, edit: null }))),
+        ],
+    });
+
     return (
-        <div
-            ref={previewRef}
-            className="preview-content"
-            contentEditable
-            suppressContentEditableWarning={true}
-            onBlur={handleBlur}
-            dangerouslySetInnerHTML={{ __html: html }}
-        />
+        <>
+            {conflicts.length > 0 && (
+                <div className="override-conflict-bar" role="status">
+                    <span>{conflicts.length} edited passage{conflicts.length === 1 ? '' : 's'} no longer match{conflicts.length === 1 ? 'es' : ''} the form.</span>
+                    <button className="section-control-btn" onClick={() => resolveConflicts(true)}>Keep my wording</button>
+                    <button className="section-control-btn" onClick={() => resolveConflicts(false)}>Use form wording</button>
+                </div>
+            )}
+            <p id={hintId} className="visually-hidden">
+                The narrative can be edited here. Values filled in from the form change the form too; Enter does not start a new paragraph.
+            </p>
+            <div
+                ref={previewRef}
+                lang={templateSet.language || 'en'}
+                className="preview-content"
+                role="textbox"
+                aria-multiline="true"
+                aria-label={templateSet.audience === 'parent' ? 'Parent summary preview' : 'PLAAFP narrative preview'}
+                aria-describedby={hintId}
+                contentEditable
+                suppressContentEditableWarning={true}
+                onFocus={handleFocus}
+                onBlur={handleBlur}
+                onKeyDown={handleKeyDown}
+                dangerouslySetInnerHTML={{ __html: html }}
+            />
+        </>
     );
 };
 
-
 const root = createRoot(document.getElementById('root'));
 root.render(<App />);
 
@@ -0,0 +1,247 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { app, React, ReactDOMClient, dom } = require('./helpers/loadApp');
+
+const { App, AiSettingsModal, SuggestionModal, DocumentManager, FormInput, RosterModal, Preview, DEFAULT_TEMPLATE_SET, initialAiSettings, initialPlaafpData, STEPS } = app;
+const { window } = dom;
+const h = React.createElement;
+
+const mounted = [];
+
+const render = async (element) => {
+    const container = document.body.appendChild(document.createElement('div'));
+    const root = ReactDOMClient.createRoot(container);
+    await React.act(async () => root.render(element));
+    mounted.push({ root, container });
+    return {
+        container,
+        rerender: (next) => React.act(async () => root.render(next)),
+        unmount: () => React.act(async () => root.unmount()),
+    };
+};
+
+test.afterEach(async () => {
+    while (mounted.length) {
+        const { root, container } = mounted.pop();
+        await React.act(async () => root.unmount());
+        container.remove();
+    }
+    localStorage.clear();
+});
+
+const press = (target, key, options = {}) => React.act(async () => {
+    target.dispatchEvent(new window.KeyboardEvent('keydown', { key, bubbles: true, cancelable: true, ...options }));
+});
+
+const click = (element) => React.act(async () => element.click());
+
+// React tracks input values itself, so set them through the native setter before dispatching.
+const type = (input, value) => React.act(async () => {
+    Object.getOwnPropertyDescriptor(window.HTMLInputElement.prototype, 'value').set.call(input, value);
+    input.dispatchEvent(new window.Event('input', { bubbles: true }));
+});
+
+const waitFor = async (check, timeout = 10000) => {
+    const started = Date.now();
+    for (;;) {
+        const result = check();
+        if (result) return result;
+        if (Date.now() - started > timeout) throw new Error('Timed out waiting for the UI');
+        await React.act(() => new Promise(resolve => setTimeout(resolve, 20)));
+    }
+};
+
+const byText = (container, selector, text) => Array.from(container.querySelectorAll(selector)).find(element => element.textContent.trim() === text);
+
+test('useDialog focuses the first control in the dialog body and labels the dialog by its title', async () => {
+    const { container } = await render(h(AiSettingsModal, { settings: initialAiSettings, onSave() {}, onClose() {} }));
+    const dialog = container.querySelector('[role="dialog"]');
+    assert.equal(dialog.getAttribute('aria-modal'), 'true');
+    assert.equal(document.getElementById(dialog.getAttribute('aria-labelledby')).textContent, 'AI Settings');
+    assert.equal(document.activeElement, container.querySelector('#ai-provider'));
+});
+
+test('useDialog keeps Tab and Shift+Tab inside the dialog', async () => {
+    const { container } = await render(h(AiSettingsModal, { settings: initialAiSettings, onSave() {}, onClose() {} }));
+    const dialog = container.querySelector('[role="dialog"]');
+    const close = container.querySelector('.modal-close-btn');
+    const save = byText(container, 'button', 'Save and Continue');
+
+    save.focus();
+    await press(save, 'Tab');
+    assert.equal(document.activeElement, close);
+
+    await press(close, 'Tab', { shiftKey: true });
+    assert.equal(document.activeElement, save);
+
+    dialog.focus();
+    await press(dialog, 'Tab', { shiftKey: true });
+    assert.equal(document.activeElement, save);
+
+    container.querySelector('#ai-model').focus();
+    await press(document.activeElement, 'Tab');
+    assert.equal(document.activeElement, container.querySelector('#ai-model'), 'Tab between inner controls is left to the browser');
+});
+
+test('useDialog closes on Escape only when it has onClose', async () => {
+    let closed = 0;
+    const { container, rerender } = await render(h(AiSettingsModal, { settings: initialAiSettings, onSave() {}, onClose: () => closed++ }));
+    await press(container.querySelector('#ai-model'), 'Escape');
+    assert.equal(closed, 1);
+
+    await rerender(h(AiSettingsModal, { settings: initialAiSettings, onSave() {} }));
+    await press(container.querySelector('#ai-model'), 'Escape');
+    assert.equal(closed, 1);
+    assert.ok(container.querySelector('[role="dialog"]'));
+});
+
+test('useDialog returns focus to the control that opened it', async () => {
+    const Opener = ({ isOpen }) => h(React.Fragment, null,
+        h('button', { id: 'opener' }, 'Show suggestion'),
+        h(SuggestionModal, { isOpen, onClose() {}, title: 'Suggestion', content: 'Text' }));
+    const { container, rerender } = await render(h(Opener, { isOpen: false }));
+    const opener = container.querySelector('#opener');
+    opener.focus();
+
+    await rerender(h(Opener, { isOpen: true }));
+    assert.ok(container.querySelector('[role="dialog"]').contains(document.activeElement));
+
+    await rerender(h(Opener, { isOpen: false }));
+    assert.equal(document.activeElement, opener);
+});
+
+const documentManager = () => h(DocumentManager, {
+    savedPlaafps: {
+        one: { ...initialPlaafpData, studentName: 'Ana Lopez', schoolYear: '2025-2026' },
+        two: { ...initialPlaafpData, studentName: 'Ben Ruiz', schoolYear: '2025-2026' },
+    },
+    roster: {},
+    currentId: 'one',
+    onSave() {}, onLoad() {}, onNew() {}, onDelete() {}, onShowHistory() {}, onStartNextYear() {}, onExport() {}, onImport() {},
+});
+
+test('the document menu opens from the keyboard and moves with Arrow, Home and End', async () => {
+    const { container } = await render(documentManager());
+    const toggle = container.querySelector('.doc-current');
+    assert.equal(toggle.getAttribute('aria-haspopup'), 'menu');
+    assert.equal(toggle.getAttribute('aria-expanded'), 'false');
+
+    toggle.focus();
+    await press(toggle, 'ArrowDown');
+    const menu = container.querySelector('[role="menu"]');
+    const items = Array.from(menu.querySelectorAll('[role="menuitem"]'));
+    assert.equal(toggle.getAttribute('aria-expanded'), 'true');
+    assert.equal(toggle.getAttribute('aria-controls'), menu.id);
+    assert.ok(items.every(item => item.tabIndex === -1));
+    assert.equal(document.activeElement, items[0]);
+
+    await press(document.activeElement, 'ArrowDown');
+    assert.equal(document.activeElement, items[1]);
+    await press(document.activeElement, 'End');
+    assert.equal(document.activeElement, items[items.length - 1]);
+    await press(document.activeElement, 'ArrowDown');
+    assert.equal(document.activeElement, items[0], 'ArrowDown wraps to the first item');
+    await press(document.activeElement, 'ArrowUp');
+    assert.equal(document.activeElement, items[items.length - 1], 'ArrowUp wraps to the last item');
+    await press(document.activeElement, 'Home');
+    assert.equal(document.activeElement, items[0]);
+});
+
+test('Escape closes the document menu and returns focus to its button', async () => {
+    const { container } = await render(documentManager());
+    const toggle = container.querySelector('.doc-current');
+    await press(toggle, 'ArrowUp');
+    await press(document.activeElement, 'Escape');
+    assert.equal(container.querySelector('[role="menu"]'), null);
+    assert.equal(toggle.getAttribute('aria-expanded'), 'false');
+    assert.equal(document.activeElement, toggle);
+});
+
+test('Tab closes the document menu without trapping focus', async () => {
+    const { container } = await render(documentManager());
+    const toggle = container.querySelector('.doc-current');
+    await press(toggle, 'ArrowDown');
+    const item = document.activeElement;
+    await press(item, 'Tab');
+    assert.equal(container.querySelector('[role="menu"]'), null);
+    assert.notEqual(document.activeElement, toggle);
+});
+
+test('the roster moves focus between its list and the student form', async () => {
+    const { container } = await render(h(RosterModal, { roster: {}, onSaveStudent() {}, onImport() {}, onClose() {} }));
+    assert.equal(document.activeElement, byText(container, 'button', '+ Add Student'));
+
+    await click(document.activeElement);
+    assert.equal(document.activeElement, container.querySelector('#roster-name'));
+
+    await click(byText(container, 'button', 'Cancel'));
+    assert.equal(document.activeElement, byText(container, 'button', '+ Add Student'));
+});
+
+test('the Preview is a labelled, described multi-line text box that ignores Enter', async () => {
+    const { container } = await render(h(Preview, { data: { ...initialPlaafpData, studentName: 'Ana Lopez' }, templateSet: DEFAULT_TEMPLATE_SET, onEdit() {} }));
+    const preview = container.querySelector('.preview-content');
+    assert.equal(preview.getAttribute('role'), 'textbox');
+    assert.equal(preview.getAttribute('aria-multiline'), 'true');
+    assert.equal(preview.getAttribute('aria-label'), 'PLAAFP narrative preview');
+    assert.match(document.getElementById(preview.getAttribute('aria-describedby')).textContent, /can be edited here/);
+    assert.equal(preview.getAttribute('lang'), 'en');
+    assert.ok(Array.from(preview.querySelectorAll('strong')).every(heading => heading.getAttribute('contenteditable') === 'false'));
+
+    const enter = new window.KeyboardEvent('keydown', { key: 'Enter', bubbles: true, cancelable: true });
+    await React.act(async () => preview.dispatchEvent(enter));
+    assert.ok(enter.defaultPrevented);
+});
+
+test('the suggestion button is named after its field', async () => {
+    const requests = [];
+    const { container } = await render(h(FormInput, {
+        name: 'studentName', label: 'Student Name', value: '', onChange() {}, onFocus() {},
+        getSuggestion: (...args) => requests.push(args),
+    }));
+    const button = container.querySelector('.suggestion-btn');
+    assert.equal(button.getAttribute('aria-label'), 'Get AI suggestion for Student Name');
+    assert.equal(button.getAttribute('aria-keyshortcuts'), 'Alt+Shift+S');
+    assert.equal(container.querySelector('label').htmlFor, container.querySelector('input').id);
+
+    await click(button);
+    assert.deepEqual(requests, [['studentName', 'Student Name', { academicIndex: undefined, summaryIndex: undefined }]]);
+});
+
+test('the status region announces step changes and shortcut hints', async () => {
+    const { container } = await render(h(App));
+    const [passphrase, confirmation] = container.querySelectorAll('input[type="password"]');
+    await type(passphrase, 'correct horse battery');
+    await type(confirmation, 'correct horse battery');
+    await click(byText(container, 'button', 'Encrypt and Continue'));
+
+    const provider = await waitFor(() => container.querySelector('#ai-provider'));
+    await React.act(async () => {
+        provider.value = 'mock';
+        provider.dispatchEvent(new window.Event('change', { bubbles: true }));
+    });
+    await click(byText(container, 'button', 'Save and Continue'));
+
+    const status = await waitFor(() => container.querySelector('[role="status"]'));
+    assert.ok(status.classList.contains('visually-hidden'));
+
+    const labels = Array.from(container.querySelectorAll('.suggestion-btn')).map(button => button.getAttribute('aria-label'));
+    assert.ok(labels.length > 0);
+    assert.ok(labels.every(label => /^Get AI suggestion for \S/.test(label)), 'every suggestion button has a field name');
+
+    const currentStep = () => Array.from(container.querySelectorAll('.stepper button[aria-current="step"]'));
+    assert.deepEqual(currentStep().map(step => step.firstChild.textContent), [STEPS[0]]);
+
+    await press(document.body, 'PageDown', { altKey: true });
+    assert.equal(status.textContent, `${STEPS[1]}, step 2 of ${STEPS.length}`);
+    assert.deepEqual(currentStep().map(step => step.firstChild.textContent), [STEPS[1]]);
+    await press(document.body, 'PageDown', { altKey: true });
+    assert.equal(status.textContent, `${STEPS[2]}, step 3 of ${STEPS.length}`);
+    await press(document.body, 'PageUp', { altKey: true });
+    await press(document.body, 'PageUp', { altKey: true });
+    assert.equal(status.textContent, `${STEPS[0]}, step 1 of ${STEPS.length}`);
+    assert.deepEqual(currentStep().map(step => step.firstChild.textContent), [STEPS[0]]);
+
+    await press(document.body, 'S', { altKey: true, shiftKey: true, code: 'KeyS' });
+    assert.equal(status.textContent, 'Select a field first, then press Alt+Shift+S for a suggestion.');
+});
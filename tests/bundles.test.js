@@ -0,0 +1,35 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { app } = require('./helpers/loadApp');
+
+const { parseBundleFile, mergeDocuments, initialPlaafpData, initialGoal, BUNDLE_FILE_TYPE, BUNDLE_VERSION } = app;
+
+const doc = (fields = {}) => ({ ...initialPlaafpData, studentName: 'Ana Lee', ...fields });
+const goal = (id, fields = {}) => ({ ...initialGoal, id, ...fields });
+
+// JSON.parse keeps "__proto__" as an ordinary key, so the file text is built by hand.
+const bundleText = (documents, students = '{}') =>
+    `{"type":"${BUNDLE_FILE_TYPE}","version":${BUNDLE_VERSION},"exportedAt":"2026-04-01T00:00:00.000Z","documents":${documents},"revisions":{},"students":${students}}`;
+
+test('merging keeps existing goals and merges imported ones by id', () => {
+    const existing = doc({ goals: [goal('a', { behavior: 'read grade-level text', criterion: '' }), goal('b', { behavior: 'solve equations' })] });
+    const incoming = doc({ goals: [goal('a', { behavior: '', criterion: '110 words correct per minute' }), goal('c', { behavior: 'write paragraphs' })] });
+    assert.deepEqual(mergeDocuments(existing, incoming).goals, [
+        goal('a', { behavior: 'read grade-level text', criterion: '110 words correct per minute' }),
+        goal('b', { behavior: 'solve equations' }),
+        goal('c', { behavior: 'write paragraphs' }),
+    ]);
+});
+
+test('documents and students with ids that would reach Object.prototype are rejected', () => {
+    const text = bundleText(
+        `{"__proto__":${JSON.stringify(doc())},"doc-1":${JSON.stringify(doc())}}`,
+        '{"__proto__":{"name":"Polluted"},"student-1":{"name":"Ana Lee"}}',
+    );
+    const { bundle, rejected } = parseBundleFile(text);
+    assert.deepEqual(Object.keys(bundle.documents), ['doc-1']);
+    assert.deepEqual(rejected.map(entry => entry.id), ['__proto__']);
+    assert.deepEqual(Object.keys(bundle.students), ['student-1']);
+    assert.equal(Object.getPrototypeOf(bundle.documents), Object.prototype);
+    assert.equal({}.name, undefined);
+});
@@ -0,0 +1,199 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { app } = require('./helpers/loadApp');
+
+const {
+    runComplianceChecks, checkRequiredFields, checkDisabilityImpact, checkAcademicSections, checkFunctionalEvidence,
+    checkTransition, checkPerformanceSummary, checkGoals, COMPLIANCE_RULES, REQUIRED_FIELDS, SUMMARY_REQUIRED_FIELDS,
+    STEP_INDEX, PROGRESS_OUTCOMES, initialPlaafpData, initialAcademicSection, initialPerformanceSummarySection, initialGoal,
+} = app;
+
+const TODAY = new Date('2026-04-01T00:00:00');
+
+const academicSection = (overrides = {}) => ({
+    ...initialAcademicSection,
+    id: 'reading',
+    subject: 'Reading',
+    currentData: '42 words correct per minute',
+    performanceComparison: PROGRESS_OUTCOMES[0],
+    criticalNeeds: 'reading fluency',
+    ...overrides,
+});
+
+const summarySection = (overrides = {}) => ({
+    ...initialPerformanceSummarySection,
+    id: 'summary',
+    subject: 'Reading',
+    passedStateAssessment: 'passed',
+    gradeInSubject: '85',
+    needs: 'reading fluency',
+    receivesSpecialEdSupport: 'receives',
+    strengths: 'decoding',
+    ...overrides,
+});
+
+const goal = (overrides = {}) => ({
+    ...initialGoal,
+    id: 'goal',
+    area: 'academic',
+    sectionId: 'reading',
+    timeframe: 'By April 2027',
+    condition: 'given a grade-level passage',
+    behavior: 'read aloud',
+    criterion: 'at 95 words correct per minute',
+    baseline: '42 words correct per minute',
+    teks: ['6.1A'],
+    ...overrides,
+});
+
+// Passes every rule: a sixth grader under the transition age with one complete section of each kind.
+const validDocument = (overrides = {}) => ({
+    ...initialPlaafpData,
+    studentName: 'Ana Lopez',
+    grade: '6',
+    dateOfBirth: '2014-09-01',
+    ardDate: '2026-04-01',
+    disabilities: 'Specific learning disability',
+    subjects: 'Reading',
+    academicDeficits: 'reading fluency',
+    disabilityImpact: 'Slow decoding limits access to grade-level texts.',
+    deficitType: 'normative',
+    specialEdSupport: 'inclusion support in ELAR',
+    accommodations: 'extended time',
+    academicSections: [academicSection()],
+    functionalStrengths: 'follows routines',
+    functionalDataSource: 'teacher observation',
+    functionalImpact: 'none',
+    performanceSummarySections: [summarySection()],
+    goals: [goal()],
+    ...overrides,
+});
+
+// Where each issue points, without the id and message text.
+const located = (issues) => issues.map(({ id, message, ...location }) => location);
+
+test('a complete document passes every rule', () => {
+    COMPLIANCE_RULES.forEach(rule => assert.deepEqual(rule(validDocument(), TODAY), [], rule.name));
+    assert.deepEqual(runComplianceChecks(validDocument(), TODAY), []);
+});
+
+test('checkRequiredFields reports each blank intro and functional field on its step', () => {
+    [...REQUIRED_FIELDS.intro.map(field => [field, STEP_INDEX.intro]), ...REQUIRED_FIELDS.functional.map(field => [field, STEP_INDEX.functional])]
+        .forEach(([field, step]) => {
+            assert.deepEqual(located(checkRequiredFields(validDocument({ [field]: '  ' }))), [{ step, severity: 'error', field }], field);
+        });
+});
+
+test('checkDisabilityImpact requires the disability impact statement', () => {
+    assert.deepEqual(checkDisabilityImpact(validDocument()), []);
+    assert.deepEqual(located(checkDisabilityImpact(validDocument({ disabilityImpact: '' }))), [{ step: STEP_INDEX.intro, severity: 'error', field: 'disabilityImpact' }]);
+});
+
+test('checkAcademicSections requires at least one section', () => {
+    assert.deepEqual(located(checkAcademicSections(validDocument({ academicSections: [] }))), [{ step: STEP_INDEX.academics, severity: 'error', field: '' }]);
+});
+
+test('checkAcademicSections reports each problem with the index of its section', () => {
+    const check = (overrides) => located(checkAcademicSections(validDocument({ academicSections: [academicSection(), academicSection({ id: 'math', subject: 'Math', ...overrides })] })));
+    const at = (severity, field) => [{ step: STEP_INDEX.academics, severity, field, academicIndex: 1 }];
+
+    assert.deepEqual(check({}), []);
+    assert.deepEqual(check({ subject: '' }), at('error', 'subject'));
+    assert.deepEqual(check({ currentData: '' }), at('error', 'currentData'));
+    assert.deepEqual(check({ currentData: '', benchmarkPercentile: '12' }), []);
+    assert.deepEqual(check({ currentData: '', dataPoints: [{ ...app.initialDataPoint, id: 'p1', measure: 'WCPM' }] }), at('error', 'currentData'));
+    assert.deepEqual(check({ currentData: '', dataPoints: [{ ...app.initialDataPoint, id: 'p1', date: '2026-01-12', score: '48' }] }), []);
+    assert.deepEqual(check({ classroomDeficits: 'multi-step problems' }), at('error', 'deficitsEvidence'));
+    assert.deepEqual(check({ classroomDeficits: 'multi-step problems', deficitsEvidence: 'unit tests' }), []);
+    assert.deepEqual(check({ performanceComparison: '' }), at('warning', 'performanceComparison'));
+    assert.deepEqual(check({ performanceComparison: PROGRESS_OUTCOMES[2] }), at('error', 'noProgressReason'));
+    assert.deepEqual(check({ performanceComparison: PROGRESS_OUTCOMES[2], noProgressReason: 'extended absences' }), []);
+    assert.deepEqual(check({ criticalNeeds: '' }), at('warning', 'criticalNeeds'));
+});
+
+test('checkAcademicSections warns about STAAR areas that are neither a TEKS code nor a reporting category', () => {
+    const issues = checkAcademicSections(validDocument({ academicSections: [academicSection({ staarDeficits: 'Underwater basket weaving', deficitsEvidence: '2025 STAAR report' })] }));
+    assert.deepEqual(located(issues), [{ step: STEP_INDEX.academics, severity: 'warning', field: 'staarDeficits', academicIndex: 0 }]);
+    assert.match(issues[0].message, /"Underwater basket weaving"/);
+    // The catalog holds a sample of expectations; 6.9(E) isn't in it but is a real code.
+    assert.deepEqual(checkAcademicSections(validDocument({ academicSections: [academicSection({ staarDeficits: 'Comprehension, 6.9(E)', deficitsEvidence: '2025 STAAR report' })] })), []);
+});
+
+test('checkFunctionalEvidence requires a data source for stated functional deficits', () => {
+    assert.deepEqual(checkFunctionalEvidence(validDocument({ functionalDataSource: '' })), []);
+    assert.deepEqual(checkFunctionalEvidence(validDocument({ functionalDeficits: 'leaves the room' })), []);
+    assert.deepEqual(
+        located(checkFunctionalEvidence(validDocument({ functionalDeficits: 'leaves the room', functionalDataSource: '' }))),
+        [{ step: STEP_INDEX.functional, severity: 'error', field: 'functionalDataSource' }],
+    );
+});
+
+test('checkTransition requires every transition field from age 14', () => {
+    const missing = REQUIRED_FIELDS.transition.map(field => ({ step: STEP_INDEX.transition, severity: 'error', field }));
+    assert.deepEqual(located(checkTransition(validDocument({ dateOfBirth: '2012-04-01' }), TODAY)), missing);
+    assert.deepEqual(checkTransition(validDocument({ dateOfBirth: '2012-04-02' }), TODAY), []);
+
+    const complete = Object.fromEntries(REQUIRED_FIELDS.transition.map(field => [field, 'planned']));
+    assert.deepEqual(checkTransition(validDocument({ dateOfBirth: '2012-04-01', ...complete }), TODAY), []);
+});
+
+test('checkTransition falls back on grade without a date of birth', () => {
+    const check = (grade) => located(checkTransition(validDocument({ dateOfBirth: '', grade }), TODAY));
+    const askForBirthDate = [{ step: STEP_INDEX.intro, severity: 'warning', field: 'dateOfBirth' }];
+
+    assert.deepEqual(check('9'), REQUIRED_FIELDS.transition.map(field => ({ step: STEP_INDEX.transition, severity: 'error', field })));
+    assert.deepEqual(check('8'), askForBirthDate);
+    assert.deepEqual(check('Ungraded'), askForBirthDate);
+    assert.deepEqual(check('7'), []);
+    assert.deepEqual(check('K'), []);
+});
+
+test('runComplianceChecks measures age on the ARD date by default', () => {
+    const fourteenAtArd = validDocument({ dateOfBirth: '2012-04-01', ardDate: '2026-04-01' });
+    assert.ok(runComplianceChecks(fourteenAtArd).some(issue => issue.step === STEP_INDEX.transition));
+    assert.deepEqual(runComplianceChecks({ ...fourteenAtArd, ardDate: '2026-03-31' }), []);
+});
+
+test('checkPerformanceSummary warns when no subjects are added', () => {
+    assert.deepEqual(located(checkPerformanceSummary(validDocument({ performanceSummarySections: [] }))), [{ step: STEP_INDEX.summary, severity: 'warning', field: '' }]);
+});
+
+test('checkPerformanceSummary reports each blank field with the index of its subject', () => {
+    ['subject', ...SUMMARY_REQUIRED_FIELDS].forEach(field => {
+        const doc = validDocument({ performanceSummarySections: [summarySection(), summarySection({ id: 'math', [field]: '' })] });
+        assert.deepEqual(located(checkPerformanceSummary(doc)), [{ step: STEP_INDEX.summary, severity: 'error', field, summaryIndex: 1 }], field);
+    });
+});
+
+test('checkGoals warns when there are no goals', () => {
+    assert.deepEqual(located(checkGoals(validDocument({ goals: [] }))), [{ step: STEP_INDEX.goals, severity: 'warning', field: '' }]);
+});
+
+test('checkGoals reports each unmeasurable part with the index of its goal', () => {
+    const check = (overrides) => located(checkGoals(validDocument({ goals: [goal(), goal({ id: 'second', ...overrides })] })));
+    const at = (severity, field) => [{ step: STEP_INDEX.goals, severity, field, goalIndex: 1 }];
+
+    assert.deepEqual(check({}), []);
+    assert.deepEqual(check({ timeframe: '' }), at('error', 'timeframe'));
+    assert.deepEqual(check({ condition: '' }), at('error', 'condition'));
+    assert.deepEqual(check({ behavior: '' }), at('error', 'behavior'));
+    assert.deepEqual(check({ behavior: 'understand main idea' }), at('error', 'behavior'));
+    assert.deepEqual(check({ behavior: 'demonstrate understanding of fractions' }), at('error', 'behavior'));
+    assert.deepEqual(check({ criterion: '' }), at('error', 'criterion'));
+    assert.deepEqual(check({ criterion: 'with mastery' }), at('error', 'criterion'));
+    assert.deepEqual(check({ criterion: 'within 2 weeks' }), at('error', 'criterion'));
+    assert.deepEqual(check({ criterion: 'in 4 out of 5 trials' }), []);
+    assert.deepEqual(check({ criterion: 'with 80% accuracy' }), []);
+    assert.deepEqual(check({ sectionId: 'missing' }), at('error', 'sectionId'));
+    assert.deepEqual(check({ teks: [] }), at('warning', 'teks'));
+    assert.deepEqual(check({ baseline: '' }), at('warning', 'baseline'));
+    assert.deepEqual(check({ area: 'functional', sectionId: '', teks: [] }), []);
+});
+
+test('runComplianceChecks orders issues by step and keeps ids stable and unique', () => {
+    const doc = validDocument({ studentName: '', academicSections: [], performanceSummarySections: [], goals: [goal({ sectionId: 'gone' })] });
+    const issues = runComplianceChecks(doc, TODAY);
+    assert.deepEqual(issues.map(issue => issue.step), [...issues.map(issue => issue.step)].sort((a, b) => a - b));
+    assert.equal(new Set(issues.map(issue => issue.id)).size, issues.length);
+    assert.deepEqual(runComplianceChecks(doc, TODAY).map(issue => issue.id), issues.map(issue => issue.id));
+});
@@ -0,0 +1,28 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { app } = require('./helpers/loadApp');
+
+const { proposeGoals, validateGoal, initialPlaafpData, initialAcademicSection } = app;
+
+const point = (id, date, score, measure = 'Unit test accuracy (%)') => ({ ...app.initialDataPoint, id, date, measure, score, source: 'unit tests' });
+const doc = (fields = {}) => ({ ...initialPlaafpData, studentName: 'Ana', ardDate: '2026-04-01', ...fields });
+const sectionWith = (dataPoints) => ({ ...initialAcademicSection, id: 'math', subject: 'Math', dataPoints });
+
+test('proposed targets stop at the top of a percentage scale', () => {
+    const [goal] = proposeGoals(doc({ academicSections: [sectionWith([point('p1', '2025-09-01', '60%'), point('p2', '2025-11-01', '80%')])] }));
+    assert.match(goal.criterion, /from a baseline of 80% to at least 100%,/);
+});
+
+test('proposed targets stop at the maximum of an out-of score', () => {
+    const points = [point('p1', '2025-09-01', '10/20', 'Problem set'), point('p2', '2025-11-01', '16/20', 'Problem set')];
+    const [goal] = proposeGoals(doc({ academicSections: [sectionWith(points)] }));
+    assert.match(goal.criterion, /to at least 20,/);
+});
+
+test('a proposed functional goal keeps the deficit as its baseline and leaves the behavior to the teacher', () => {
+    const data = doc({ functionalDeficits: 'leaves the classroom without permission', functionalDataSource: 'behavior logs' });
+    const [goal] = proposeGoals(data);
+    assert.equal(goal.behavior, '');
+    assert.equal(goal.baseline, 'leaves the classroom without permission');
+    assert.deepEqual(validateGoal(goal, data).map(problem => problem.field), ['behavior']);
+});
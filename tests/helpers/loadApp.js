@@ -0,0 +1,68 @@
+// Loads index.tsx the way the browser does: Babel strips the TypeScript and JSX, then the module
+// runs with the importmap packages replaced by npm React and stubs for the export and AI libraries.
+// Tests get every top-level declaration back by name, with a jsdom window installed as the globals.
+const fs = require('node:fs');
+const path = require('node:path');
+const babel = require('@babel/core');
+const { JSDOM } = require('jsdom');
+
+const dom = new JSDOM('<!DOCTYPE html><html><body><div id="root"></div></body></html>', {
+    url: 'http://localhost/',
+    pretendToBeVisual: true,
+});
+
+const DOM_GLOBALS = [
+    'window', 'document', 'navigator', 'localStorage', 'sessionStorage', 'getComputedStyle',
+    'requestAnimationFrame', 'cancelAnimationFrame', 'MutationObserver',
+    'Node', 'Element', 'HTMLElement', 'HTMLInputElement', 'HTMLTextAreaElement', 'HTMLSelectElement',
+    'Event', 'KeyboardEvent', 'MouseEvent', 'FocusEvent', 'InputEvent',
+];
+DOM_GLOBALS.forEach(key => {
+    Object.defineProperty(globalThis, key, { value: dom.window[key], configurable: true, writable: true });
+});
+globalThis.IS_REACT_ACT_ENVIRONMENT = true;
+
+// jsdom does no layout, so nothing has client rects; treat every element outside a hidden
+// subtree as rendered so focusableElements() sees the same controls a browser would.
+dom.window.Element.prototype.getClientRects = function () {
+    return this.closest('[hidden]') ? [] : [{ width: 1, height: 1 }];
+};
+
+const React = require('react');
+const ReactDOMClient = require('react-dom/client');
+
+const MODULES = {
+    'react': React,
+    'react-dom/client': ReactDOMClient,
+    '@google/genai': { GoogleGenAI: class {} },
+    'docx': { Document: class {}, Packer: {}, Paragraph: class {}, HeadingLevel: {} },
+    'jspdf': { jsPDF: class {} },
+};
+
+const IMPORT = /^import\s+(?:(\w+)\s*,?\s*)?(?:\{([^}]*)\})?\s*from\s*'([^']+)';\r?$/gm;
+
+const load = () => {
+    const source = fs.readFileSync(path.join(__dirname, '..', '..', 'index.tsx'), 'utf8')
+        .replace(IMPORT, (_, defaultName, named, from) => [
+            defaultName ? `const ${defaultName} = __modules['${from}'];` : '',
+            named ? `const {${named}} = __modules['${from}'];` : '',
+        ].join(' '))
+        // The module mounts the app on load; tests render what they need themselves.
+        .replace(/^const root = createRoot\([\s\S]*$/m, '');
+
+    const { code, ast } = babel.transformSync(source, {
+        filename: 'index.tsx',
+        presets: ['@babel/preset-typescript', '@babel/preset-react'],
+        babelrc: false,
+        configFile: false,
+        ast: true,
+    });
+    const names = ast.program.body.flatMap(node => {
+        if (node.type === 'VariableDeclaration') return node.declarations.map(declaration => declaration.id.name).filter(Boolean);
+        if (node.type === 'FunctionDeclaration' || node.type === 'ClassDeclaration') return [node.id.name];
+        return [];
+    });
+    return new Function('__modules', `${code}\nreturn { ${names.join(', ')} };`)(MODULES);
+};
+
+module.exports = { app: load(), React, ReactDOMClient, dom };
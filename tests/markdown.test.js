@@ -0,0 +1,111 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { renderToStaticMarkup } = require('react-dom/server');
+const { app, React } = require('./helpers/loadApp');
+
+const { parseMarkdown, Markdown } = app;
+
+// Every text token and link href in a parsed tree. Code is left out: it is shown verbatim by design.
+const collect = (blocks) => {
+    const texts = [];
+    const hrefs = [];
+    const inline = (tokens) => tokens.forEach(token => {
+        if (token.type === 'text') texts.push(token.text);
+        if (token.type === 'link') hrefs.push(token.href);
+        if (token.children) inline(token.children);
+    });
+    const walk = (list) => list.forEach(block => {
+        if (block.children) inline(block.children);
+        if (block.blocks) walk(block.blocks);
+        if (block.items) block.items.forEach(item => { inline(item.children); walk(item.blocks); });
+        if (block.header) [...block.header, ...block.rows.flat()].forEach(inline);
+    });
+    walk(blocks);
+    return { texts, hrefs };
+};
+
+const RAW_HTML = /<\/?[a-z!]|\bon[a-z]+\s*=|javascript:/i;
+
+const assertSafe = (markdown) => {
+    const { texts, hrefs } = collect(parseMarkdown(markdown));
+    texts.forEach(text => assert.doesNotMatch(text, RAW_HTML, `text token ${JSON.stringify(text)}`));
+    hrefs.forEach(href => assert.match(href, /^(?:https?:\/\/|mailto:)/i, `href ${JSON.stringify(href)}`));
+    return { texts, hrefs };
+};
+
+test('script and style elements are removed with their contents', () => {
+    assert.deepEqual(assertSafe('Before<script>alert(1)</script> after').texts, ['Before after']);
+    assert.deepEqual(assertSafe('<style>body { display: none }</style>Shown').texts, ['Shown']);
+    assert.deepEqual(assertSafe('Before <SCRIPT type="text/javascript">\nalert(1)\n</SCRIPT >\nafter').texts, ['Before', 'after']);
+    assert.deepEqual(assertSafe('Unclosed <script>alert(1)\nstill inside').texts, ['Unclosed']);
+});
+
+test('event-handler attributes go with their tags', () => {
+    assert.deepEqual(assertSafe('Look <img src=x onerror=alert(1)> here').texts, ['Look  here']);
+    assert.deepEqual(assertSafe('<img src=x onerror="alert(\'>\')">Done').texts, ['Done']);
+    assert.deepEqual(assertSafe('<svg/onload=alert(1)>').texts, []);
+    assert.deepEqual(assertSafe('<img\nsrc=x\nonerror=alert(1)>after').texts, ['after']);
+});
+
+test('links keep only http(s) and mailto hrefs', () => {
+    assert.deepEqual(assertSafe('[TEA](https://tea.texas.gov) and [email](mailto:case@example.org)').hrefs, ['https://tea.texas.gov', 'mailto:case@example.org']);
+    [
+        '[x](javascript:alert(1))',
+        '[x](JavaScript:alert(1))',
+        '[x]( javascript:alert(1) )',
+        '[x](data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==)',
+        '[x](data:text/html,<script>alert(1)</script>)',
+        '[x](vbscript:msgbox(1))',
+        '[x](//evil.example)',
+    ].forEach(markdown => {
+        const { texts, hrefs } = assertSafe(markdown);
+        assert.deepEqual(hrefs, [], markdown);
+        assert.deepEqual(texts, ['x'], markdown);
+    });
+});
+
+test('raw anchors and iframes are dropped and only their text is kept', () => {
+    assert.deepEqual(assertSafe('<a href="javascript:alert(1)">click</a>'), { texts: ['click'], hrefs: [] });
+    assert.deepEqual(assertSafe('<iframe src="data:text/html,<script>alert(1)</script>"></iframe>Text').texts, ['Text']);
+});
+
+test('HTML blocks and comments are stripped', () => {
+    const blocks = parseMarkdown('<div onclick="alert(1)">\n<p>Reads at grade level.</p>\n</div>\n\n<!-- <script>alert(1)</script> -->Next');
+    assert.deepEqual(collect(blocks).texts, ['Reads at grade level.', 'Next']);
+    assertSafe('<table><tr><td onmouseover="alert(1)">cell</td></tr></table>');
+});
+
+test('HTML nested in lists and quotes is stripped', () => {
+    const { texts, hrefs } = assertSafe([
+        '- <script>alert(1)</script>First',
+        '  - <img src=x onerror=alert(1)>Nested [link](javascript:alert(1))',
+        '    <b onmouseover="alert(1)">Bold</b> continued',
+        '- Item <div',
+        '  onclick=alert(1)>wrapped</div>',
+        '',
+        '> <iframe src="javascript:alert(1)"></iframe>Quote',
+        '> - <a href="data:text/html,x">listed</a> in a quote',
+        '> > <b onmouseover="alert(1)">nested</b> quote',
+        '',
+        '| Area | Note |',
+        '| --- | --- |',
+        '| <img src=x onerror=alert(1)>Math | [x](javascript:alert(1)) |',
+    ].join('\n'));
+    assert.deepEqual(hrefs, []);
+    assert.deepEqual(texts, ['First', 'Nested ', 'link', 'Bold continued', 'Item wrapped', 'Quote', 'listed in a quote', 'nested quote', 'Area', 'Note', 'Math', 'x']);
+});
+
+test('comparisons and code keep their angle brackets as text', () => {
+    assert.deepEqual(assertSafe('Scores of 3 < 5 and 7 > 2').texts, ['Scores of 3 < 5 and 7 > 2']);
+    assert.deepEqual(parseMarkdown('Use `<b>` for bold'), [{ type: 'paragraph', children: [{ type: 'text', text: 'Use ' }, { type: 'code', text: '<b>' }, { type: 'text', text: ' for bold' }] }]);
+    assert.deepEqual(parseMarkdown('```\n<img src=x onerror=alert(1)>\n```'), [{ type: 'code', text: '<img src=x onerror=alert(1)>' }]);
+});
+
+test('the Markdown component never renders markup from the text', () => {
+    const html = renderToStaticMarkup(React.createElement(Markdown, {
+        text: '<img src=x onerror=alert(1)>\n\n- [x](javascript:alert(1))\n\n> <script>alert(1)</script>\n\n`<b onclick=alert(1)>`\n\n[safe](https://example.com)',
+    }));
+    assert.doesNotMatch(html, /<img|<script|<b |javascript:/i);
+    assert.match(html, /&lt;b onclick=alert\(1\)&gt;/);
+    assert.match(html, /href="https:\/\/example\.com"/);
+});
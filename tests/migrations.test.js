@@ -0,0 +1,129 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { app } = require('./helpers/loadApp');
+
+const {
+    SCHEMA_VERSION, MIGRATIONS, migrateDocument, migrateAllDocuments,
+    initialPlaafpData, initialAcademicSection, initialPerformanceSummarySection, initialGoal,
+} = app;
+
+const currentDocument = () => ({
+    ...initialPlaafpData,
+    studentName: 'Ana Lopez',
+    grade: '7',
+    pronouns: 'she',
+    rosterStudentId: 'student-1',
+    dateOfBirth: '2012-03-04',
+    paragraphOverrides: { reading: { 0: { base: 'Ana reads.', text: 'Ana reads fluently.' } } },
+    schoolYear: '2025-2026',
+    ardDate: '2026-04-01',
+    academicSections: [{ ...initialAcademicSection, id: 'reading', subject: 'Reading', progressDataSources: ['STAAR'], dataPoints: [{ id: 'p1', date: '2025-10-01', measure: 'Oral reading fluency (WCPM)', score: '42', percentile: '', source: 'CBM probe' }] }],
+    performanceSummarySections: [{ ...initialPerformanceSummarySection, id: 'summary', subject: 'Reading' }],
+    goals: [{ ...initialGoal, id: 'goal', sectionId: 'reading', behavior: 'read grade-level passages' }],
+});
+
+test('there is one migration per schema version', () => {
+    assert.equal(MIGRATIONS.length, SCHEMA_VERSION);
+});
+
+test('0 -> 1 fills missing document and section fields without overwriting existing values', () => {
+    const upgraded = MIGRATIONS[0]({
+        studentName: 'Ana Lopez',
+        academicSections: [{ id: 'reading', subject: 'Reading', progressDataSources: ['STAAR'] }],
+        performanceSummarySections: [{ id: 'summary', subject: 'Reading' }],
+    });
+    assert.equal(upgraded.studentName, 'Ana Lopez');
+    assert.equal(upgraded.grade, initialPlaafpData.grade);
+    assert.deepEqual(upgraded.disabilities, initialPlaafpData.disabilities);
+    assert.deepEqual(upgraded.academicSections[0], { ...initialAcademicSection, id: 'reading', subject: 'Reading', progressDataSources: ['STAAR'] });
+    assert.deepEqual(upgraded.performanceSummarySections[0], { ...initialPerformanceSummarySection, id: 'summary', subject: 'Reading' });
+});
+
+test('0 -> 1 converts a comma-separated progressDataSources string to an array', () => {
+    const upgraded = MIGRATIONS[0]({ academicSections: [{ id: 'a', progressDataSources: 'work samples, STAAR , ,benchmark' }, { id: 'b', progressDataSources: '' }] });
+    assert.deepEqual(upgraded.academicSections.map(section => section.progressDataSources), [['work samples', 'STAAR', 'benchmark'], []]);
+});
+
+test('1 -> 2 gives duplicate and missing section ids fresh ids and keeps unique ones', () => {
+    const upgraded = MIGRATIONS[1]({
+        academicSections: [{ id: '1700000000000', subject: 'Reading' }, { id: '1700000000000', subject: 'Math' }, { subject: 'Science' }],
+        performanceSummarySections: [{ id: '1700000000000', subject: 'Reading' }, { id: 'summary', subject: 'Math' }],
+    });
+    const ids = [...upgraded.academicSections, ...upgraded.performanceSummarySections].map(section => section.id);
+    assert.equal(ids[0], '1700000000000');
+    assert.equal(ids[4], 'summary');
+    assert.equal(new Set(ids).size, ids.length);
+    assert.ok(ids.every(Boolean));
+    assert.deepEqual(upgraded.academicSections.map(section => section.subject), ['Reading', 'Math', 'Science']);
+});
+
+const ADDED_FIELDS = [
+    { version: 2, added: { pronouns: '' }, existing: { pronouns: 'they' } },
+    { version: 3, added: { rosterStudentId: '' }, existing: { rosterStudentId: 'student-1' } },
+    { version: 4, added: { dateOfBirth: '' }, existing: { dateOfBirth: '2012-03-04' } },
+    { version: 5, added: { paragraphOverrides: {} }, existing: { paragraphOverrides: { reading: { 0: { base: 'a', text: 'b' } } } } },
+    { version: 6, added: { schoolYear: '', ardDate: '' }, existing: { schoolYear: '2025-2026', ardDate: '2026-04-01' } },
+    { version: 8, added: { goals: [] }, existing: { goals: [{ id: 'goal', behavior: 'read' }] } },
+];
+
+ADDED_FIELDS.forEach(({ version, added, existing }) => {
+    test(`${version} -> ${version + 1} adds ${Object.keys(added).join(' and ')} and keeps existing values`, () => {
+        const doc = { studentName: 'Ana Lopez' };
+        assert.deepEqual(MIGRATIONS[version](doc), { ...doc, ...added });
+        assert.deepEqual(MIGRATIONS[version]({ ...doc, ...existing }), { ...doc, ...existing });
+    });
+});
+
+test('7 -> 8 adds dataPoints to each academic section and keeps existing ones', () => {
+    const points = [{ id: 'p1', date: '2025-10-01', measure: 'Oral reading fluency (WCPM)', score: '42', percentile: '', source: 'CBM probe' }];
+    const upgraded = MIGRATIONS[7]({ academicSections: [{ id: 'a' }, { id: 'b', dataPoints: points }] });
+    assert.deepEqual(upgraded.academicSections, [{ id: 'a', dataPoints: [] }, { id: 'b', dataPoints: points }]);
+});
+
+test('migrateDocument stamps SCHEMA_VERSION from every earlier version', () => {
+    for (let version = 0; version < SCHEMA_VERSION; version++) {
+        const migrated = migrateDocument({ schemaVersion: version, studentName: 'Ana Lopez' });
+        assert.equal(migrated.schemaVersion, SCHEMA_VERSION, `from version ${version}`);
+        assert.equal(migrated.studentName, 'Ana Lopez');
+    }
+    assert.equal(migrateDocument({ studentName: 'Ana Lopez' }).schemaVersion, SCHEMA_VERSION);
+});
+
+test('migrateDocument upgrades a version 0 document through the whole chain', () => {
+    const migrated = migrateDocument({
+        studentName: 'Ana Lopez',
+        academicSections: [{ id: 'same', subject: 'Reading', progressDataSources: 'STAAR, work samples' }],
+        performanceSummarySections: [{ id: 'same', subject: 'Reading' }],
+    });
+    const [section] = migrated.academicSections;
+    assert.deepEqual(section.progressDataSources, ['STAAR', 'work samples']);
+    assert.deepEqual(section.dataPoints, []);
+    assert.equal(section.id, 'same');
+    assert.notEqual(migrated.performanceSummarySections[0].id, 'same');
+    assert.equal(migrated.pronouns, '');
+    assert.deepEqual(migrated.paragraphOverrides, {});
+    assert.deepEqual(migrated.goals, []);
+});
+
+test('migrateDocument leaves a current document untouched', () => {
+    const doc = currentDocument();
+    const snapshot = structuredClone(doc);
+    assert.deepEqual(migrateDocument(doc), snapshot);
+    assert.deepEqual(doc, snapshot);
+});
+
+test('migrateDocument loads a document from a newer version as-is', (t) => {
+    t.mock.method(console, 'warn', () => {});
+    const doc = { ...currentDocument(), schemaVersion: SCHEMA_VERSION + 1, futureField: 'kept' };
+    const migrated = migrateDocument(doc);
+    assert.equal(migrated.schemaVersion, SCHEMA_VERSION + 1);
+    assert.equal(migrated.futureField, 'kept');
+    assert.equal(console.warn.mock.callCount(), 1);
+});
+
+test('migrateAllDocuments migrates every document by id', () => {
+    const migrated = migrateAllDocuments({ old: { studentName: 'Ana Lopez' }, current: currentDocument() });
+    assert.deepEqual(Object.keys(migrated), ['old', 'current']);
+    assert.equal(migrated.old.schemaVersion, SCHEMA_VERSION);
+    assert.deepEqual(migrated.current, currentDocument());
+});
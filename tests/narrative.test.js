@@ -0,0 +1,55 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { app } = require('./helpers/loadApp');
+
+const { buildNarrativeModel, compileTemplate, plainText, initialPlaafpData, DEFAULT_TEMPLATE_BODY, TEMPLATE_CACHE_LIMIT } = app;
+
+const doc = (fields = {}) => ({ ...initialPlaafpData, studentName: 'Ana', ...fields });
+
+const paragraphText = ({ gaps, slots }) => gaps.map((gap, i) => gap + (slots[i] ? plainText(slots[i]) : '')).join('');
+const paragraphTexts = (model) => model.flatMap(section => section.paragraphs.map(paragraphText));
+
+test('a saved template that no longer parses falls back to the built-in template', () => {
+    const broken = buildNarrativeModel(doc(), '## Heading\n{{#if studentName}}never closed');
+    assert.deepEqual(broken, buildNarrativeModel(doc(), DEFAULT_TEMPLATE_BODY));
+});
+
+test('compiled templates are cached up to a limit', () => {
+    const first = compileTemplate('{{studentName}} first');
+    assert.equal(compileTemplate('{{studentName}} first'), first);
+    for (let i = 0; i < TEMPLATE_CACHE_LIMIT; i++) compileTemplate(`{{studentName}} ${i}`);
+    assert.notEqual(compileTemplate('{{studentName}} first'), first);
+});
+
+test('templates render the document fields', () => {
+    const [text] = paragraphTexts(buildNarrativeModel(doc(), '{{student}} is in grade {{grade|grade}}.'));
+    assert.equal(text, 'Ana is in grade (grade).');
+});
+
+const progressDoc = (performanceComparison, paragraphOverrides = {}) => doc({
+    academicSections: [{ ...app.initialAcademicSection, id: 'reading', subject: 'Reading', performanceComparison, noProgressReason: 'frequent absences' }],
+    paragraphOverrides,
+});
+const progressParagraph = (data) => buildNarrativeModel(data).flatMap(section => section.paragraphs)
+    .find(paragraph => paragraph.templateGaps[0].startsWith('Since the last ARD'));
+
+test('edits survive a conditional field appearing in the paragraph', () => {
+    const before = progressParagraph(progressDoc('has made progress'));
+    const overrides = { [before.key]: { 0: { base: before.templateGaps[0], text: 'Since March, according to ' } } };
+    const after = progressParagraph(progressDoc('has not made progress', overrides));
+    assert.equal(after.key, before.key);
+    assert.equal(after.slots.length, before.slots.length + 1);
+    assert.equal(after.gaps[0], 'Since March, according to ');
+    assert.deepEqual(after.conflicts, []);
+});
+
+test('edits to gaps a conditional field took with it are shown as conflicts', () => {
+    const before = progressParagraph(progressDoc('has not made progress'));
+    const last = before.gaps.length - 1;
+    const overrides = { [before.key]: { [last]: { base: before.templateGaps[last], text: ', which is improving.' } } };
+    const after = progressParagraph(progressDoc('has made progress', overrides));
+    assert.equal(after.key, before.key);
+    assert.deepEqual(after.orphanedGaps, [last]);
+    assert.deepEqual(after.conflicts, [after.gaps.length - 1]);
+    assert.equal(after.gaps[after.gaps.length - 1], ', which is improving.');
+});
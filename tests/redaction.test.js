@@ -0,0 +1,22 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { app } = require('./helpers/loadApp');
+
+const { buildRedactionTerms, redactText, restoreText, initialPlaafpData } = app;
+
+const termsFor = (fields, rosterStudent = undefined) => buildRedactionTerms({ ...initialPlaafpData, ...fields }, rosterStudent);
+
+test('names are replaced by tokens and restored afterwards', () => {
+    const terms = termsFor({ studentName: 'Ana Lee', parentName: 'Maria Lee' }, { studentId: '123456789' });
+    const { text, tokens } = redactText('Ana Lee (ID 123456789) reads with Maria Lee. Ana is improving.', terms);
+    assert.equal(text, '[STUDENT_NAME] (ID [STUDENT_ID]) reads with [PARENT_NAME_1]. [STUDENT_FIRST_NAME] is improving.');
+    assert.equal(restoreText(text, tokens), 'Ana Lee (ID 123456789) reads with Maria Lee. Ana is improving.');
+});
+
+test('names that are also common words are only matched when capitalized', () => {
+    const terms = termsFor({ studentName: 'May Grant', parentName: 'Hope Grant' });
+    const original = 'May may need extra time. We hope the grant covers tutoring; MAY and Grant agree.';
+    const { text, tokens } = redactText(original, terms);
+    assert.equal(text, '[STUDENT_FIRST_NAME] may need extra time. We hope the grant covers tutoring; [STUDENT_FIRST_NAME] and [STUDENT_LAST_NAME] agree.');
+    assert.equal(restoreText(text, tokens), 'May may need extra time. We hope the grant covers tutoring; May and Grant agree.');
+});